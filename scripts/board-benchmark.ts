@@ -0,0 +1,28 @@
+/**
+ * Times the engine's grid against the bitboard over the same seeded
+ * placements, searched the way the bot searches. Run with
+ *
+ *   npm run bench:board -- --pieces 500 --seed 1
+ */
+
+import { benchmarkBoards } from "../src/engine";
+
+/**
+ * Reads a numeric command line option.
+ *
+ * @param name The option's name, without the leading dashes
+ * @param fallback The value to use when the option isn't given
+ * @returns The option's value
+ */
+const option = (name: string, fallback: number): number => {
+  const index = process.argv.indexOf(`--${name}`);
+  const value = index === -1 ? NaN : Number(process.argv[index + 1]);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const result = benchmarkBoards({ pieces: option("pieces", 500), seed: option("seed", 1) });
+
+console.log(`${result.pieces} pieces, ${result.checks} collision checks`);
+console.log(`grid:     ${result.grid.toFixed(0)}ms`);
+console.log(`bitboard: ${result.bitboard.toFixed(0)}ms (${(result.grid / result.bitboard).toFixed(1)}x)`);
+console.log(result.same ? "both ended on the same board" : "the boards differ!");
@@ -0,0 +1,37 @@
+/**
+ * Lets the bot play a batch of seeded games and reports how it did, for
+ * comparing heuristic weights. Run with
+ *
+ *   npm run bench:bot -- --games 5 --pieces 500 --seed 1
+ */
+
+import { runBenchmark } from "../src/engine";
+
+/**
+ * Reads a numeric command line option.
+ *
+ * @param name The option's name, without the leading dashes
+ * @param fallback The value to use when the option isn't given
+ * @returns The option's value
+ */
+const option = (name: string, fallback: number): number => {
+  const index = process.argv.indexOf(`--${name}`);
+  const value = index === -1 ? NaN : Number(process.argv[index + 1]);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const games = option("games", 5);
+const maxPieces = option("pieces", 500);
+const seed = option("seed", 1);
+
+const started = performance.now();
+const result = runBenchmark(games, { seed, maxPieces });
+
+result.games.forEach(game =>
+  console.log(
+    `seed ${game.seed}: ${game.lines} lines, ${game.score} points, ${game.pieces} pieces` +
+      (game.toppedOut ? " (topped out)" : "")
+  )
+);
+console.log(`average: ${result.averageLines.toFixed(1)} lines, ${result.averageScore.toFixed(0)} points`);
+console.log(`took ${((performance.now() - started) / 1000).toFixed(1)}s`);
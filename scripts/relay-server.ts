@@ -0,0 +1,253 @@
+/**
+ * The relay server for networked versus. It seats players in rooms and passes
+ * their messages between them, following the rules in src/relay.ts. It speaks
+ * just enough WebSocket (RFC 6455) for browsers to connect: text frames,
+ * pings and closing. Run with
+ *
+ *   npm run relay -- --port 8787
+ */
+
+import { createHash } from "node:crypto";
+import { IncomingMessage, createServer } from "node:http";
+import { Duplex } from "node:stream";
+import {
+  ClientMessage,
+  Message,
+  Outgoing,
+  Relay,
+  createRelay,
+  parseMessage,
+  relayDisconnect,
+  relayMessage,
+  serializeMessage,
+} from "../src/engine";
+
+/** The GUID the WebSocket handshake hashes with the client's key. */
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/** Frame opcodes. */
+const CONTINUATION = 0x0;
+const TEXT = 0x1;
+const CLOSE = 0x8;
+const PING = 0x9;
+const PONG = 0xa;
+
+/** Close statuses: the client broke the protocol, or sent data the server doesn't take. */
+const PROTOCOL_ERROR = 1002;
+const UNSUPPORTED_DATA = 1003;
+
+/** The largest message a client may send; boards are only a few KB. */
+const MAX_PAYLOAD = 1 << 20;
+
+const portIndex = process.argv.indexOf("--port");
+const port = Number(portIndex === -1 ? process.env.PORT : process.argv[portIndex + 1]) || 8787;
+
+/**
+ * Writes a length as the 8 bytes a long frame's header holds it in.
+ */
+const bigEndian64 = (n: number): Buffer => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(n));
+  return buffer;
+};
+
+/**
+ * Builds an unmasked frame, as servers send them.
+ *
+ * @param opcode The frame's opcode
+ * @param payload The frame's data
+ * @returns The frame
+ */
+const encodeFrame = (opcode: number, payload: Buffer): Buffer => {
+  const length = payload.length;
+  const header =
+    length < 126
+      ? Buffer.from([0x80 | opcode, length])
+      : length < 0x10000
+      ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x80 | opcode, 127]), bigEndian64(length)]);
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * A frame read from a client.
+ */
+type Frame = Readonly<{
+  fin: boolean; // false if more fragments of the message follow
+  opcode: number;
+  payload: Buffer;
+  size: number; // bytes of the buffer the frame took up
+}>;
+
+/**
+ * Reads the first frame from the data received so far.
+ *
+ * @param data The unread data
+ * @returns The frame, or null if it hasn't all arrived yet
+ * @throws Error if the frame is too large
+ */
+const decodeFrame = (data: Buffer): Frame | null => {
+  if (data.length < 2) {
+    return null;
+  }
+
+  const fin = (data[0] & 0x80) !== 0;
+  const opcode = data[0] & 0x0f;
+  const masked = (data[1] & 0x80) !== 0;
+  const shortLength = data[1] & 0x7f;
+  const lengthBytes = shortLength === 126 ? 2 : shortLength === 127 ? 8 : 0;
+  const maskOffset = 2 + lengthBytes;
+  if (data.length < maskOffset) {
+    return null;
+  }
+
+  const length =
+    shortLength === 126 ? data.readUInt16BE(2) : shortLength === 127 ? Number(data.readBigUInt64BE(2)) : shortLength;
+  if (length > MAX_PAYLOAD) {
+    throw new Error("Frame too large");
+  }
+
+  const payloadOffset = maskOffset + (masked ? 4 : 0);
+  if (data.length < payloadOffset + length) {
+    return null;
+  }
+
+  const mask = data.subarray(maskOffset, payloadOffset);
+  const payload = Buffer.from(data.subarray(payloadOffset, payloadOffset + length));
+  if (masked) {
+    payload.forEach((byte, i) => (payload[i] = byte ^ mask[i % 4]));
+  }
+  return { fin, opcode, payload, size: payloadOffset + length };
+};
+
+let relay: Relay = createRelay();
+let nextId = 0;
+const sockets = new Map<number, Duplex>();
+
+/**
+ * Applies a relay update and sends the messages it makes.
+ */
+const dispatch = ([next, outgoing]: [Relay, Outgoing[]]) => {
+  relay = next;
+  outgoing.forEach(({ to, message }) => sockets.get(to)?.write(encodeFrame(TEXT, Buffer.from(serializeMessage(message)))));
+};
+
+/**
+ * Handles a message from a client. Anything that isn't a client protocol
+ * message is ignored.
+ */
+const receive = (id: number, text: string) => {
+  let message: Message;
+  try {
+    message = parseMessage(text);
+  } catch {
+    return;
+  }
+  if (!["join", "ready", "state", "garbage", "gameOver"].includes(message.type)) {
+    return;
+  }
+  dispatch(relayMessage(relay, id, message as ClientMessage));
+};
+
+/**
+ * Completes a client's WebSocket handshake and serves its connection.
+ *
+ * @param request The client's upgrade request
+ * @param socket The client's connection
+ * @param head Any frames that arrived along with the request
+ */
+const accept = (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+  const key = request.headers["sec-websocket-key"];
+  if (request.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+
+  const accept = createHash("sha1").update(key + WEBSOCKET_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const id = nextId++;
+  sockets.set(id, socket);
+  let unread = Buffer.alloc(0);
+  // the fragments of a text message still coming in, null between messages
+  let fragments: Buffer[] | null = null;
+
+  const close = () => {
+    if (sockets.delete(id)) {
+      dispatch(relayDisconnect(relay, id));
+      socket.end();
+    }
+  };
+
+  /** Closes the connection with a status, as the protocol asks for a frame the server can't go on from. */
+  const fail = (status: number) => {
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(status);
+    socket.write(encodeFrame(CLOSE, payload));
+    close();
+  };
+
+  /**
+   * Takes a data frame, passing a message on once its last fragment is in.
+   *
+   * @returns False if the frame breaks the protocol and the connection was closed
+   */
+  const take = (frame: Frame): boolean => {
+    if (frame.opcode !== TEXT && frame.opcode !== CONTINUATION) {
+      fail(UNSUPPORTED_DATA);
+      return false;
+    }
+    // a continuation must follow the start of a message, and a new message the end of the last
+    if ((frame.opcode === CONTINUATION) !== (fragments !== null)) {
+      fail(PROTOCOL_ERROR);
+      return false;
+    }
+    const parts = [...(fragments ?? []), frame.payload];
+    if (parts.reduce((size, part) => size + part.length, 0) > MAX_PAYLOAD) {
+      throw new Error("Message too large");
+    }
+    fragments = frame.fin ? null : parts;
+    if (frame.fin) {
+      receive(id, Buffer.concat(parts).toString("utf8"));
+    }
+    return true;
+  };
+
+  const read = (chunk: Buffer) => {
+    unread = Buffer.concat([unread, chunk]);
+    try {
+      for (let frame = decodeFrame(unread); frame !== null; frame = decodeFrame(unread)) {
+        unread = unread.subarray(frame.size);
+        if (frame.opcode === PING) {
+          socket.write(encodeFrame(PONG, frame.payload));
+        } else if (frame.opcode === CLOSE) {
+          socket.write(encodeFrame(CLOSE, frame.payload));
+          close();
+          return;
+        } else if (frame.opcode !== PONG && !take(frame)) {
+          return;
+        }
+      }
+    } catch {
+      close();
+    }
+  };
+
+  socket.on("data", read);
+  socket.on("end", close);
+  socket.on("close", close);
+  socket.on("error", close);
+  read(head);
+};
+
+const server = createServer((_, response) => {
+  response.writeHead(426, { "Content-Type": "text/plain" });
+  response.end("This is the Tetris relay server; connect to it over WebSocket.\n");
+});
+server.on("upgrade", accept);
+server.listen(port, "localhost", () => console.log(`Relay server listening on ws://localhost:${port}`));
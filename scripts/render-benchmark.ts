@@ -0,0 +1,34 @@
+/**
+ * Lets the bot play a game one display frame at a time and reports the DOM
+ * mutations drawing the board takes per frame, keeping an element per cell
+ * against recreating every rect. Run with
+ *
+ *   npm run bench:render -- --frames 1200 --width 10 --height 20 --seed 1
+ */
+
+import { benchmarkRendering } from "../src/engine";
+
+/**
+ * Reads a numeric command line option.
+ *
+ * @param name The option's name, without the leading dashes
+ * @param fallback The value to use when the option isn't given
+ * @returns The option's value
+ */
+const option = (name: string, fallback: number): number => {
+  const index = process.argv.indexOf(`--${name}`);
+  const value = index === -1 ? NaN : Number(process.argv[index + 1]);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const frames = option("frames", 1200);
+const seed = option("seed", 1);
+const config = { GRID_WIDTH: option("width", 10), GRID_HEIGHT: option("height", 20) };
+
+const started = performance.now();
+const result = benchmarkRendering({ seed, frames, config });
+
+console.log(`${result.frames} frames on a ${config.GRID_WIDTH}x${config.GRID_HEIGHT} board`);
+console.log(`retained:  ${result.retained.toFixed(1)} mutations per frame`);
+console.log(`recreated: ${result.recreated.toFixed(1)} mutations per frame`);
+console.log(`took ${((performance.now() - started) / 1000).toFixed(1)}s`);
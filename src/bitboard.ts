@@ -0,0 +1,323 @@
+/**
+ * A board kept as bits: one integer per row, with bit x set where column x is
+ * filled, and the colours in a separate layer that only the renderer and
+ * locking need. Collision, locking and finding and clearing full rows are a
+ * few bit operations per row of the piece, rather than a walk over its cells'
+ * coordinates, for bots, replay checks and simulations that need to try a
+ * great many placements. BitboardModel offers it through the same BoardModel
+ * operations as the engine's grid, so the two can be swapped and compared.
+ */
+
+import { Block, BoardModel, GameConfig, Grid, PieceDefinition, PieceSet, Shape } from "./types";
+import { Constants, GridModel } from "./state";
+import { shapeBounds } from "./pieces";
+import { RNG } from "./util";
+
+/** The widest board a row's bits can hold. */
+export const MAX_BITBOARD_WIDTH = 30;
+
+/**
+ * A board as bits, top row first.
+ */
+export type Bitboard = Readonly<{
+  width: number;
+  rows: ReadonlyArray<number>; // bit x of a row is set where column x is filled
+  colours: ReadonlyArray<ReadonlyArray<string | null>>; // the colour of each cell, as in the grid
+}>;
+
+/**
+ * A piece rotation's cells as bits, a row of bits per row of its shape.
+ */
+export type PieceMask = Readonly<{
+  rows: ReadonlyArray<number>; // bit x of a row is set where column x of the shape is filled
+  top: number; // the top row with a cell
+  left: number; // the leftmost column with a cell
+  right: number; // the rightmost column with a cell
+}>;
+
+/**
+ * Works out the mask of a piece rotation.
+ *
+ * @param shape The rotation's shape
+ * @returns Its mask
+ */
+export const pieceMask = (shape: Shape): PieceMask => {
+  const bounds = shapeBounds(shape);
+  return {
+    rows: shape.map(row => row.reduce((bits, value, x) => (value === 1 ? bits | (1 << x) : bits), 0)),
+    top: bounds.top,
+    left: bounds.left,
+    right: bounds.left + bounds.width - 1,
+  };
+};
+
+// masks are worked out once per shape. Pieces share their rotations' shapes
+// with the piece set, so a game looks up the same few again and again
+const masks = new WeakMap<Shape, PieceMask>();
+
+/**
+ * Looks up the mask of a piece rotation, working it out the first time.
+ *
+ * @param shape The rotation's shape
+ * @returns Its mask
+ */
+export const maskOf = (shape: Shape): PieceMask => {
+  const cached = masks.get(shape);
+  if (cached) {
+    return cached;
+  }
+  const mask = pieceMask(shape);
+  masks.set(shape, mask);
+  return mask;
+};
+
+/**
+ * Works out the masks of every rotation of every piece of a set up front.
+ *
+ * @param pieces The piece set
+ * @returns Each piece's masks, by rotation
+ */
+export const pieceMasks = (pieces: PieceSet): Readonly<Record<string, ReadonlyArray<PieceMask>>> =>
+  Object.fromEntries(
+    Object.entries(pieces).map(([name, piece]: [string, PieceDefinition]) => [name, piece.rotations.map(maskOf)])
+  );
+
+/** The bits of a full row. */
+const fullRow = (width: number): number => (1 << width) - 1;
+
+/** Moves bits to a column. Shifts only count the low five bits, so bits moved 32 or more columns are gone. */
+const shift = (bits: number, x: number): number => (x >= 32 || x <= -32 ? 0 : x >= 0 ? bits << x : bits >>> -x);
+
+/**
+ * Moves a mask row's bits to a column, which may be past either side.
+ *
+ * @returns The bits on the board, and whether any fell off a side
+ */
+const shiftRow = (bits: number, x: number, width: number): readonly [number, boolean] => {
+  const lowest = 31 - Math.clz32(bits & -bits);
+  const highest = 31 - Math.clz32(bits);
+  const lost = bits !== 0 && (x + lowest < 0 || x + highest >= width);
+  return [shift(bits, x) & fullRow(width), lost];
+};
+
+/**
+ * Reads a grid into a bitboard.
+ *
+ * @param grid The grid
+ * @returns The bitboard
+ * @throws Error if the grid is too wide for a row's bits
+ */
+export const toBitboard = (grid: Grid<string | null>): Bitboard => {
+  const width = grid[0]?.length ?? 0;
+  if (width > MAX_BITBOARD_WIDTH) {
+    throw new Error(`Boards wider than ${MAX_BITBOARD_WIDTH} can't be kept as bits`);
+  }
+  return {
+    width,
+    rows: grid.map(row => row.reduce((bits, cell, x) => (cell === null ? bits : bits | (1 << x)), 0)),
+    colours: grid,
+  };
+};
+
+/**
+ * Checks if a piece collides with a bitboard: a cell of it on the board that
+ * is filled, past a side or below the floor. Cells above the board are free,
+ * as they are on the grid.
+ *
+ * @param board The board
+ * @param piece The piece
+ * @returns True if the piece collides
+ */
+export const bitboardCollides = (board: Bitboard, piece: Block): boolean => {
+  const mask = maskOf(piece.shapesArray);
+  if (piece.y + mask.top >= 0) {
+    // all on the board, so its bounds can be checked against the sides at once
+    return (
+      piece.x + mask.left < 0 ||
+      piece.x + mask.right >= board.width ||
+      mask.rows.some((bits, row) => {
+        const y = piece.y + row;
+        return bits !== 0 && (y >= board.rows.length || (board.rows[y] & shift(bits, piece.x)) !== 0);
+      })
+    );
+  }
+  return mask.rows.some((bits, row) => {
+    const y = piece.y + row;
+    if (bits === 0 || y < 0) {
+      return false;
+    }
+    if (y >= board.rows.length) {
+      return true;
+    }
+    const [cells, lost] = shiftRow(bits, piece.x, board.width);
+    return lost || (board.rows[y] & cells) !== 0;
+  });
+};
+
+/**
+ * Locks a piece into a bitboard, in the piece's colour. Cells off the board
+ * are left out.
+ *
+ * @param board The board
+ * @param piece The piece
+ * @returns The board with the piece's cells filled
+ */
+export const lockBitboard = (board: Bitboard, piece: Block): Bitboard => {
+  const mask = maskOf(piece.shapesArray);
+  const cells = (y: number) => {
+    const row = y - piece.y;
+    return row >= 0 && row < mask.rows.length ? shiftRow(mask.rows[row], piece.x, board.width)[0] : 0;
+  };
+  return {
+    width: board.width,
+    rows: board.rows.map((bits, y) => bits | cells(y)),
+    colours: board.colours.map((row, y) => {
+      const filled = cells(y);
+      return filled === 0 ? row : row.map((cell, x) => ((filled >> x) & 1 ? piece.colour : cell));
+    }),
+  };
+};
+
+/**
+ * Finds the full rows of a bitboard.
+ *
+ * @param board The board
+ * @returns The indices of the full rows, top first
+ */
+export const bitboardFullRows = (board: Bitboard): number[] =>
+  board.rows.flatMap((bits, y) => (bits === fullRow(board.width) ? [y] : []));
+
+/**
+ * Clears the full rows of a bitboard, dropping the rows above them.
+ *
+ * @param board The board
+ * @returns The board after clearing
+ */
+export const clearBitboard = (board: Bitboard): Bitboard => {
+  const full = fullRow(board.width);
+  const kept = board.rows.flatMap((bits, y) => (bits === full ? [] : [y]));
+  const cleared = board.rows.length - kept.length;
+  if (cleared === 0) {
+    return board;
+  }
+  const empty = Array<string | null>(board.width).fill(null);
+  return {
+    width: board.width,
+    rows: [...Array<number>(cleared).fill(0), ...kept.map(y => board.rows[y])],
+    colours: [...Array.from({ length: cleared }, () => empty), ...kept.map(y => board.colours[y])],
+  };
+};
+
+/**
+ * Bitboards as a BoardModel.
+ */
+export const BitboardModel: BoardModel<Bitboard> = {
+  fromGrid: toBitboard,
+  toGrid: board => board.colours.map(row => [...row]),
+  collides: bitboardCollides,
+  lock: lockBitboard,
+  fullRows: bitboardFullRows,
+  clearRows: clearBitboard,
+};
+
+/**
+ * The settings of a board benchmark.
+ */
+export type BoardBenchmarkOptions = Readonly<{
+  seed: number;
+  pieces: number; // pieces to place
+  config: Partial<GameConfig>;
+}>;
+
+/**
+ * How long each board took over the same placements.
+ */
+export type BoardBenchmarkResult = Readonly<{
+  pieces: number;
+  checks: number; // collision checks made, the same for both
+  grid: number; // ms taken on the grid
+  bitboard: number; // ms taken on the bitboard
+  same: boolean; // true if both ended up with the same board
+}>;
+
+const DEFAULT_BOARD_BENCHMARK: BoardBenchmarkOptions = {
+  seed: 1,
+  pieces: 500,
+  config: {},
+};
+
+/**
+ * Drops a piece as far as it goes.
+ *
+ * @returns The piece where it lands, and the collision checks that took
+ */
+const landing = <B>(model: BoardModel<B>, board: B, piece: Block, checks = 1): readonly [Block, number] => {
+  const below = { ...piece, y: piece.y + 1 };
+  return model.collides(board, below) ? [piece, checks] : landing(model, board, below, checks + 1);
+};
+
+/**
+ * Plays seeded pieces onto a board the way a bot searches: each piece is
+ * dropped in every rotation at every column, then locked where it lands
+ * lowest and the full rows cleared. A board that tops out starts again empty.
+ *
+ * @returns The final board as a grid, and the collision checks made
+ */
+const placeAll = <B>(model: BoardModel<B>, options: BoardBenchmarkOptions): readonly [Grid<string | null>, number] => {
+  const config = { ...Constants, ...options.config };
+  const names = Object.keys(config.PIECES);
+  const empty = model.fromGrid(Array.from({ length: config.GRID_HEIGHT }, () => Array(config.GRID_WIDTH).fill(null)));
+  const [board, checks] = Array.from({ length: options.pieces }).reduce<readonly [B, number, number]>(
+    ([board, checks, seed]) => {
+      const name = names[RNG.generateRandomValue(seed, names.length)];
+      const placements = config.PIECES[name].rotations.flatMap((shape, rotation) =>
+        Array.from({ length: config.GRID_WIDTH + 4 }, (_, column): Block => ({
+          name,
+          colour: name,
+          x: column - 2,
+          y: -2,
+          rotation,
+          shapesArray: shape,
+        }))
+      );
+      const [best, searched] = placements.reduce<readonly [Block | null, number]>(
+        ([best, searched], piece) => {
+          if (model.collides(board, piece)) {
+            return [best, searched + 1];
+          }
+          const [landed, drops] = landing(model, board, piece);
+          return [best === null || landed.y > best.y ? landed : best, searched + 1 + drops];
+        },
+        [null, 0]
+      );
+      const topped = best === null || best.y + shapeBounds(best.shapesArray).top < 0;
+      return [topped ? empty : model.clearRows(model.lock(board, best)), checks + searched, RNG.hash(seed)];
+    },
+    [empty, 0, options.seed]
+  );
+  return [model.toGrid(board), checks];
+};
+
+/**
+ * Times the grid and the bitboard over the same seeded placements.
+ *
+ * @param options The benchmark's settings
+ * @returns How long each took, and whether they agreed
+ */
+export const benchmarkBoards = (options: Partial<BoardBenchmarkOptions> = {}): BoardBenchmarkResult => {
+  const settings = { ...DEFAULT_BOARD_BENCHMARK, ...options };
+  const timed = <B>(model: BoardModel<B>) => {
+    const started = performance.now();
+    const [board, checks] = placeAll(model, settings);
+    return [board, checks, performance.now() - started] as const;
+  };
+  const [gridBoard, checks, gridMs] = timed(GridModel);
+  const [bitBoard, , bitMs] = timed(BitboardModel);
+  return {
+    pieces: settings.pieces,
+    checks,
+    grid: gridMs,
+    bitboard: bitMs,
+    same: JSON.stringify(gridBoard) === JSON.stringify(bitBoard),
+  };
+};
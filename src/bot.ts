@@ -0,0 +1,411 @@
+/**
+ * A bot that plays through the same actions as a player. For each piece it
+ * searches every final placement it can reach with moves, rotations and
+ * gravity (for the current piece, and for the piece hold would bring in),
+ * scores the board each placement leaves with a weighted heuristic and plays
+ * the best one.
+ */
+
+import { Action, Block, GameConfig, Grid, State } from "./types";
+import {
+  Constants,
+  Hold,
+  Move,
+  Rotate,
+  Tick,
+  createInitialState,
+  isPlaying,
+  pieceCollides,
+  pieceFits,
+  reduceState,
+  rotatePiece,
+} from "./state";
+import { RNG, getCoordinates } from "./util";
+
+/**
+ * How much each feature of a board counts towards its score. Features that
+ * make a board worse get negative weights.
+ */
+export type Weights = Readonly<{
+  height: number; // aggregate height: the sum of the column heights
+  holes: number; // empty cells with a filled cell somewhere above them
+  bumpiness: number; // the sum of height differences between neighbouring columns
+  wells: number; // the sum of the depths of columns lower than both their neighbours
+  lines: number; // lines cleared by the placement
+}>;
+
+/**
+ * The features of a board the heuristic weighs, measured as in Weights.
+ */
+export type Features = Weights;
+
+/**
+ * Weights that play well with the standard pieces, after Yiyuan Lee's
+ * genetically tuned bot, plus a light penalty for wells.
+ */
+export const DEFAULT_WEIGHTS: Weights = {
+  height: -0.510066,
+  holes: -0.35663,
+  bumpiness: -0.184483,
+  wells: -0.1,
+  lines: 0.760666,
+};
+
+/**
+ * A final placement of a piece, and the actions that play it.
+ */
+export type Placement = Readonly<{
+  actions: ReadonlyArray<Action>; // from the current state up to and including the lock
+  piece: Block; // the piece in its final position, before it locks
+  state: State; // the game once the piece has locked
+  score: number;
+}>;
+
+/** Board features */
+
+/**
+ * Measures the height of each column of a board.
+ *
+ * @param board The game board
+ * @returns The height of the highest filled cell in each column, 0 if empty
+ */
+export const columnHeights = (board: Grid<string | null>): number[] =>
+  board[0].map((_, x) => {
+    const top = board.findIndex(row => row[x] !== null);
+    return top === -1 ? 0 : board.length - top;
+  });
+
+/**
+ * Measures the features of a board the heuristic weighs.
+ *
+ * @param board The game board
+ * @param lines Lines cleared to reach the board
+ * @returns The board's features
+ */
+export const boardFeatures = (board: Grid<string | null>, lines: number): Features => {
+  const heights = columnHeights(board);
+  const filled = board.flat().filter(cell => cell !== null).length;
+
+  // the walls count as infinitely high neighbours
+  const neighbour = (x: number) => (x < 0 || x >= heights.length ? Infinity : heights[x]);
+  const wellDepth = (h: number, x: number) => {
+    const depth = Math.min(neighbour(x - 1), neighbour(x + 1)) - h;
+    return depth > 0 && depth !== Infinity ? depth : 0;
+  };
+
+  return {
+    height: heights.reduce((sum, h) => sum + h, 0),
+    // every cell below a column's top is either filled or a hole
+    holes: heights.reduce((sum, h) => sum + h, 0) - filled,
+    bumpiness: heights.slice(1).reduce((sum, h, x) => sum + Math.abs(h - heights[x]), 0),
+    wells: heights.reduce((sum, h, x) => sum + wellDepth(h, x), 0),
+    lines,
+  };
+};
+
+/**
+ * Scores a board's features.
+ *
+ * @param features The features of the board
+ * @param weights The heuristic's weights
+ * @returns The weighted sum of the features, higher is better
+ */
+export const evaluate = (features: Features, weights: Weights): number =>
+  (Object.keys(weights) as Array<keyof Weights>).reduce((sum, k) => sum + features[k] * weights[k], 0);
+
+/** Placement search */
+
+/**
+ * A partly explored route for the current piece. The search moves the piece
+ * alone, through the same rules the actions follow, rather than the whole
+ * game, which is only played through for the placements it finds.
+ */
+type Path = Readonly<{ piece: Block; actions: ReadonlyArray<Action> }>;
+
+/**
+ * An action the search can take, and where it takes the piece: null if it
+ * can't move there.
+ */
+type Step = readonly [Action, (s: State, piece: Block) => Block | null];
+
+const shifted = (x: number) => (s: State, piece: Block) => {
+  const moved = { ...piece, x: piece.x + x };
+  return pieceFits(s.gameBoard, moved) ? moved : null;
+};
+
+const turned = (turns: 1 | -1 | 2) => (s: State, piece: Block) =>
+  rotatePiece(s.config.PIECES, s.gameBoard, piece, turns)?.[0] ?? null;
+
+// a Tick is only taken while the piece can still fall, so nothing locks during the search
+const fallen = (s: State, piece: Block) => {
+  const below = { ...piece, y: piece.y + 1 };
+  return pieceCollides(s.gameBoard, below) ? null : below;
+};
+
+const STEPS: ReadonlyArray<Step> = [
+  [new Move({ x: -1, y: 0 }), shifted(-1)],
+  [new Move({ x: 1, y: 0 }), shifted(1)],
+  [new Rotate(1), turned(1)],
+  [new Rotate(-1), turned(-1)],
+  [new Rotate(2), turned(2)],
+  [new Tick(), fallen],
+];
+
+/** Takes a step of a route, as the search does: without the mode's rules, as nothing locks. */
+const applyStep = (s: State, action: Action): State => action.apply(s);
+
+const positionKey = (piece: Block) => `${piece.x},${piece.y},${piece.rotation}`;
+
+const cellsKey = (piece: Block) =>
+  getCoordinates([piece.x, piece.y], piece.shapesArray)
+    .map(([x, y]) => `${x},${y}`)
+    .sort()
+    .join(" ");
+
+/**
+ * Keeps the first path to each key. Later entries of a Map overwrite earlier
+ * ones, so the paths go in backwards.
+ */
+const uniqueBy = (paths: ReadonlyArray<Path>, key: (piece: Block) => string): ReadonlyArray<Path> =>
+  Array.from(new Map([...paths].reverse().map(path => [key(path.piece), path] as const)).values()).reverse();
+
+/**
+ * Explores the positions the current piece can reach, breadth first, so each
+ * one is reached by its shortest route.
+ *
+ * @param s The game state the piece is in
+ * @param frontier The paths found in the last round
+ * @param seen The positions reached so far
+ * @returns Every path from the frontier on
+ */
+const explore = (s: State, frontier: ReadonlyArray<Path>, seen: ReadonlySet<string>): ReadonlyArray<Path> => {
+  if (frontier.length === 0) {
+    return [];
+  }
+
+  const next = frontier.flatMap(path =>
+    STEPS.flatMap(([action, step]) => {
+      const piece = step(s, path.piece);
+      return piece === null ? [] : [{ piece, actions: [...path.actions, action] }];
+    })
+  );
+  const fresh = uniqueBy(
+    next.filter(path => !seen.has(positionKey(path.piece))),
+    positionKey
+  );
+  return [...frontier, ...explore(s, fresh, new Set([...seen, ...fresh.map(path => positionKey(path.piece))]))];
+};
+
+/**
+ * Lists every final placement the current piece can reach, each with the
+ * shortest route there. Placements that leave the same cells filled, such as
+ * the O piece in different rotation states, are only listed once.
+ *
+ * @param s The game state
+ * @param weights The heuristic's weights
+ * @param prefix Actions already taken to reach the state, such as a hold
+ * @returns The placements, unordered
+ */
+const piecePlacements = (s: State, weights: Weights, prefix: ReadonlyArray<Action>): ReadonlyArray<Placement> =>
+  uniqueBy(
+    explore(s, [{ piece: s.currentTetromino, actions: prefix }], new Set([positionKey(s.currentTetromino)])).filter(
+      path => fallen(s, path.piece) === null
+    ),
+    cellsKey
+  ).map(path => {
+    const placed = path.actions.slice(prefix.length).reduce(applyStep, s);
+    const locked = reduceState(placed, new Tick());
+    return {
+      actions: [...path.actions, new Tick()],
+      piece: placed.currentTetromino,
+      state: locked,
+      score: locked.gameEnd && !locked.goalReached
+        ? -Infinity
+        : evaluate(boardFeatures(locked.gameBoard, locked.lines - s.lines), weights),
+    };
+  });
+
+/**
+ * Lists every final placement of the current piece and, if hold is allowed,
+ * of the piece hold would bring in: the held piece, or the next one when
+ * nothing is held yet.
+ *
+ * @param s The game state
+ * @param weights The heuristic's weights
+ * @returns The placements, unordered; none once the game isn't in play
+ */
+export const placements = (s: State, weights: Weights = DEFAULT_WEIGHTS): ReadonlyArray<Placement> => {
+  if (!isPlaying(s)) {
+    return [];
+  }
+
+  const hold = new Hold();
+  return [
+    ...piecePlacements(s, weights, []),
+    ...(s.canHold ? piecePlacements(hold.apply(s), weights, [hold]) : []),
+  ];
+};
+
+/**
+ * A finished search, and everything about the game it depends on.
+ */
+type Search = Readonly<{
+  board: State["gameBoard"];
+  hold: State["holdTetromino"];
+  queue: State["queue"];
+  canHold: boolean;
+  lines: number;
+  config: GameConfig;
+  weights: Weights;
+  best: Placement | null;
+}>;
+
+// the last search for each piece, by the piece's position object. The hint and
+// autoplay ask about the same piece, and until gravity moves it on, the
+// answer is the same
+const searches = new WeakMap<Block, Search>();
+
+/**
+ * Finds the bot's preferred placement. Ties go to the placement found first,
+ * which keeps the current piece over the held one. A piece already searched
+ * from the same spot on the same board isn't searched again; only the game
+ * after its lock is played through.
+ *
+ * @param s The game state
+ * @param weights The heuristic's weights
+ * @returns The best placement, or null if there is none
+ */
+export const bestPlacement = (s: State, weights: Weights = DEFAULT_WEIGHTS): Placement | null => {
+  if (!isPlaying(s)) {
+    return null;
+  }
+
+  const last = searches.get(s.currentTetromino);
+  if (
+    last !== undefined &&
+    last.board === s.gameBoard &&
+    last.hold === s.holdTetromino &&
+    last.queue === s.queue &&
+    last.canHold === s.canHold &&
+    last.lines === s.lines &&
+    last.config === s.config &&
+    last.weights === weights
+  ) {
+    const placed = last.best?.actions.slice(0, -1).reduce(applyStep, s);
+    return last.best && placed ? { ...last.best, state: reduceState(placed, new Tick()) } : null;
+  }
+
+  const best = placements(s, weights).reduce<Placement | null>(
+    (best, p) => (best === null || p.score > best.score ? p : best),
+    null
+  );
+  searches.set(s.currentTetromino, {
+    board: s.gameBoard,
+    hold: s.holdTetromino,
+    queue: s.queue,
+    canHold: s.canHold,
+    lines: s.lines,
+    config: s.config,
+    weights,
+    best,
+  });
+  return best;
+};
+
+/**
+ * An action class for letting the bot place the current piece. It plays the
+ * best placement's moves, rotations and ticks one after another, just as a
+ * player would.
+ */
+export class BotMove implements Action {
+  /**
+   * @param weights The heuristic's weights
+   */
+  constructor(public readonly weights: Weights = DEFAULT_WEIGHTS) {}
+
+  apply = (s: State): State => {
+    const best = bestPlacement(s, this.weights);
+    return best ? best.actions.reduce(reduceState, s) : s;
+  };
+}
+
+/** Benchmark */
+
+/**
+ * The outcome of one benchmark game.
+ */
+export type BenchmarkGame = Readonly<{
+  seed: number;
+  lines: number;
+  score: number;
+  pieces: number; // pieces the bot placed
+  toppedOut: boolean;
+}>;
+
+/**
+ * The outcome of a benchmark.
+ */
+export type BenchmarkResult = Readonly<{
+  games: ReadonlyArray<BenchmarkGame>;
+  averageLines: number;
+  averageScore: number;
+}>;
+
+/**
+ * Settings for a benchmark.
+ */
+export type BenchmarkOptions = Readonly<{
+  seed: number; // the first game's seed; each later seed is hashed from the one before
+  maxPieces: number; // games still going after this many pieces are cut short
+  weights: Weights;
+  config: Partial<GameConfig>;
+}>;
+
+const DEFAULT_BENCHMARK: BenchmarkOptions = {
+  seed: 1,
+  maxPieces: 500,
+  weights: DEFAULT_WEIGHTS,
+  config: {},
+};
+
+/**
+ * Lets the bot play one game on its own.
+ *
+ * @param seed The game's seed
+ * @param options The benchmark's settings
+ * @returns How the game went
+ */
+export const playBotGame = (seed: number, options: Partial<BenchmarkOptions> = {}): BenchmarkGame => {
+  const { maxPieces, weights, config } = { ...DEFAULT_BENCHMARK, ...options };
+  const bot = new BotMove(weights);
+  // the bot has no clock to wait out the ruleset's delays by, so a Tick ends them
+  const place = (s: State) => {
+    const placed = reduceState(s, bot);
+    return placed.delay > 0 ? reduceState(placed, new Tick()) : placed;
+  };
+  const [s, pieces] = Array.from({ length: maxPieces }).reduce<readonly [State, number]>(
+    ([s, pieces]) => (isPlaying(s) ? [place(s), pieces + 1] : [s, pieces]),
+    [createInitialState(seed, { ...Constants, ...config }), 0]
+  );
+  return { seed, lines: s.lines, score: s.score, pieces, toppedOut: s.gameEnd && !s.goalReached };
+};
+
+/**
+ * Lets the bot play a number of seeded games and averages the results.
+ *
+ * @param games How many games to play
+ * @param options The benchmark's settings
+ * @returns Each game's outcome and the averages
+ */
+export const runBenchmark = (games: number, options: Partial<BenchmarkOptions> = {}): BenchmarkResult => {
+  const { seed } = { ...DEFAULT_BENCHMARK, ...options };
+  const seeds = Array.from({ length: games }).reduce<number[]>(
+    seeds => [...seeds, seeds.length === 0 ? seed : RNG.hash(seeds[seeds.length - 1])],
+    []
+  );
+  const results = seeds.map(s => playBotGame(s, options));
+  const average = (f: (g: BenchmarkGame) => number) =>
+    results.length === 0 ? 0 : results.reduce((sum, g) => sum + f(g), 0) / results.length;
+
+  return { games: results, averageLines: average(g => g.lines), averageScore: average(g => g.score) };
+};
@@ -0,0 +1,138 @@
+/**
+ * Visual effects: a flash where a piece locks, a trail behind a hard drop and
+ * the flashing and dissolving of rows during the line clear delay. Lock
+ * flashes and trails outlive the action that set them off, so they're made
+ * from game events (see events.ts) and aged by the frame clock; a line clear
+ * is drawn straight from the game state. The renderer draws whatever this
+ * module says is showing.
+ */
+
+import { Block, GameEvent, State } from "./types";
+import { FRAME_MS } from "./state";
+import { getCoordinates } from "./util";
+
+/** How long a lock flash lasts, in ms. */
+export const LOCK_FLASH_MS = 150;
+
+/** How long a hard drop's trail lasts, in ms. */
+export const TRAIL_MS = 200;
+
+/** Frames between a clearing row's flashes. */
+const FLASH_FRAMES = 4;
+
+/**
+ * An effect being shown on the board.
+ */
+export type Effect = Readonly<{
+  kind: "lockFlash" | "trail";
+  cells: ReadonlyArray<readonly [number, number]>; // the board cells it covers
+  colour: string; // the colour of the piece that set it off
+  age: number; // ms since it started
+  duration: number; // ms it lasts
+}>;
+
+const blockCells = (piece: Block): ReadonlyArray<readonly [number, number]> =>
+  getCoordinates([piece.x, piece.y], piece.shapesArray).map(([x, y]) => [x, y] as const);
+
+/**
+ * The cells a hard dropped piece passed through: the column above each of its
+ * cells, as far up as it fell from.
+ */
+const trailCells = (piece: Block, rows: number): ReadonlyArray<readonly [number, number]> => {
+  const cells = blockCells(piece);
+  const covered = new Set(cells.map(([x, y]) => `${x},${y}`));
+  return cells
+    .flatMap(([x, y]) => Array.from({ length: rows }, (_, k) => [x, y - k - 1] as const))
+    .filter(([x, y]) => y >= 0 && !covered.has(`${x},${y}`));
+};
+
+/**
+ * The effects an event sets off.
+ *
+ * @param event The event
+ * @returns The new effects, none for most events
+ */
+export const eventEffects = (event: GameEvent): ReadonlyArray<Effect> => {
+  switch (event.type) {
+    case "lock":
+      return [
+        {
+          kind: "lockFlash",
+          cells: blockCells(event.piece),
+          colour: event.piece.colour,
+          age: 0,
+          duration: LOCK_FLASH_MS,
+        },
+      ];
+    case "hardDrop":
+      return event.rows > 0
+        ? [
+            {
+              kind: "trail",
+              cells: trailCells(event.piece, event.rows),
+              colour: event.piece.colour,
+              age: 0,
+              duration: TRAIL_MS,
+            },
+          ]
+        : [];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Ages effects by the time that has passed, dropping those that are over.
+ *
+ * @param effects The effects showing
+ * @param ms The time that has passed
+ * @returns The effects still showing
+ */
+export const ageEffects = (effects: ReadonlyArray<Effect>, ms: number): ReadonlyArray<Effect> =>
+  effects.map(effect => ({ ...effect, age: effect.age + ms })).filter(effect => effect.age < effect.duration);
+
+/**
+ * How strongly an effect shows, fading out over its life. A trail starts
+ * fainter than a flash.
+ *
+ * @param effect The effect
+ * @returns Its opacity, from 0 to 1
+ */
+export const effectOpacity = (effect: Effect): number =>
+  (effect.kind === "trail" ? 0.4 : 0.8) * Math.max(0, 1 - effect.age / effect.duration);
+
+/**
+ * How far through the line clear delay a game is.
+ *
+ * @param s The game state
+ * @returns From 0 as the rows fill to 1 as they go, or null if no rows are being cleared
+ */
+export const clearProgress = (s: State): number | null => {
+  const clearMs = s.config.LINE_CLEAR_FRAMES * FRAME_MS;
+  const areMs = Math.max(0, s.config.ARE_FRAMES) * FRAME_MS;
+  return s.lineClear && !s.gameEnd && clearMs > 0
+    ? Math.min(1, Math.max(0, 1 - (s.delay - areMs) / clearMs))
+    : null;
+};
+
+/**
+ * How a cell of a clearing row is drawn: it flashes through the first half of
+ * the line clear delay, and dissolves from the middle of the row outwards
+ * throughout.
+ *
+ * @param s The game state
+ * @param x The cell's column
+ * @returns Whether the cell is lit up this frame, and its opacity; null if no rows are being cleared
+ */
+export const clearingCell = (s: State, x: number): Readonly<{ flash: boolean; opacity: number }> | null => {
+  const progress = clearProgress(s);
+  if (progress === null) {
+    return null;
+  }
+  const frame = Math.floor(progress * s.config.LINE_CLEAR_FRAMES);
+  const fromMiddle = Math.abs(x + 0.5 - s.config.GRID_WIDTH / 2) / (s.config.GRID_WIDTH / 2);
+  return {
+    flash: progress < 0.5 && Math.floor(frame / FLASH_FRAMES) % 2 === 0,
+    opacity: Math.min(1, Math.max(0, fromMiddle + 1 - 2 * progress)),
+  };
+};
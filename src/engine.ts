@@ -0,0 +1,364 @@
+/**
+ * Public API of the headless game engine. Front-ends (the SVG view in
+ * main.ts, bots, simulations, tests) create a game, feed it actions and query
+ * the resulting state through the functions in this file.
+ */
+
+import { Action, Block, GameConfig, Grid, State } from "./types";
+import { gravityInterval } from "./scoring";
+import { Constants, createInitialState, dropPiece, pieceCoordinates, reduceState } from "./state";
+
+export type {
+  Action,
+  Block,
+  BoardModel,
+  ClearType,
+  Control,
+  GameConfig,
+  GameEvent,
+  GarbageBatch,
+  GeneratorName,
+  GeneratorState,
+  Grid,
+  InputState,
+  Key,
+  KickTable,
+  LineClear,
+  ModeName,
+  Objective,
+  PieceDefinition,
+  PieceSet,
+  Puzzle,
+  RulesetName,
+  Shape,
+  State,
+  TSpin,
+} from "./types";
+export type { GameMode, ModeResult } from "./modes";
+export {
+  MARATHON_LINES,
+  Modes,
+  SPRINT_LINES,
+  ULTRA_TIME_MS,
+  formatTime,
+  modeClock,
+  modeOf,
+} from "./modes";
+export {
+  PIECE_LETTERS,
+  PUZZLES,
+  PUZZLE_HEIGHT,
+  objectiveMet,
+  objectiveText,
+  parseObjective,
+  parsePuzzle,
+  puzzleConfig,
+  readPuzzle,
+  solutionActions,
+} from "./puzzle";
+export type { FumenPage, Position } from "./fumen";
+export {
+  FUMEN_HEIGHT,
+  FUMEN_WIDTH,
+  decodeFumen,
+  decodePosition,
+  encodeFumen,
+  encodePosition,
+  pagePosition,
+  positionGame,
+  positionOf,
+  positionPage,
+} from "./fumen";
+export { gameEvents, ofType } from "./events";
+export type { Tone } from "./sound";
+export { eventTones, playTones } from "./sound";
+export type { Effect } from "./effects";
+export {
+  LOCK_FLASH_MS,
+  TRAIL_MS,
+  ageEffects,
+  clearProgress,
+  clearingCell,
+  effectOpacity,
+  eventEffects,
+} from "./effects";
+export type { Scene, Sprite } from "./scene";
+export { boardScene, interpolatePiece, miniBoardScene } from "./scene";
+export type { Renderer, RenderBenchmarkOptions, RenderBenchmarkResult, SceneChange } from "./renderer";
+export {
+  benchmarkRendering,
+  createCanvasRenderer,
+  createSvgRenderer,
+  mutationCount,
+  sceneChanges,
+} from "./renderer";
+export type { Clock, Frame } from "./loop";
+export { MAX_STEPS, advanceClock, createClock, fixedSteps } from "./loop";
+export type { Stats } from "./stats";
+export { clearName, createStats, finesseInputs, recordStats, statsResults, statsSummary } from "./stats";
+export { LINES_PER_LEVEL, clearPoints, detectTSpin, gravityInterval } from "./scoring";
+export type { PieceGenerator } from "./generators";
+export { Generators } from "./generators";
+export type { Handling } from "./handling";
+export { Advance, Press, Release, SetHandling } from "./handling";
+export type { Binding, Bindings, GamepadBindings, KeyBindings } from "./input";
+export {
+  BINDINGS,
+  GAMEPAD_BUTTONS,
+  PLAYER_ONE_KEYS,
+  PLAYER_TWO_KEYS,
+  bindingsOf,
+  buttonName,
+  exclusiveBindings,
+  keyName,
+  mapBindings,
+  pressAction,
+  rebind,
+  releaseAction,
+} from "./input";
+export type { GamepadButtons } from "./gamepad";
+export { gamepadActions, pressedButtons, readGamepad, releasedButtons } from "./gamepad";
+export type { Gesture, Touch, TouchPoint, TouchThresholds } from "./touch";
+export { DEFAULT_TOUCH, touchGesture } from "./touch";
+export type { Settings } from "./settings";
+export {
+  DEFAULT_SETTINGS,
+  HANDLING_LIMITS,
+  SETTINGS_KEY,
+  TOUCH_LIMITS,
+  clampHandling,
+  clampTouch,
+  loadSettings,
+  rebindButton,
+  rebindKey,
+  saveSettings,
+} from "./settings";
+export type { KeyValueStore } from "./storage";
+export { createMemoryStore } from "./storage";
+export type { Snapshot } from "./snapshot";
+export { SAVE_KEY, SNAPSHOT_VERSION, deserializeState, loadGame, saveGame, serializeState } from "./snapshot";
+export type { EntryOrder, Leaderboard, LeaderboardEntry } from "./leaderboard";
+export {
+  LEADERBOARD_SIZE,
+  addEntry,
+  byScore,
+  byTime,
+  entryFromState,
+  loadLeaderboard,
+  qualifies,
+  saveLeaderboard,
+  topEntries,
+} from "./leaderboard";
+export type { ActionRecord, Playback, Replay, ReplayEntry } from "./replay";
+export {
+  REPLAY_VERSION,
+  advancePlayback,
+  createPlayback,
+  createReplay,
+  decodeAction,
+  encodeAction,
+  exportReplay,
+  importReplay,
+  isFinished,
+  recordAction,
+  runReplay,
+  seekPlayback,
+  setPaused,
+  setSpeed,
+  stepPlayback,
+} from "./replay";
+export {
+  Constants,
+  DropScore,
+  FRAME_MS,
+  GridModel,
+  HardDrop,
+  Hold,
+  Move,
+  Pause,
+  Restart,
+  Rotate,
+  Rulesets,
+  SoftDrop,
+  Tick,
+  clearFullRows,
+  pieceCollides,
+  placePiece,
+  reduceState,
+} from "./state";
+export type { Bitboard, BoardBenchmarkOptions, BoardBenchmarkResult, PieceMask } from "./bitboard";
+export {
+  BitboardModel,
+  MAX_BITBOARD_WIDTH,
+  benchmarkBoards,
+  bitboardCollides,
+  bitboardFullRows,
+  clearBitboard,
+  lockBitboard,
+  maskOf,
+  pieceMask,
+  pieceMasks,
+  toBitboard,
+} from "./bitboard";
+export type { Bounds, PieceSetName } from "./pieces";
+export {
+  COLOUR,
+  PieceSets,
+  Tetromino,
+  colourOf,
+  parsePieceSet,
+  parseShape,
+  pieceFromShape,
+  rotateShape,
+  shapeBounds,
+} from "./pieces";
+export type { BenchmarkGame, BenchmarkOptions, BenchmarkResult, Features, Placement, Weights } from "./bot";
+export {
+  BotMove,
+  DEFAULT_WEIGHTS,
+  bestPlacement,
+  boardFeatures,
+  columnHeights,
+  evaluate,
+  placements,
+  playBotGame,
+  runBenchmark,
+} from "./bot";
+export { GARBAGE, ReceiveGarbage, attackLines, createGarbage, pendingLines } from "./garbage";
+export type { Player, Versus, VersusAction } from "./versus";
+export { EndMatch, createVersus, isVersusOver, opponent, reduceVersus } from "./versus";
+export type { BoardSnapshot, ClientMessage, Message, ServerMessage } from "./protocol";
+export { PROTOCOL_VERSION, parseMessage, sameSnapshot, serializeMessage, snapshotOf } from "./protocol";
+export type { Outgoing, Relay, Seat } from "./relay";
+export { createRelay, relayDisconnect, relayMessage } from "./relay";
+export type { MemoryRelay, Transport } from "./transport";
+export { createMemoryRelay, createMemoryTransports, createWebSocketTransport } from "./transport";
+export type { NetMatch, NetPhase, ReadyOffer } from "./netplay";
+export {
+  createNetMatch,
+  messageAction,
+  opponentState,
+  readyUp,
+  receiveMessage,
+} from "./netplay";
+export { RNG } from "./util";
+
+/**
+ * Creates a new game.
+ *
+ * @param seed The seed driving the game's randomness
+ * @param config Overrides for any of the default Constants
+ * @returns The initial state of the game
+ */
+export const createGame = (seed: number, config: Partial<GameConfig> = {}): State =>
+  createInitialState(seed, { ...Constants, ...config });
+
+/**
+ * Applies a single action to a game.
+ *
+ * @param s The current game state
+ * @param action The action to apply
+ * @returns The updated game state
+ */
+export const applyAction = (s: State, action: Action): State => reduceState(s, action);
+
+/**
+ * Applies a sequence of actions to a game, in order.
+ *
+ * @param s The current game state
+ * @param actions The actions to apply
+ * @returns The game state after every action has been applied
+ */
+export const applyActions = (s: State, actions: ReadonlyArray<Action>): State =>
+  actions.reduce(reduceState, s);
+
+/**
+ * @param s The game state
+ * @returns The board of locked cubes, each cell holding a tetromino name or null
+ */
+export const getBoard = (s: State): Grid<string | null> => s.gameBoard;
+
+/**
+ * @param s The game state
+ * @returns The falling tetromino
+ */
+export const getPiece = (s: State): Block => s.currentTetromino;
+
+/**
+ * @param s The game state
+ * @returns The board coordinates ([x, y] pairs) covered by the falling tetromino
+ */
+export const getPieceCells = (s: State): number[][] => pieceCoordinates(s);
+
+/**
+ * @param s The game state
+ * @returns The falling tetromino moved down to where it would land, for
+ * drawing the ghost piece
+ */
+export const getGhostPiece = (s: State): Block => dropPiece(s).currentTetromino;
+
+/**
+ * @param s The game state
+ * @returns The tetromino that will spawn after the current one locks
+ */
+export const getNextPiece = (s: State): Block => s.queue[0];
+
+/**
+ * @param s The game state
+ * @returns The upcoming pieces the player can see, next first
+ */
+export const getQueue = (s: State): ReadonlyArray<Block> => s.queue.slice(0, s.config.NEXT_PIECES);
+
+/**
+ * @param s The game state
+ * @returns The held tetromino, or null if nothing has been held yet
+ */
+export const getHeldPiece = (s: State): Block | null => s.holdTetromino;
+
+/**
+ * @param s The game state
+ * @returns True if the current tetromino may be held
+ */
+export const canHold = (s: State): boolean => s.canHold;
+
+/**
+ * @param s The game state
+ * @returns The current score
+ */
+export const getScore = (s: State): number => s.score;
+
+/**
+ * @param s The game state
+ * @returns The current level
+ */
+export const getLevel = (s: State): number => s.level;
+
+/**
+ * @param s The game state
+ * @returns The number of lines cleared so far
+ */
+export const getLines = (s: State): number => s.lines;
+
+/**
+ * @param s The game state
+ * @returns The time in milliseconds between gravity ticks at the current level
+ */
+export const getGravityInterval = (s: State): number => gravityInterval(s.level);
+
+/**
+ * @param s The game state
+ * @returns True while the game is paused
+ */
+export const isPaused = (s: State): boolean => s.paused;
+
+/**
+ * @param s The game state
+ * @returns True once the game has ended, by topping out or meeting its goal
+ */
+export const isGameOver = (s: State): boolean => s.gameEnd;
+
+/**
+ * @param s The game state
+ * @returns True if the game ended by meeting its mode's goal
+ */
+export const isGoalReached = (s: State): boolean => s.goalReached;
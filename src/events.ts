@@ -0,0 +1,35 @@
+/**
+ * The game event stream. Every state the reducer makes carries the events of
+ * the action that made it (see GameEvent), so anything following the states
+ * of a game can follow what happens in it: sounds, effects and add-ons
+ * subscribe here rather than comparing one state with the next.
+ */
+
+import { Observable } from "rxjs";
+import { distinctUntilChanged, filter, mergeMap } from "rxjs/operators";
+import { GameEvent, State } from "./types";
+
+/**
+ * Turns a game's states into the events that made them. An action that
+ * changes nothing leaves the state as it was, so a state seen twice in a row
+ * is only announced once.
+ *
+ * @param state$ The game's states, as the reducer makes them
+ * @returns The game's events, in order
+ */
+export const gameEvents = (state$: Observable<State>): Observable<GameEvent> =>
+  state$.pipe(
+    distinctUntilChanged(),
+    mergeMap(s => s.events)
+  );
+
+/**
+ * Keeps the events of the given types, narrowed to those types.
+ *
+ * @param types The event types to keep, such as "clear" or "levelUp"
+ * @returns An operator for a stream of events
+ */
+export const ofType = <T extends GameEvent["type"]>(...types: ReadonlyArray<T>) =>
+  filter((event: GameEvent): event is Extract<GameEvent, { type: T }> =>
+    (types as ReadonlyArray<string>).includes(event.type)
+  );
@@ -0,0 +1,522 @@
+/**
+ * Sharing boards as text, in fumen's format: the diagrams the Tetris community
+ * passes around as links such as https://fumen.zui.jp/?v115@vhAAgH. A diagram
+ * is a run of pages, each a 10 by 23 field with a piece placed on it and a
+ * comment. Each page's field is written as the difference from the one before
+ * it, after the piece before it locked and cleared its lines.
+ *
+ * A position (a board, the current piece, the held piece and the queue) is a
+ * page whose comment gives the pieces in fumen's quiz notation,
+ * "#Q=[hold](current)queue", so fumen itself shows what's coming.
+ *
+ * Only the current version of the format, v115, is read. Quiz comments are
+ * read as written on each page; ones a page inherits from an earlier page
+ * aren't advanced by the pieces placed in between.
+ */
+
+import { Block, GameConfig, Grid, State } from "./types";
+import { Constants, createInitialState, spawnTetromino } from "./state";
+import { GARBAGE } from "./garbage";
+import { PieceSets, shapeBounds } from "./pieces";
+import { PIECE_LETTERS } from "./puzzle";
+import { getCoordinates } from "./util";
+
+/** The width of a fumen field. */
+export const FUMEN_WIDTH = 10;
+
+/** The height of a fumen field, not counting the garbage row below it. */
+export const FUMEN_HEIGHT = 23;
+
+/** The cells of a field and its garbage row. */
+const FIELD_CELLS = FUMEN_WIDTH * (FUMEN_HEIGHT + 1);
+
+/** The digits numbers are written in, least significant first. */
+const DIGITS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/** The characters a comment is written with, once escaped. */
+const COMMENT_CHARS =
+  " !\"#$%&'()*+,-./0123456789:;<=>?@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\]^_`abcdefghijklmnopqrstuvwxyz{|}~";
+
+/** A field written as one run of unchanged cells. */
+const UNCHANGED = 8 * FIELD_CELLS + FIELD_CELLS - 1;
+
+/**
+ * What each of fumen's cell numbers holds, from empty to grey.
+ */
+const FUMEN_CELLS: ReadonlyArray<string | null> = [null, "I", "LR", "O", "Z", "T", "LL", "S", GARBAGE];
+
+/**
+ * Each tetromino's cells in its spawn state, around the cell fumen places it
+ * by, with y counting up.
+ */
+const FUMEN_BLOCKS: Readonly<Record<string, ReadonlyArray<readonly [number, number]>>> = {
+  I: [[0, 0], [-1, 0], [1, 0], [2, 0]],
+  LR: [[0, 0], [-1, 0], [1, 0], [1, 1]],
+  O: [[0, 0], [1, 0], [0, 1], [1, 1]],
+  Z: [[0, 0], [1, 0], [0, 1], [-1, 1]],
+  T: [[0, 0], [-1, 0], [1, 0], [0, 1]],
+  LL: [[0, 0], [-1, 0], [1, 0], [-1, 1]],
+  S: [[0, 0], [-1, 0], [0, 1], [1, 1]],
+};
+
+/**
+ * How far the cell fumen writes O, I, S and Z at is from the one it places
+ * them by, in each rotation state. The format kept its older rotation
+ * system's positions for them.
+ */
+const WRITTEN_OFFSETS: Readonly<Record<string, ReadonlyArray<readonly [number, number]>>> = {
+  O: [[0, 1], [0, 0], [-1, 0], [-1, 1]],
+  I: [[0, 0], [0, 0], [-1, 0], [0, 1]],
+  S: [[0, 1], [1, 0], [0, 0], [0, 0]],
+  Z: [[0, 1], [0, 0], [0, 0], [-1, 0]],
+};
+
+/**
+ * A page of a fumen diagram.
+ */
+export type FumenPage = Readonly<{
+  board: Grid<string | null>; // FUMEN_HEIGHT rows of FUMEN_WIDTH cells, before the piece is placed
+  garbage: ReadonlyArray<string | null>; // the row below the board, risen into it by rise
+  piece: Block | null; // the piece placed on the page, positioned on its board
+  comment: string;
+  lock: boolean; // the piece locks and full lines clear before the next page
+  rise: boolean; // then the garbage row rises into the board
+  mirror: boolean; // then the board is mirrored left to right
+}>;
+
+/**
+ * A position to share: the board and the pieces in play.
+ */
+export type Position = Readonly<{
+  board: Grid<string | null>;
+  current: string | null;
+  hold: string | null;
+  queue: ReadonlyArray<string>;
+}>;
+
+/** A field as fumen numbers its cells: the top row first, the garbage row last. */
+type Field = ReadonlyArray<number>;
+
+/** Reads a number written in count digits at the given index. */
+const readNumber = (data: string, index: number, count: number): number => {
+  if (index + count > data.length) {
+    throw new Error("The fumen ends too soon");
+  }
+  return Array.from(data.slice(index, index + count)).reduceRight((value, char) => {
+    const digit = DIGITS.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Unknown character ${char} in the fumen`);
+    }
+    return value * DIGITS.length + digit;
+  }, 0);
+};
+
+/** Writes a number in count digits. */
+const writeNumber = (value: number, count: number): string =>
+  Array.from({ length: count }, (_, digit) => DIGITS[Math.floor(value / DIGITS.length ** digit) % DIGITS.length])
+    .join("");
+
+/** The fumen number of a board cell. Cells of other pieces are grey. */
+const cellNumber = (cell: string | null): number =>
+  cell === null ? 0 : FUMEN_CELLS.indexOf(cell) > 0 ? FUMEN_CELLS.indexOf(cell) : 8;
+
+/** The index in a field of a cell, with y counting up from the bottom row. */
+const fieldIndex = (x: number, y: number): number => (FUMEN_HEIGHT - 1 - y) * FUMEN_WIDTH + x;
+
+/** Splits a field into rows. */
+const fieldRows = (field: Field): ReadonlyArray<ReadonlyArray<number>> =>
+  Array.from({ length: FUMEN_HEIGHT + 1 }, (_, row) => field.slice(row * FUMEN_WIDTH, (row + 1) * FUMEN_WIDTH));
+
+/** Turns a spawn state cell into the given rotation state. */
+const turnCell = ([x, y]: readonly [number, number], rotation: number): readonly [number, number] =>
+  [[x, y], [y, -x], [-x, -y], [-y, x]][rotation] as [number, number];
+
+/** A tetromino's cells in a rotation state, around the cell fumen places it by. */
+const fumenCells = (name: string, rotation: number) => FUMEN_BLOCKS[name].map(cell => turnCell(cell, rotation));
+
+/** The cells, with y counting up, a piece covers on a page. */
+const pieceCells = (piece: Block): ReadonlyArray<readonly [number, number]> =>
+  getCoordinates([piece.x, piece.y], piece.shapesArray).map(([x, y]) => [x, FUMEN_HEIGHT - 1 - y] as const);
+
+/**
+ * Places a piece the way fumen writes it: its type, rotation state and cell.
+ * Fumen's rotation states run 180, clockwise, spawn and counter-clockwise,
+ * which swaps the engine's first and third.
+ */
+const writePiece = (piece: Block | null): readonly [number, number, number] => {
+  if (piece === null) {
+    return [0, 0, 0];
+  }
+  if (!(piece.name in FUMEN_BLOCKS)) {
+    throw new Error(`Fumen has no piece ${piece.name}`);
+  }
+  const cells = pieceCells(piece);
+  const blocks = fumenCells(piece.name, piece.rotation);
+  const [dx, dy] = WRITTEN_OFFSETS[piece.name]?.[piece.rotation] ?? [0, 0];
+  const x = Math.min(...cells.map(([x]) => x)) - Math.min(...blocks.map(([x]) => x)) + dx;
+  const y = Math.min(...cells.map(([, y]) => y)) - Math.min(...blocks.map(([, y]) => y)) + dy;
+  return [FUMEN_CELLS.indexOf(piece.name), [2, 1, 0, 3][piece.rotation], fieldIndex(x, y)];
+};
+
+/**
+ * Reads a piece as fumen writes it.
+ */
+const readPiece = (type: number, rotationNumber: number, index: number): Block | null => {
+  const name = FUMEN_CELLS[type];
+  if (name === null || !(name in FUMEN_BLOCKS)) {
+    return null;
+  }
+  const rotation = [2, 1, 0, 3][rotationNumber];
+  const [dx, dy] = WRITTEN_OFFSETS[name]?.[rotation] ?? [0, 0];
+  const x = (index % FUMEN_WIDTH) - dx;
+  const y = FUMEN_HEIGHT - 1 - Math.floor(index / FUMEN_WIDTH) - dy;
+  const cells = fumenCells(name, rotation).map(([cx, cy]) => [x + cx, FUMEN_HEIGHT - 1 - (y + cy)]);
+  const shape = PieceSets.tetrominoes[name].rotations[rotation];
+  const bounds = shapeBounds(shape);
+  return {
+    ...spawnTetromino(name),
+    x: Math.min(...cells.map(([x]) => x)) - bounds.left,
+    y: Math.min(...cells.map(([, y]) => y)) - bounds.top,
+    rotation,
+    shapesArray: shape,
+  };
+};
+
+/**
+ * The field after a page: its piece placed, lines cleared, garbage risen and
+ * the board mirrored, as the page's flags ask.
+ */
+const afterPage = (field: Field, page: FumenPage): Field => {
+  if (!page.lock) {
+    return field;
+  }
+  const [type] = writePiece(page.piece);
+  const covered = page.piece ? pieceCells(page.piece).map(([x, y]) => fieldIndex(x, y)) : [];
+  const placed = field.map((cell, index) => (covered.includes(index) ? type : cell));
+  const rows = fieldRows(placed);
+  const board = rows.slice(0, FUMEN_HEIGHT).filter(row => row.includes(0));
+  const cleared = [...Array.from({ length: FUMEN_HEIGHT - board.length }, () => Array(FUMEN_WIDTH).fill(0)), ...board];
+  const risen = page.rise
+    ? [...cleared.slice(1), rows[FUMEN_HEIGHT], Array(FUMEN_WIDTH).fill(0)]
+    : [...cleared, rows[FUMEN_HEIGHT]];
+  return risen.flatMap((row, index) => (page.mirror && index < FUMEN_HEIGHT ? [...row].reverse() : row));
+};
+
+/** A page's field. */
+const pageField = (page: FumenPage): Field => {
+  if (page.board.length !== FUMEN_HEIGHT || page.board.some(row => row.length !== FUMEN_WIDTH)) {
+    throw new Error(`A fumen board is ${FUMEN_WIDTH} by ${FUMEN_HEIGHT} cells`);
+  }
+  return [...page.board.flat(), ...page.garbage].map(cellNumber);
+};
+
+/** Writes a field as runs of cells changed alike from the field before it. */
+const writeField = (previous: Field, field: Field): string =>
+  field
+    .map((cell, index) => cell - previous[index] + 8)
+    .reduce<ReadonlyArray<readonly [number, number]>>(
+      (runs, diff) =>
+        runs.length > 0 && runs[runs.length - 1][0] === diff
+          ? [...runs.slice(0, -1), [diff, runs[runs.length - 1][1] + 1]]
+          : [...runs, [diff, 1]],
+      []
+    )
+    .map(([diff, length]) => writeNumber(diff * FIELD_CELLS + length - 1, 2))
+    .join("");
+
+/** Reads a field written by writeField, returning it and where it ends. */
+const readField = (
+  data: string,
+  index: number,
+  previous: Field,
+  diffs: ReadonlyArray<number> = []
+): readonly [Field, number] => {
+  if (diffs.length >= FIELD_CELLS) {
+    const field = previous.map((cell, i) => cell + diffs[i]);
+    if (diffs.length > FIELD_CELLS || field.some(cell => cell < 0 || cell >= FUMEN_CELLS.length)) {
+      throw new Error("The fumen's field is corrupt");
+    }
+    return [field, index];
+  }
+  const run = readNumber(data, index, 2);
+  const length = (run % FIELD_CELLS) + 1;
+  return readField(data, index + 2, previous, [...diffs, ...Array(length).fill(Math.floor(run / FIELD_CELLS) - 8)]);
+};
+
+/** Writes a comment: its length, then its escaped characters four at a time. */
+const writeComment = (comment: string): string => {
+  const escaped = escape(comment);
+  if (escaped.length >= DIGITS.length ** 2) {
+    throw new Error("The comment is too long for a fumen");
+  }
+  const groups = Array.from({ length: Math.ceil(escaped.length / 4) }, (_, group) =>
+    Array.from(escaped.slice(group * 4, group * 4 + 4)).reduceRight(
+      (value, char) => value * (COMMENT_CHARS.length + 1) + COMMENT_CHARS.indexOf(char),
+      0
+    )
+  );
+  return [writeNumber(escaped.length, 2), ...groups.map(value => writeNumber(value, 5))].join("");
+};
+
+/** Reads a comment written by writeComment, returning it and where it ends. */
+const readComment = (data: string, index: number): readonly [string, number] => {
+  const length = readNumber(data, index, 2);
+  const groups = Math.ceil(length / 4);
+  const escaped = Array.from({ length: groups }, (_, group) => {
+    const value = readNumber(data, index + 2 + group * 5, 5);
+    return Array.from(
+      { length: 4 },
+      (_, char) => COMMENT_CHARS[Math.floor(value / (COMMENT_CHARS.length + 1) ** char) % (COMMENT_CHARS.length + 1)]
+    ).join("");
+  }).join("");
+  return [unescape(escaped.slice(0, length)), index + 2 + groups * 5];
+};
+
+/**
+ * Writes a page's piece, flags and whether a comment follows as one number.
+ * The first page also asks for guideline colours.
+ */
+const writeAction = (page: FumenPage, first: boolean, commented: boolean): string => {
+  const [type, rotation, index] = writePiece(page.piece);
+  const flags = [!page.lock, commented, first, page.mirror, page.rise].reduce(
+    (value, flag) => value * 2 + Number(flag),
+    0
+  );
+  return writeNumber(((flags * FIELD_CELLS + index) * 4 + rotation) * 8 + type, 3);
+};
+
+/**
+ * Writes the pages of a diagram.
+ *
+ * @param pages The pages, each with a board of FUMEN_WIDTH by FUMEN_HEIGHT cells
+ * @returns The diagram, starting "v115@"
+ * @throws Error if a board isn't fumen's size, a piece isn't a tetromino or a
+ * comment is too long
+ */
+export const encodeFumen = (pages: ReadonlyArray<FumenPage>): string => {
+  type Written = Readonly<{ parts: ReadonlyArray<string>; repeat: number; field: Field; comment: string }>;
+  const initial: Written = { parts: [], repeat: -1, field: Array(FIELD_CELLS).fill(0), comment: "" };
+  const { parts } = pages.reduce((written: Written, page, index): Written => {
+    const field = pageField(page);
+    const commented = page.comment !== written.comment;
+    const rest = writeAction(page, index === 0, commented) + (commented ? writeComment(page.comment) : "");
+    const fieldText = writeField(written.field, field);
+    const next = { field: afterPage(field, page), comment: page.comment };
+    // a page whose field is unchanged is written once, then counted by the
+    // digit after it for as many pages as follow unchanged
+    if (fieldText !== writeNumber(UNCHANGED, 2)) {
+      return { ...next, parts: [...written.parts, fieldText, rest], repeat: -1 };
+    }
+    const count = written.repeat >= 0 ? DIGITS.indexOf(written.parts[written.repeat]) : DIGITS.length - 1;
+    return count < DIGITS.length - 1
+      ? {
+          ...next,
+          parts: [
+            ...written.parts.slice(0, written.repeat),
+            DIGITS[count + 1],
+            ...written.parts.slice(written.repeat + 1),
+            rest,
+          ],
+          repeat: written.repeat,
+        }
+      : { ...next, parts: [...written.parts, fieldText, DIGITS[0], rest], repeat: written.parts.length + 1 };
+  }, initial);
+
+  // fumen breaks long diagrams with a ? after the first 42 characters and
+  // every 47 after that
+  const data = parts.join("");
+  const lines = data.length < 41 ? [data] : [data.slice(0, 42), ...(data.slice(42).match(/.{1,47}/g) ?? [])];
+  return `v115@${lines.join("?")}`;
+};
+
+/**
+ * Reads the pages of a diagram.
+ *
+ * @param text The diagram, or a link to one
+ * @returns The pages, each with its board as it starts the page
+ * @throws Error if it isn't a fumen diagram, is of an older version or is corrupt
+ */
+export const decodeFumen = (text: string): ReadonlyArray<FumenPage> => {
+  const version = /([vmd])(\d+)@([A-Za-z0-9+/?]*)/.exec(text);
+  if (!version) {
+    throw new Error("Not a fumen diagram");
+  }
+  if (version[2] !== "115") {
+    throw new Error(`Fumen version ${version[2]} isn't supported`);
+  }
+  const data = version[3].replace(/\?/g, "");
+
+  type Read = Readonly<{ pages: ReadonlyArray<FumenPage>; index: number; repeat: number; field: Field }>;
+  const readPages = ({ pages, index, repeat, field: previous }: Read): ReadonlyArray<FumenPage> => {
+    if (index >= data.length) {
+      return pages;
+    }
+    const [field, afterField] = repeat > 0 ? [previous, index] : readField(data, index, previous);
+    const unchanged = repeat <= 0 && readNumber(data, index, 2) === UNCHANGED;
+    const afterRepeat = unchanged ? afterField + 1 : afterField;
+    const nextRepeat = unchanged ? readNumber(data, afterField, 1) : repeat - 1;
+
+    const action = readNumber(data, afterRepeat, 3);
+    const [type, rotation, cell] = [action % 8, Math.floor(action / 8) % 4, Math.floor(action / 32) % FIELD_CELLS];
+    const [rise, mirror, , commented, unlocked] = Array.from(
+      { length: 5 },
+      (_, bit) => Math.floor(action / (32 * FIELD_CELLS * 2 ** bit)) % 2 === 1
+    );
+    const [comment, afterComment] = commented
+      ? readComment(data, afterRepeat + 3)
+      : [pages.length > 0 ? pages[pages.length - 1].comment : "", afterRepeat + 3];
+
+    const rows = fieldRows(field).map(row => row.map(cell => FUMEN_CELLS[cell]));
+    const page: FumenPage = {
+      board: rows.slice(0, FUMEN_HEIGHT),
+      garbage: rows[FUMEN_HEIGHT],
+      piece: readPiece(type, rotation, cell),
+      comment,
+      lock: !unlocked,
+      rise,
+      mirror,
+    };
+    return readPages({
+      pages: [...pages, page],
+      index: afterComment,
+      repeat: nextRepeat,
+      field: afterPage(field, page),
+    });
+  };
+
+  return readPages({ pages: [], index: 0, repeat: 0, field: Array(FIELD_CELLS).fill(0) });
+};
+
+/** The quiz letter of a piece. */
+const quizLetter = (name: string): string => {
+  const letter = Object.keys(PIECE_LETTERS).find(letter => PIECE_LETTERS[letter] === name);
+  if (letter === undefined) {
+    throw new Error(`Fumen has no piece ${name}`);
+  }
+  return letter;
+};
+
+/**
+ * Turns a position into a page of a diagram, its pieces written as a quiz.
+ *
+ * @param position The position, on a board FUMEN_WIDTH cells wide and no
+ * more than FUMEN_HEIGHT tall
+ * @returns The page
+ * @throws Error if the board doesn't fit or a piece isn't a tetromino
+ */
+export const positionPage = (position: Position): FumenPage => {
+  const { board, current, hold, queue } = position;
+  if (board.some(row => row.length !== FUMEN_WIDTH) || board.length > FUMEN_HEIGHT) {
+    throw new Error(`Fumen boards are ${FUMEN_WIDTH} cells wide and no more than ${FUMEN_HEIGHT} tall`);
+  }
+  const quiz = current !== null || hold !== null || queue.length > 0;
+  return {
+    board: [...Array.from({ length: FUMEN_HEIGHT - board.length }, () => Array(FUMEN_WIDTH).fill(null)), ...board],
+    garbage: Array(FUMEN_WIDTH).fill(null),
+    piece: null,
+    comment: quiz
+      ? `#Q=[${hold === null ? "" : quizLetter(hold)}](${current === null ? "" : quizLetter(current)})` +
+        queue.map(quizLetter).join("")
+      : "",
+    lock: true,
+    rise: false,
+    mirror: false,
+  };
+};
+
+/**
+ * Turns a page of a diagram into a position: its board with its piece
+ * placed, and the pieces its quiz comment gives, if it has one. Empty rows at
+ * the top are trimmed down to a standard board's height.
+ *
+ * @param page The page
+ * @returns The position
+ */
+export const pagePosition = (page: FumenPage): Position => {
+  const covered = page.piece ? getCoordinates([page.piece.x, page.piece.y], page.piece.shapesArray) : [];
+  const board = page.board.map((row, y) =>
+    row.map((cell, x) => (covered.some(([cx, cy]) => cx === x && cy === y) ? page.piece!.name : cell))
+  );
+  const filled = board.findIndex(row => row.some(cell => cell !== null));
+  const extra = Math.max(0, Math.min(FUMEN_HEIGHT - Constants.GRID_HEIGHT, filled < 0 ? FUMEN_HEIGHT : filled));
+
+  const quiz = /^#Q=\[([IJLOSTZ]?)\]\(([IJLOSTZ]?)\)([IJLOSTZ]*)/.exec(page.comment);
+  return {
+    board: board.slice(extra),
+    current: quiz?.[2] ? PIECE_LETTERS[quiz[2]] : null,
+    hold: quiz?.[1] ? PIECE_LETTERS[quiz[1]] : null,
+    queue: quiz ? Array.from(quiz[3], letter => PIECE_LETTERS[letter]) : [],
+  };
+};
+
+/**
+ * Writes a position as a single page diagram.
+ *
+ * @param position The position
+ * @returns The diagram, starting "v115@"
+ * @throws Error if the position can't be written (see positionPage)
+ */
+export const encodePosition = (position: Position): string => encodeFumen([positionPage(position)]);
+
+/**
+ * Reads the position on the first page of a diagram.
+ *
+ * @param text The diagram, or a link to one
+ * @returns The position
+ * @throws Error if it isn't a diagram fumen can read (see decodeFumen)
+ */
+export const decodePosition = (text: string): Position => {
+  const [page] = decodeFumen(text);
+  if (!page) {
+    throw new Error("The fumen has no pages");
+  }
+  return pagePosition(page);
+};
+
+/**
+ * The position of a game in progress.
+ *
+ * @param s The game state
+ * @returns Its board and the pieces in play
+ */
+export const positionOf = (s: State): Position => ({
+  board: s.gameBoard,
+  current: s.currentTetromino.name,
+  hold: s.holdTetromino?.name ?? null,
+  queue: s.queue.map(piece => piece.name),
+});
+
+/**
+ * Starts a game from a position, to practise it. The position's pieces come
+ * first, then the generator's as usual.
+ *
+ * @param position The position
+ * @param seed The seed driving the pieces that follow
+ * @param config Overrides for any of the default Constants; the board's size
+ * and the pieces come from the position
+ * @returns The initial state of the game
+ */
+export const positionGame = (position: Position, seed: number, config: Partial<GameConfig> = {}): State => {
+  const s = createInitialState(seed, {
+    ...Constants,
+    ...config,
+    GRID_WIDTH: position.board[0].length,
+    GRID_HEIGHT: position.board.length,
+    PIECES: PieceSets.tetrominoes,
+    PUZZLE: null,
+  });
+  const spawn = (name: string) => spawnTetromino(name, s.config);
+  const current = position.current === null ? s.currentTetromino : spawn(position.current);
+  return {
+    ...s,
+    currentTetromino: current,
+    lowestRow: current.y,
+    queue: [
+      ...position.queue.map(spawn),
+      ...(position.current === null ? [] : [s.currentTetromino]),
+      ...s.queue,
+    ],
+    holdTetromino: position.hold === null ? null : spawn(position.hold),
+    gameBoard: position.board.map(row => [...row]),
+  };
+};
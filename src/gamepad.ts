@@ -0,0 +1,68 @@
+/**
+ * Gamepad input. The Gamepad API has no events for buttons, so front-ends poll
+ * the pads every frame and compare each reading with the last; buttons that
+ * went down or up since are turned into actions through the same bindings as
+ * the keyboard (see input.ts).
+ */
+
+import { Action } from "./types";
+import { GamepadBindings, bindingsOf, pressAction, releaseAction } from "./input";
+
+/**
+ * Which buttons of a pad are held, by index. Empty while no pad is connected.
+ */
+export type GamepadButtons = ReadonlyArray<boolean>;
+
+/**
+ * Reads the buttons of a connected gamepad.
+ *
+ * @param index Which of the connected pads to read, in the order they connected
+ * @param nav Where to find the Gamepad API, the browser's navigator by default
+ * @returns The pad's held buttons, or none if there's no such pad
+ */
+export const readGamepad = (
+  index: number,
+  nav: Partial<Pick<Navigator, "getGamepads">> | undefined = globalThis.navigator
+): GamepadButtons => {
+  const pads = nav?.getGamepads?.() ?? [];
+  const pad = [...pads].filter((pad): pad is Gamepad => pad !== null && pad.connected)[index];
+  return pad ? pad.buttons.map(button => button.pressed) : [];
+};
+
+/**
+ * @param previous The buttons held at the last reading
+ * @param current The buttons held now
+ * @returns The indices of the buttons pressed since the last reading
+ */
+export const pressedButtons = (previous: GamepadButtons, current: GamepadButtons): ReadonlyArray<number> =>
+  current.flatMap((held, button) => (held && !previous[button] ? [button] : []));
+
+/**
+ * @param previous The buttons held at the last reading
+ * @param current The buttons held now
+ * @returns The indices of the buttons released since the last reading
+ */
+export const releasedButtons = (previous: GamepadButtons, current: GamepadButtons): ReadonlyArray<number> =>
+  previous.flatMap((held, button) => (held && !current[button] ? [button] : []));
+
+/**
+ * Turns the change between two readings of a pad into actions. A pad that
+ * disconnects releases everything that was held.
+ *
+ * @param previous The buttons held at the last reading
+ * @param current The buttons held now
+ * @param bindings The buttons bound to each binding
+ * @returns The actions, releases first
+ */
+export const gamepadActions = (
+  previous: GamepadButtons,
+  current: GamepadButtons,
+  bindings: GamepadBindings
+): ReadonlyArray<Action> => [
+  ...releasedButtons(previous, current)
+    .flatMap(button => bindingsOf(bindings, button))
+    .flatMap(binding => releaseAction(binding) ?? []),
+  ...pressedButtons(previous, current)
+    .flatMap(button => bindingsOf(bindings, button))
+    .map(pressAction),
+];
@@ -0,0 +1,148 @@
+/**
+ * Garbage: the grey rows a versus player sends their opponent by clearing
+ * lines. How much a clear sends follows the guideline attack table. Incoming
+ * garbage waits until the player locks a piece without clearing any lines,
+ * then rises from the bottom of their board; clearing lines first cancels it.
+ */
+
+import { Action, ClearType, GarbageBatch, Grid, State } from "./types";
+import { isDifficult } from "./scoring";
+import { RNG } from "./util";
+
+/** The name board cells filled by garbage hold (see colourOf). */
+export const GARBAGE = "garbage";
+
+/** Garbage sent by clearing 0-4 lines without a T-spin. */
+const LINE_ATTACK = [0, 0, 1, 2, 4];
+
+/** Garbage sent by a T-spin clearing 0-3 lines. */
+const T_SPIN_ATTACK = [0, 2, 4, 6];
+
+/** Garbage sent by a mini T-spin clearing 0-2 lines. */
+const MINI_T_SPIN_ATTACK = [0, 0, 1];
+
+/** Extra garbage for each combo step, the last entry repeating for longer combos. */
+const COMBO_ATTACK = [0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 4, 5];
+
+/** Extra garbage for a difficult clear that follows another difficult clear. */
+const BACK_TO_BACK_ATTACK = 1;
+
+/** Extra garbage for a clear that leaves the board empty. */
+const PERFECT_CLEAR_ATTACK = 10;
+
+/**
+ * Calculates the garbage a lock sends.
+ *
+ * @param clear The lines cleared by the lock and how
+ * @param backToBack True if the previous clear was difficult
+ * @param combo The combo count including this clear (0 for the first clear)
+ * @returns The number of garbage lines sent
+ */
+export const attackLines = (clear: ClearType, backToBack: boolean, combo: number): number => {
+  if (clear.lines === 0) {
+    return 0;
+  }
+
+  const base =
+    clear.tSpin === "full"
+      ? T_SPIN_ATTACK[clear.lines]
+      : clear.tSpin === "mini"
+      ? MINI_T_SPIN_ATTACK[clear.lines]
+      : LINE_ATTACK[clear.lines];
+  const comboAttack = COMBO_ATTACK[Math.min(Math.max(combo, 0), COMBO_ATTACK.length - 1)];
+  const backToBackAttack = backToBack && isDifficult(clear) ? BACK_TO_BACK_ATTACK : 0;
+  const perfectClearAttack = clear.perfectClear ? PERFECT_CLEAR_ATTACK : 0;
+
+  return base + comboAttack + backToBackAttack + perfectClearAttack;
+};
+
+/**
+ * Cancels incoming garbage with an attack, oldest garbage first.
+ *
+ * @param incoming The garbage waiting to rise
+ * @param attack The garbage lines the player is sending
+ * @returns The garbage still waiting and the attack left over to send
+ */
+export const cancelGarbage = (
+  incoming: ReadonlyArray<GarbageBatch>,
+  attack: number
+): readonly [ReadonlyArray<GarbageBatch>, number] => {
+  if (incoming.length === 0 || attack === 0) {
+    return [incoming, attack];
+  }
+
+  const [first, ...rest] = incoming;
+  return first.lines > attack
+    ? [[{ ...first, lines: first.lines - attack }, ...rest], 0]
+    : cancelGarbage(rest, attack - first.lines);
+};
+
+/**
+ * @param incoming The garbage waiting to rise
+ * @returns The total number of garbage lines waiting
+ */
+export const pendingLines = (incoming: ReadonlyArray<GarbageBatch>): number =>
+  incoming.reduce((sum, batch) => sum + batch.lines, 0);
+
+/**
+ * Creates a batch of garbage with a random hole, the same column for every
+ * row of the batch.
+ *
+ * @param lines The number of garbage lines
+ * @param seed The seed choosing the hole
+ * @param width The width of the board
+ * @returns The batch, and the seed for the next one
+ */
+export const createGarbage = (lines: number, seed: number, width: number): readonly [GarbageBatch, number] => {
+  const next = RNG.hash(seed);
+  return [{ lines, hole: RNG.scale(next, width) }, next];
+};
+
+/**
+ * Builds the rows of a batch of garbage.
+ *
+ * @param batch The garbage
+ * @param width The width of the board
+ * @returns The grey rows, each with its hole
+ */
+const garbageRows = (batch: GarbageBatch, width: number): Grid<string | null> =>
+  Array.from({ length: batch.lines }, () => Array.from({ length: width }, (_, x) => (x === batch.hole ? null : GARBAGE)));
+
+/**
+ * Raises every batch of incoming garbage from the bottom of the board, pushing
+ * the stack up. The player tops out if any of it is pushed off the top, which
+ * is for the caller to handle as it does any other top out.
+ *
+ * @param s The game state
+ * @returns The game state with the garbage risen and none left waiting, and
+ *   true if any of the stack was pushed off the top
+ */
+export const raiseGarbage = (s: State): readonly [State, boolean] => {
+  const rows = s.incoming.flatMap(batch => garbageRows(batch, s.config.GRID_WIDTH));
+  if (rows.length === 0) {
+    return [s, false];
+  }
+
+  const pushedOff = s.gameBoard.slice(0, rows.length).some(row => row.some(cell => cell !== null));
+  return [
+    {
+      ...s,
+      gameBoard: [...s.gameBoard.slice(rows.length), ...rows].slice(-s.gameBoard.length),
+      incoming: [],
+    },
+    pushedOff,
+  ];
+};
+
+/**
+ * An action class for garbage arriving from an opponent. It waits with the
+ * rest of the incoming garbage until the player's next lock.
+ */
+export class ReceiveGarbage implements Action {
+  /**
+   * @param batch The garbage sent
+   */
+  constructor(public readonly batch: GarbageBatch) {}
+
+  apply = (s: State): State => (s.gameEnd ? s : { ...s, incoming: [...s.incoming, this.batch] });
+}
@@ -0,0 +1,127 @@
+/**
+ * Piece generators (randomizers). Each generator is a pair of pure functions
+ * over a serialisable GeneratorState, so the whole piece sequence of a game is
+ * decided by its seed and can be reproduced exactly.
+ */
+
+import { GeneratorName, GeneratorState } from "./types";
+import { RNG } from "./util";
+
+/**
+ * A piece randomizer. The game state only stores the generator's name and its
+ * GeneratorState, so generators are looked up in the Generators record.
+ */
+export type PieceGenerator = Readonly<{
+  /**
+   * Creates the generator's starting state.
+   * @param seed The game seed
+   */
+  init: (seed: number) => GeneratorState;
+  /**
+   * Draws the next piece.
+   * @param g The generator's current state
+   * @param pieces Names of the pieces that can be drawn
+   * @returns The drawn piece's name and the generator's updated state
+   */
+  next: (g: GeneratorState, pieces: ReadonlyArray<string>) => readonly [string, GeneratorState];
+}>;
+
+/**
+ * Advances the seed and draws a value from [0, max).
+ *
+ * @param seed The current seed
+ * @param max The exclusive upper bound
+ * @returns The drawn value and the advanced seed
+ */
+const roll = (seed: number, max: number): readonly [number, number] => {
+  const nextSeed = RNG.hash(seed);
+  return [RNG.scale(nextSeed, max), nextSeed];
+};
+
+/**
+ * Shuffles a list with the Fisher-Yates algorithm, driven by the seed.
+ *
+ * @param items The items to shuffle
+ * @param seed The current seed
+ * @returns The shuffled items and the advanced seed
+ */
+const shuffle = <T>(items: ReadonlyArray<T>, seed: number): readonly [T[], number] =>
+  items.reduceRight<readonly [T[], number]>(([acc, seed], _, i) => {
+    const [j, nextSeed] = roll(seed, i + 1);
+    const swapped = acc.map((item, k) => (k === i ? acc[j] : k === j ? acc[i] : item));
+    return [swapped, nextSeed];
+  }, [[...items], seed]);
+
+/**
+ * Draws each piece independently and uniformly.
+ */
+const random: PieceGenerator = {
+  init: seed => ({ seed, bag: [], history: [] }),
+  next: (g, pieces) => {
+    const [index, seed] = roll(g.seed, pieces.length);
+    return [pieces[index], { ...g, seed, history: [pieces[index]] }];
+  },
+};
+
+/**
+ * The guideline randomizer: deals every piece once, in a shuffled order, before
+ * refilling the bag.
+ */
+const bag7: PieceGenerator = {
+  init: seed => ({ seed, bag: [], history: [] }),
+  next: (g, pieces) => {
+    const [bag, seed] = g.bag.length > 0 ? [g.bag, g.seed] : shuffle(pieces, g.seed);
+    return [bag[0], { ...g, seed, bag: bag.slice(1), history: [bag[0]] }];
+  },
+};
+
+/**
+ * The NES randomizer: rolls one extra "blank" side, and rerolls once (without
+ * it) when the blank or a repeat of the previous piece comes up.
+ */
+const nes: PieceGenerator = {
+  init: seed => ({ seed, bag: [], history: [] }),
+  next: (g, pieces) => {
+    const [first, seed] = roll(g.seed, pieces.length + 1);
+    const rerolled =
+      first === pieces.length || pieces[first] === g.history[0]
+        ? roll(seed, pieces.length)
+        : ([first, seed] as const);
+    const piece = pieces[rerolled[0]];
+    return [piece, { ...g, seed: rerolled[1], history: [piece] }];
+  },
+};
+
+/**
+ * The Tetris The Grand Master randomizer: keeps the last four pieces and
+ * rerolls up to four times to avoid them. The history starts full of Z, and the
+ * very first piece is never an S, Z or O.
+ */
+const tgm: PieceGenerator = {
+  init: seed => ({ seed, bag: [], history: ["Z", "Z", "Z", "Z"] }),
+  next: (g, pieces) => {
+    const first = g.history.every(p => p === "Z");
+    const candidates = first ? pieces.filter(p => !["S", "Z", "O"].includes(p)) : pieces;
+    const pool = candidates.length > 0 ? candidates : pieces;
+
+    const draw = (seed: number, tries: number): readonly [string, number] => {
+      const [index, nextSeed] = roll(seed, pool.length);
+      return tries <= 1 || !g.history.includes(pool[index])
+        ? [pool[index], nextSeed]
+        : draw(nextSeed, tries - 1);
+    };
+
+    const [piece, seed] = draw(g.seed, 4);
+    return [piece, { ...g, seed, history: [piece, ...g.history].slice(0, 4) }];
+  },
+};
+
+/**
+ * Every available generator, keyed by the name used in GameConfig.GENERATOR.
+ */
+export const Generators: Record<GeneratorName, PieceGenerator> = {
+  bag7,
+  random,
+  nes,
+  tgm,
+};
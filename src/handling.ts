@@ -0,0 +1,177 @@
+/**
+ * Real-time handling: held controls, delayed auto shift (DAS), auto repeat
+ * (ARR), soft drop, gravity and lock delay. Front-ends report key presses and
+ * releases with Press and Release and drive the clock with Advance, so all of
+ * the timing lives in the game state and can be tested without a browser.
+ */
+
+import { Action, Control, GameConfig, InputState, State } from "./types";
+import { gravityInterval } from "./scoring";
+import { DropScore, Move, isGrounded, isRunning, lockPiece, moveDown, waitOut } from "./state";
+
+/**
+ * The handling values a player can tune for themselves.
+ */
+export type Handling = Pick<GameConfig, "DAS_MS" | "ARR_MS" | "SOFT_DROP_FACTOR">;
+
+/**
+ * Counts the auto shift moves made after a direction has been held for a time:
+ * none before DAS has charged, then one straight away and one every ARR.
+ *
+ * @param config The game configuration
+ * @param heldMs How long the direction has been held
+ * @returns The number of auto shift moves
+ */
+const autoShiftCount = (config: GameConfig, heldMs: number): number =>
+  heldMs < config.DAS_MS
+    ? 0
+    : config.ARR_MS === 0
+    ? Infinity
+    : 1 + Math.floor((heldMs - config.DAS_MS) / config.ARR_MS);
+
+/**
+ * Moves the current tetromino sideways until it has moved the given number of
+ * columns or is blocked.
+ *
+ * @param s The current game state
+ * @param direction -1 for left, 1 for right
+ * @param moves The number of columns to move
+ * @returns The game state after shifting
+ */
+const shiftBy = (s: State, direction: number, moves: number): State => {
+  if (moves <= 0) return s;
+  const moved = new Move({ x: direction, y: 0 }).apply(s);
+  return moved === s ? s : shiftBy(moved, direction, moves - 1);
+};
+
+/**
+ * Drops the current tetromino by up to the given number of rows, stopping once
+ * it's grounded.
+ *
+ * @param s The current game state
+ * @param rows The number of rows to drop
+ * @param points Points scored for each row dropped
+ * @returns The game state after dropping
+ */
+const dropBy = (s: State, rows: number, points: number): State => {
+  if (rows <= 0 || isGrounded(s)) return s;
+  const moved = moveDown(s);
+  return dropBy({ ...moved, score: moved.score + points }, rows - 1, points);
+};
+
+/**
+ * Applies auto shift for the time that has passed.
+ */
+const autoShift = (s: State, ms: number): State => {
+  if (s.input.shift === 0) return s;
+
+  const heldMs = s.input.shiftTimer + ms;
+  const moves = autoShiftCount(s.config, heldMs) - autoShiftCount(s.config, s.input.shiftTimer);
+  const shifted = shiftBy(s, s.input.shift, Number.isNaN(moves) ? Infinity : moves);
+  return { ...shifted, input: { ...shifted.input, shiftTimer: heldMs } };
+};
+
+/**
+ * Applies gravity, sped up by the soft drop factor while soft drop is held,
+ * for the time that has passed.
+ */
+const fall = (s: State, ms: number): State => {
+  const interval = gravityInterval(s.level) / (s.input.softDrop ? s.config.SOFT_DROP_FACTOR : 1);
+  const rows = Math.floor((s.gravityTimer + ms) / interval);
+  const dropped = dropBy(s, rows, s.input.softDrop ? DropScore.SOFT : 0);
+  return { ...dropped, gravityTimer: s.gravityTimer + ms - rows * interval };
+};
+
+/**
+ * Runs the lock delay for the time that has passed: a grounded piece locks once
+ * it has waited out the delay, or straight away when it has no resets left.
+ */
+const settle = (s: State, ms: number): State => {
+  if (!isGrounded(s)) return { ...s, lockTimer: 0 };
+
+  const lockTimer = s.lockTimer + ms;
+  return lockTimer >= s.config.LOCK_DELAY_MS || s.lockResets >= s.config.MAX_LOCK_RESETS
+    ? lockPiece(s)
+    : { ...s, lockTimer };
+};
+
+/**
+ * An action class for pressing one of the held controls.
+ */
+export class Press implements Action {
+  /**
+   * @param control The control being pressed
+   */
+  constructor(public readonly control: Control) {}
+
+  apply = (s: State): State => {
+    if (this.control === "softDrop") {
+      return { ...s, input: { ...s.input, softDrop: true } };
+    }
+
+    // the newest direction takes over auto shift, and moves once straight away
+    const direction = this.control === "left" ? -1 : 1;
+    const input: InputState = { ...s.input, [this.control]: true, shift: direction, shiftTimer: 0 };
+    return new Move({ x: direction, y: 0 }).apply({ ...s, input });
+  };
+}
+
+/**
+ * An action class for releasing one of the held controls.
+ */
+export class Release implements Action {
+  /**
+   * @param control The control being released
+   */
+  constructor(public readonly control: Control) {}
+
+  apply = (s: State): State => {
+    const released = { ...s.input, [this.control]: false };
+    if (this.control === "softDrop") {
+      return { ...s, input: released };
+    }
+
+    // letting go of the shifting direction hands auto shift to the other one, if held
+    const direction = this.control === "left" ? -1 : 1;
+    if (s.input.shift !== direction) {
+      return { ...s, input: released };
+    }
+    const other = released.left ? -1 : released.right ? 1 : 0;
+    return { ...s, input: { ...released, shift: other, shiftTimer: 0 } };
+  };
+}
+
+/**
+ * An action class that advances the game clock: auto shift, gravity and lock
+ * delay all progress by the elapsed time. Unlike Tick, a grounded piece is only
+ * locked once its lock delay has run out.
+ */
+export class Advance implements Action {
+  /**
+   * @param ms The time that has passed, in milliseconds
+   */
+  constructor(public readonly ms: number) {}
+
+  apply = (s: State): State => {
+    if (!isRunning(s)) {
+      return s;
+    }
+
+    // the clock keeps running while the next piece waits to enter
+    const clocked = { ...s, time: s.time + this.ms };
+    return s.delay > 0 ? waitOut(clocked, this.ms) : settle(fall(autoShift(clocked, this.ms), this.ms), this.ms);
+  };
+}
+
+/**
+ * An action class that changes the handling of a game in progress, as when the
+ * player adjusts it in the settings.
+ */
+export class SetHandling implements Action {
+  /**
+   * @param handling The new handling values
+   */
+  constructor(public readonly handling: Handling) {}
+
+  apply = (s: State): State => ({ ...s, config: { ...s.config, ...this.handling } });
+}
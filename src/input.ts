@@ -0,0 +1,220 @@
+/**
+ * The binding layer between physical inputs and the game. Keyboard keys and
+ * gamepad buttons are both bound to bindings (the things a player can do), and
+ * every binding makes the same actions however it was pressed.
+ */
+
+import { Action, Key } from "./types";
+import { Press, Release } from "./handling";
+import { HardDrop, Hold, Pause, Restart, Rotate } from "./state";
+
+/**
+ * Something a player can bind an input to.
+ */
+export type Binding =
+  | "left"
+  | "right"
+  | "softDrop"
+  | "hardDrop"
+  | "rotateCw"
+  | "rotateCcw"
+  | "rotate180"
+  | "hold"
+  | "pause"
+  | "restart";
+
+/**
+ * Every binding with its name on the settings screen, in the order listed.
+ */
+export const BINDINGS: ReadonlyArray<readonly [Binding, string]> = [
+  ["left", "Move left"],
+  ["right", "Move right"],
+  ["softDrop", "Soft drop"],
+  ["hardDrop", "Hard drop"],
+  ["rotateCw", "Rotate clockwise"],
+  ["rotateCcw", "Rotate counter-clockwise"],
+  ["rotate180", "Rotate 180°"],
+  ["hold", "Hold"],
+  ["pause", "Pause"],
+  ["restart", "Restart"],
+];
+
+/**
+ * The inputs bound to each binding: key codes for a keyboard, button indices
+ * for a gamepad. A binding may have any number of inputs, including none.
+ */
+export type Bindings<T> = Readonly<Record<Binding, ReadonlyArray<T>>>;
+
+/** The keys a player plays with. */
+export type KeyBindings = Bindings<Key>;
+
+/** The gamepad buttons a player plays with, as numbered by the standard mapping. */
+export type GamepadBindings = Bindings<number>;
+
+/**
+ * Player one, or a single player, plays with WASD or the arrow keys.
+ */
+export const PLAYER_ONE_KEYS: KeyBindings = {
+  left: ["KeyA", "ArrowLeft"],
+  right: ["KeyD", "ArrowRight"],
+  softDrop: ["KeyS", "ArrowDown"],
+  hardDrop: ["Space"],
+  rotateCw: ["KeyW", "ArrowUp", "KeyX"],
+  rotateCcw: ["KeyQ", "KeyZ"],
+  rotate180: ["KeyE"],
+  hold: ["KeyC", "ShiftLeft"],
+  pause: ["KeyP", "Escape"],
+  restart: ["KeyR"],
+};
+
+/**
+ * Player two plays with the arrow keys and the keys around them. In versus,
+ * the arrow keys are player two's alone (see exclusiveBindings).
+ */
+export const PLAYER_TWO_KEYS: KeyBindings = {
+  left: ["ArrowLeft"],
+  right: ["ArrowRight"],
+  softDrop: ["ArrowDown"],
+  hardDrop: ["Enter"],
+  rotateCw: ["ArrowUp"],
+  rotateCcw: ["Slash"],
+  rotate180: ["Period"],
+  hold: ["ShiftRight"],
+  pause: [],
+  restart: [],
+};
+
+/**
+ * A controller plays with the d-pad, face buttons and bumpers.
+ */
+export const GAMEPAD_BUTTONS: GamepadBindings = {
+  left: [14],
+  right: [15],
+  softDrop: [13],
+  hardDrop: [12],
+  rotateCw: [0],
+  rotateCcw: [1],
+  rotate180: [3],
+  hold: [4, 5],
+  pause: [9],
+  restart: [8],
+};
+
+/** Names of the buttons of the standard gamepad mapping, by index. */
+const BUTTON_NAMES = [
+  "A",
+  "B",
+  "X",
+  "Y",
+  "LB",
+  "RB",
+  "LT",
+  "RT",
+  "Select",
+  "Start",
+  "L3",
+  "R3",
+  "Up",
+  "Down",
+  "Left",
+  "Right",
+  "Home",
+];
+
+/**
+ * Builds a set of bindings, one binding at a time.
+ *
+ * @param inputs Makes the inputs bound to a binding
+ * @returns The bindings
+ */
+export const mapBindings = <T>(inputs: (binding: Binding) => ReadonlyArray<T>): Bindings<T> =>
+  BINDINGS.reduce((bindings, [binding]) => ({ ...bindings, [binding]: inputs(binding) }), {} as Bindings<T>);
+
+/**
+ * @param bindings A player's bindings
+ * @param input A key or button
+ * @returns Every binding the input is bound to
+ */
+export const bindingsOf = <T>(bindings: Bindings<T>, input: T): ReadonlyArray<Binding> =>
+  BINDINGS.map(([binding]) => binding).filter(binding => bindings[binding].includes(input));
+
+/**
+ * Binds an input to a binding, replacing whatever was bound to it before. An
+ * input only does one thing, so it's unbound from every other binding.
+ *
+ * @param bindings A player's bindings
+ * @param binding The binding to change
+ * @param input The key or button to bind
+ * @returns The updated bindings
+ */
+export const rebind = <T>(bindings: Bindings<T>, binding: Binding, input: T): Bindings<T> =>
+  mapBindings(other => (other === binding ? [input] : bindings[other].filter(bound => bound !== input)));
+
+/**
+ * Removes the inputs another player has bound, so that sharing a keyboard the
+ * other player's keys are theirs alone.
+ *
+ * @param bindings A player's bindings
+ * @param others The other player's bindings
+ * @returns The player's bindings without the other player's inputs
+ */
+export const exclusiveBindings = <T>(bindings: Bindings<T>, others: Bindings<T>): Bindings<T> => {
+  const taken = new Set(BINDINGS.flatMap(([binding]) => others[binding]));
+  return mapBindings(binding => bindings[binding].filter(input => !taken.has(input)));
+};
+
+/**
+ * @param binding A binding
+ * @returns The action pressing it makes
+ */
+export const pressAction = (binding: Binding): Action => {
+  switch (binding) {
+    case "left":
+    case "right":
+    case "softDrop":
+      return new Press(binding);
+    case "hardDrop":
+      return new HardDrop();
+    case "rotateCw":
+      return new Rotate(1);
+    case "rotateCcw":
+      return new Rotate(-1);
+    case "rotate180":
+      return new Rotate(2);
+    case "hold":
+      return new Hold();
+    case "pause":
+      return new Pause();
+    case "restart":
+      return new Restart();
+  }
+};
+
+/**
+ * @param binding A binding
+ * @returns The action releasing it makes, or null for a binding that acts on
+ * press alone
+ */
+export const releaseAction = (binding: Binding): Action | null =>
+  binding === "left" || binding === "right" || binding === "softDrop" ? new Release(binding) : null;
+
+/**
+ * Names a key for the settings screen.
+ *
+ * @param key A key code, such as "KeyA"
+ * @returns The key's name, such as "A"
+ */
+export const keyName = (key: Key): string =>
+  key
+    .replace(/^(Key|Digit)(?=.)/, "")
+    .replace(/^Arrow/, "")
+    .replace(/(Left|Right)$/, " $1")
+    .trim();
+
+/**
+ * Names a gamepad button for the settings screen.
+ *
+ * @param button A button index
+ * @returns The button's name in the standard mapping
+ */
+export const buttonName = (button: number): string => BUTTON_NAMES[button] ?? `Button ${button}`;
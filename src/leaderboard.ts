@@ -0,0 +1,147 @@
+/**
+ * A persistent leaderboard of the best runs, kept per game mode. The tables
+ * themselves are plain data updated by pure functions; only loadLeaderboard and
+ * saveLeaderboard touch a store.
+ */
+
+import { State } from "./types";
+import { KeyValueStore, readJson, writeJson } from "./storage";
+
+/** The key the leaderboard is stored under. */
+export const LEADERBOARD_KEY = "tetris.leaderboard";
+
+/** How many entries each mode's table keeps. */
+export const LEADERBOARD_SIZE = 10;
+
+/**
+ * A finished run on the leaderboard.
+ */
+export type LeaderboardEntry = Readonly<{
+  name: string;
+  score: number;
+  lines: number;
+  level: number;
+  duration: number; // game time in milliseconds
+  date: string; // ISO 8601 date the run finished
+}>;
+
+/**
+ * The best runs of each game mode, best first.
+ */
+export type Leaderboard = Readonly<Record<string, ReadonlyArray<LeaderboardEntry>>>;
+
+/**
+ * Orders entries best first. Defaults to the highest score, with the shorter
+ * run winning a tie.
+ */
+export type EntryOrder = (a: LeaderboardEntry, b: LeaderboardEntry) => number;
+
+export const byScore: EntryOrder = (a, b) => b.score - a.score || a.duration - b.duration;
+
+/** Ranks the fastest run first, for modes raced against the clock. */
+export const byTime: EntryOrder = (a, b) => a.duration - b.duration || b.score - a.score;
+
+/**
+ * Creates a leaderboard entry for a finished game.
+ *
+ * @param s The final game state
+ * @param name The player's name
+ * @param date When the game finished
+ * @returns The game's leaderboard entry
+ */
+export const entryFromState = (s: State, name: string, date: Date): LeaderboardEntry => ({
+  name: name.trim() || "Anonymous",
+  score: s.score,
+  lines: s.lines,
+  level: s.level,
+  duration: s.time,
+  date: date.toISOString(),
+});
+
+/**
+ * @param board The leaderboard
+ * @param mode The game mode
+ * @returns The mode's table, best first
+ */
+export const topEntries = (board: Leaderboard, mode: string): ReadonlyArray<LeaderboardEntry> =>
+  board[mode] ?? [];
+
+/**
+ * Checks whether a run would make it onto a mode's table.
+ *
+ * @param board The leaderboard
+ * @param mode The game mode
+ * @param entry The run to check
+ * @param size The number of entries the table keeps
+ * @param order How the mode's entries are ranked
+ * @returns True if the run would be kept
+ */
+export const qualifies = (
+  board: Leaderboard,
+  mode: string,
+  entry: LeaderboardEntry,
+  size: number = LEADERBOARD_SIZE,
+  order: EntryOrder = byScore
+): boolean => {
+  const table = topEntries(board, mode);
+  return entry.score > 0 && (table.length < size || order(entry, table[table.length - 1]) < 0);
+};
+
+/**
+ * Adds a run to a mode's table, keeping only the best entries.
+ *
+ * @param board The leaderboard
+ * @param mode The game mode
+ * @param entry The run to add
+ * @param size The number of entries the table keeps
+ * @param order How the mode's entries are ranked
+ * @returns The updated leaderboard
+ */
+export const addEntry = (
+  board: Leaderboard,
+  mode: string,
+  entry: LeaderboardEntry,
+  size: number = LEADERBOARD_SIZE,
+  order: EntryOrder = byScore
+): Leaderboard => ({
+  ...board,
+  [mode]: [...topEntries(board, mode), entry].sort(order).slice(0, size),
+});
+
+/**
+ * Checks a stored entry has every field of the right type.
+ */
+const isEntry = (value: unknown): value is LeaderboardEntry => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const { name, score, lines, level, duration, date } = value as Record<string, unknown>;
+  return (
+    typeof name === "string" &&
+    [score, lines, level, duration].every(field => typeof field === "number" && Number.isFinite(field)) &&
+    typeof date === "string"
+  );
+};
+
+/**
+ * Reads the leaderboard from a store. A missing or corrupt leaderboard reads as
+ * an empty one, and a mode's table that isn't a list, or an entry that isn't a
+ * whole run, is dropped.
+ */
+export const loadLeaderboard = (store: KeyValueStore): Leaderboard => {
+  const board = readJson<unknown>(store, LEADERBOARD_KEY, {});
+  if (typeof board !== "object" || board === null || Array.isArray(board)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(board).flatMap(([mode, table]: [string, unknown]) =>
+      Array.isArray(table) ? [[mode, table.filter(isEntry)]] : []
+    )
+  );
+};
+
+/**
+ * Writes the leaderboard to a store.
+ */
+export const saveLeaderboard = (store: KeyValueStore, board: Leaderboard): void =>
+  writeJson(store, LEADERBOARD_KEY, board);
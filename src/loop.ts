@@ -0,0 +1,68 @@
+/**
+ * The game loop's clock. The display's frames come whenever the browser draws
+ * (requestAnimationFrame), but the game steps through time in fixed frames of
+ * FRAME_MS, so it plays the same at any refresh rate. Each display frame runs
+ * however many steps have come due, and says how far the display is into the
+ * next one so the view can be drawn between the last two.
+ */
+
+import { Observable } from "rxjs";
+import { map, scan } from "rxjs/operators";
+import { FRAME_MS } from "./state";
+
+/** The most steps one display frame runs; time beyond it, as after the tab was hidden, is dropped. */
+export const MAX_STEPS = 10;
+
+/**
+ * Where the clock is up to.
+ */
+export type Clock = Readonly<{
+  time: number | null; // ms timestamp of the last display frame, null before the first
+  lag: number; // ms passed that no step has run for yet
+}>;
+
+/**
+ * What a display frame does.
+ */
+export type Frame = Readonly<{
+  steps: number; // fixed steps to run
+  alpha: number; // how far into the next step the display is, from 0 to 1
+}>;
+
+/** A clock that hasn't seen a frame yet. */
+export const createClock = (): Clock => ({ time: null, lag: 0 });
+
+/**
+ * Moves the clock on to a display frame.
+ *
+ * @param clock The clock
+ * @param now The frame's timestamp, in ms
+ * @param step The length of a step, in ms
+ * @returns The clock, and the frame's steps
+ */
+export const advanceClock = (clock: Clock, now: number, step: number = FRAME_MS): readonly [Clock, Frame] => {
+  const lag = clock.lag + (clock.time === null ? 0 : Math.max(0, now - clock.time));
+  // a microsecond's slack, so rounding doesn't put off a step that's due
+  const due = Math.floor((lag + 0.001) / step);
+  const steps = Math.min(due, MAX_STEPS);
+  const left = due > MAX_STEPS ? 0 : Math.max(0, lag - steps * step);
+  return [
+    { time: now, lag: left },
+    { steps, alpha: left / step },
+  ];
+};
+
+/**
+ * Turns display frame timestamps into fixed steps.
+ *
+ * @param time$ The timestamps of display frames, in ms
+ * @returns Each frame's steps
+ */
+export const fixedSteps = (time$: Observable<number>): Observable<Frame> =>
+  time$.pipe(
+    scan<number, readonly [Clock, Frame]>(([clock], now) => advanceClock(clock, now), [
+      createClock(),
+      { steps: 0, alpha: 0 },
+    ]),
+    map(([, frame]) => frame)
+  );
@@ -14,247 +14,173 @@
 
 import "./style.css";
 
-import { fromEvent, generate, interval, merge } from "rxjs";
-import { map, filter, scan } from "rxjs/operators";
-
-
-// import { Key, Event, State, Block, Action } from './types';
-// import { RNG } from './util';
-// import { Viewport, Move, Tick, Constants, reduceState, initialState, blockCreation, Block } from './state';
-  
-
-/** User input */
-
-/**
- * A string literal type for each key used in game control
- */
-type Key = "KeyS" | "KeyA" | "KeyD" | "KeyW" | "KeyR"; 
-
-/**
- * A 2D grid of cells, where each cell can contain either a string or null. This
- * type is used to represent the game board.
- */
-type Grid<T> = T[][];
-
-/**
- * Represents the state of the current game board.
- */
-type State = Readonly<{ 
-    gameEnd: boolean;
-    score: number;
-    highscore: number;
-    level: number;
-    spawn: boolean;
-    currentTetromino: Block;
-    nextTetromino: Block;
-    gameBoard: Grid<string | null>; // a 2d array visualisation of the game board
-  }>;
-
-/**
- * A substructure type representing a tetromino block and its properties.
- */
-type Block = Readonly<{ 
-  name: string,
-  colour: string,
-  x: number,
-  y: number,
-  rotation: number,
-  // dictates what shape the tetromino block is (see const Tetromino)
-  shapesArray: ReadonlyArray<ReadonlyArray<number>>; 
-}>
-
-/**
- * An interface representing an action that can be applied to the game state,
- * updating it. Children of Action are used to perform specific operations in 
- * response to user input.
- * 
- * NOTE: Concept of using the Action interface and apply() method was inspired
- * by Asteroids code bundle.
- */
-interface Action {
-  /**
-   * Applies the action to the current game state and returns the updated state.
-   * @param s The current game state.
-   * @return updated game state
-   */
-    apply(s: State): State;
-  }
+import { EMPTY, Observable, animationFrames, asapScheduler, from, fromEvent, interval, merge, of } from "rxjs";
+import {
+  map,
+  filter,
+  scan,
+  pairwise,
+  catchError,
+  distinctUntilChanged,
+  mergeMap,
+  observeOn,
+  share,
+  shareReplay,
+  skip,
+  startWith,
+  switchMap,
+  take,
+  takeUntil,
+  tap,
+  withLatestFrom,
+} from "rxjs/operators";
+import {
+  Action,
+  Advance,
+  BINDINGS,
+  Binding,
+  Block,
+  BotMove,
+  Constants,
+  DEFAULT_SETTINGS,
+  Effect,
+  FRAME_MS,
+  FUMEN_WIDTH,
+  GARBAGE,
+  GameConfig,
+  GamepadBindings,
+  GamepadButtons,
+  Gesture,
+  KeyBindings,
+  KeyValueStore,
+  LEADERBOARD_SIZE,
+  Leaderboard,
+  Message,
+  ModeName,
+  ModeResult,
+  Modes,
+  NetMatch,
+  PIECE_LETTERS,
+  PROTOCOL_VERSION,
+  Pause,
+  PieceSet,
+  PieceSetName,
+  PieceSets,
+  PUZZLES,
+  Playback,
+  Player,
+  Position,
+  ReadyOffer,
+  Renderer,
+  Replay,
+  Restart,
+  RulesetName,
+  Rulesets,
+  SetHandling,
+  Settings,
+  State,
+  Stats,
+  Touch,
+  Transport,
+  Versus,
+  VersusAction,
+  addEntry,
+  advancePlayback,
+  ageEffects,
+  applyAction,
+  bestPlacement,
+  bindingsOf,
+  boardScene,
+  buttonName,
+  clampHandling,
+  clampTouch,
+  colourOf,
+  createCanvasRenderer,
+  createGame,
+  createGarbage,
+  createNetMatch,
+  createPlayback,
+  createReplay,
+  createStats,
+  createSvgRenderer,
+  createVersus,
+  createWebSocketTransport,
+  decodeFumen,
+  encodeFumen,
+  encodePosition,
+  entryFromState,
+  eventEffects,
+  eventTones,
+  exclusiveBindings,
+  exportReplay,
+  fixedSteps,
+  formatTime,
+  gameEvents,
+  gamepadActions,
+  getQueue,
+  importReplay,
+  keyName,
+  loadGame,
+  loadLeaderboard,
+  loadSettings,
+  messageAction,
+  miniBoardScene,
+  modeClock,
+  modeOf,
+  objectiveText,
+  opponentState,
+  pagePosition,
+  parsePieceSet,
+  parsePuzzle,
+  pendingLines,
+  playTones,
+  positionGame,
+  positionOf,
+  positionPage,
+  pressAction,
+  pressedButtons,
+  puzzleConfig,
+  qualifies,
+  readGamepad,
+  readyUp,
+  rebindButton,
+  rebindKey,
+  receiveMessage,
+  recordAction,
+  recordStats,
+  reduceVersus,
+  releaseAction,
+  sameSnapshot,
+  saveGame,
+  saveLeaderboard,
+  saveSettings,
+  seekPlayback,
+  setPaused,
+  setSpeed,
+  shapeBounds,
+  snapshotOf,
+  statsResults,
+  statsSummary,
+  stepPlayback,
+  topEntries,
+  touchGesture,
+} from "./engine";
 
 /** Constants */
 
-const seed = Math.random();
+// a fresh seed for each new game, so no two deal the same pieces; every piece of a game is derived from it
+const newSeed = (): number => Math.floor(Math.random() * 0x80000000);
 
-/**
- * An object representing a tetromino's possible shapes, and each shapes' possible
- * rotations. Follows the Super Rotation System (SRS).
- */
-const Tetromino: Record<string, number[][][]> = {  
-  O: [
-      [
-        [0, 1, 1, 0],
-        [0, 1, 1, 0],
-        [0, 0, 0, 0],
-      ],
-    ],
-  
-  I: [
-    [
-      [1, 1, 1, 1],
-      [0, 0, 0, 0],
-      [0, 0, 0, 0],
-      [0, 0, 0, 0],
-    ],
-    [
-      [0, 0, 1, 0],
-      [0, 0, 1, 0],
-      [0, 0, 1, 0],
-      [0, 0, 1, 0],
-    ],
-    [
-      [0, 0, 0, 0],
-      [0, 0, 0, 0],
-      [1, 1, 1, 1],
-      [0, 0, 0, 0],
-    ],
-    [
-      [0, 1, 0, 0],
-      [0, 1, 0, 0],
-      [0, 1, 0, 0],
-      [0, 1, 0, 0],
-    ],
-  ],
-  
-  LL: [
-    [
-      [1, 0, 0],
-      [1, 1, 1],
-      [0, 0, 0],
-    ],
-    [
-      [0, 1, 1],
-      [0, 1, 0],
-      [0, 1, 0],
-    ],
-    [
-      [0, 0, 0],
-      [1, 1, 1],
-      [0, 0, 1],
-    ],
-    [
-      [0, 1, 0],
-      [0, 1, 0],
-      [1, 1, 0],
-    ],
-  ],
-  
-  LR: [
-    [
-      [0, 0, 1],
-      [1, 1, 1],
-      [0, 0, 0],
-    ],
-    [
-      [0, 1, 0], 
-      [0, 1, 0],
-      [0, 1, 1],
-    ],
-    [
-      [0, 0, 0],
-      [1, 1, 1],
-      [1, 0, 0],
-    ],
-    [
-      [1, 1, 0],
-      [0, 1, 0],
-      [0, 1, 0],
-    ],
-  ],
-  
-  S: [
-    [
-      [0, 1, 1],
-      [1, 1, 0],
-      [0, 0, 0],
-    ],
-    [
-      [0, 1, 0],
-      [0, 1, 1],
-      [0, 0, 1],
-    ],
-    [
-      [0, 0, 0],
-      [0, 1, 1],
-      [1, 1, 0],
-    ],
-    [
-      [1, 0, 0],
-      [1, 1, 0],
-      [0, 1, 0],
-    ],
-  ],
-  
-  Z: [
-    [
-      [1, 1, 0],
-      [0, 1, 1],
-      [0, 0, 0],
-    ],
-    [
-      [0, 0, 1],
-      [0, 1, 1],
-      [0, 1, 0],
-    ],
-    [
-      [0, 0, 0],
-      [1, 1, 0],
-      [0, 1, 1],
-    ],
-    [
-      [0, 1, 0],
-      [1, 1, 0],
-      [1, 0, 0],
-    ],
-  ],
-  
-  T: [
-    [
-      [0, 1, 0],
-      [1, 1, 1],
-      [0, 0, 0],
-    ],
-    [
-      [0, 1, 0],
-      [0, 1, 1],
-      [0, 1, 0],
-    ],
-    [
-      [0, 0, 0],
-      [1, 1, 1],
-      [0, 1, 0],
-    ],
-    [
-      [0, 1, 0],
-      [1, 1, 0],
-      [0, 1, 0],
-    ],
-  ],
-  }
-  
-  /**
-   * a constant which maps tetromino names to their respective colors.
-   */
-  export const COLOUR: { [key: string]: string }= {
-    O: "yellow",
-    I: "aqua",
-    LL: "blue",
-    LR: "orange",
-    S: "green",
-    Z: "red",
-    T: "purple",
-  };
+// time between the bot's placements while it plays
+const BOT_MS = 250;
+
+// boards with more cells than this are painted on a canvas rather than kept as SVG rects
+const CANVAS_CELLS = 400;
 
 /**
- * Dictates the dimensions of the canvas and preview canvas.
+ * Dictates the dimensions, in SVG units, of the canvas and preview canvas for
+ * the default board. The canvases grow or shrink to fit other board sizes and
+ * piece sets, and are drawn on screen at whatever size fits (see style.css).
  */
 const Viewport = {
   CANVAS_WIDTH: 200,
@@ -263,627 +189,1645 @@ const Viewport = {
   PREVIEW_HEIGHT: 80,
 } as const;
 
-const Constants = {
-  TICK_RATE_MS: 500,
-  GRID_WIDTH: 10,
-  GRID_HEIGHT: 20,
-} as const;
-
 /**
  * Defines dimensions of each individual cube in the game board grid.
  */
 const Cube = {
   WIDTH: Viewport.CANVAS_WIDTH / Constants.GRID_WIDTH,
   HEIGHT: Viewport.CANVAS_HEIGHT / Constants.GRID_HEIGHT,
-};
+} as const;
 
-// Applies an action on a given state. Returns the updated state.
-const reduceState = (s: State, action: Action) => action.apply(s); 
+// returns an SVG rectangle representing a single cube within a tetromino on the grid
+const blockCreation = (x:number, y:number, colour: String, display: SVGGraphicsElement) => { 
+    return createSvgElement(display.namespaceURI, "rect",{
+      height: `${Cube.HEIGHT}`,
+      width: `${Cube.WIDTH}`,
+      x: `${x* Cube.WIDTH}`,
+      y: `${y* Cube.HEIGHT}`,
+      style: `fill: ${colour}`,
+    });
+}
 
-/** Util */
+// returns an SVG rectangle outlining a single cube of the bot's suggested placement
+const hintCreation = (x: number, y: number, display: SVGGraphicsElement) =>
+  createSvgElement(display.namespaceURI, "rect", {
+    height: `${Cube.HEIGHT}`,
+    width: `${Cube.WIDTH}`,
+    x: `${x * Cube.WIDTH}`,
+    y: `${y * Cube.HEIGHT}`,
+    style: "fill: none; stroke: white; stroke-width: 3px",
+  });
 
 /**
- * A random number generator providing two pure functions 'hash' and 'scale' and
- * 'generateRandomValue'. 
- * 
- * NOTE: This RNG class was based off the Week 4 Applied code bundle and modified 
- * to suit this assignment.
+ * Rows in each mini-board of the hold and preview canvases: enough for the
+ * tallest piece of the set, with a row of space around it.
+ *
+ * @param config The game configuration
+ * @returns The mini-board height in cubes
  */
-abstract class RNG { 
-  // LCG using GCC's constants
-  private static m = 0x80000000; // 2**31
-  private static a = 1103515245;
-  private static c = 12345;
+const miniBoardRows = (config: GameConfig) =>
+  Math.max(
+    Viewport.PREVIEW_HEIGHT / Cube.HEIGHT,
+    ...Object.values(config.PIECES).map(piece => shapeBounds(piece.rotations[0]).height + 2)
+  );
 
-  /**
-   * Call `hash` repeatedly to generate the sequence of hashes.
-   * @param seed
-   * @returns a hash of the seed
-   */
-  public static hash = (seed: number) => (RNG.a * seed + RNG.c) % RNG.m;
+/** Rendering (side effects) */
 
-  /**
-   * Takes hash value and scales it to the range 
-   */
-  public static scale = (hash: number, max: number) => 
-  Math.floor(((max * hash) / (RNG.m)));
+/**
+ * Displays a SVG element on the canvas. The overlays come after the board in
+ * the page, so they're drawn over it.
+ * @param elem SVG element to display
+ */
+const show = (elem: SVGGraphicsElement) => {
+  if (elem.getAttribute("visibility") !== "visible") {
+    elem.setAttribute("visibility", "visible");
+  }
+};
 
-  public static generateRandomValue = (seed: number, 
-    max: number) => RNG.scale(RNG.hash(seed), max)
-}
+/**
+ * Hides a SVG element on the canvas.
+ * @param elem SVG element to hide
+ */
+const hide = (elem: SVGGraphicsElement) => {
+  if (elem.getAttribute("visibility") !== "hidden") {
+    elem.setAttribute("visibility", "hidden");
+  }
+};
 
 /**
- * Retrieves the coordinates of cubes within a tetromino shape on the canvas.
+ * Creates an SVG element with the given properties.
+ *
+ * See https://developer.mozilla.org/en-US/docs/Web/SVG/Element for valid
+ * element names and properties.
  *
- * @param coords the initial coordinates of the tetromino.
- * @param shapesArray the array representing the tetromino's shape.
- * @returns an array of x, y coordinate pairs for non-null cubes.
+ * @param namespace Namespace of the SVG element
+ * @param name SVGElement name
+ * @param props Properties to set on the SVG element
+ * @returns SVG element
  */
-const getCoordinates = (
-  coords: number[],
-  shapesArray: ReadonlyArray<ReadonlyArray<number>>): number[][] => {
-  // map the shape array to create an array of coordinate pairs for cubes.
-  const coordinates = shapesArray
-    .map((row, rowIndex) => {
-      return row.map((value, colIndex) => {
-        // checks if the value is 1 in the shape array and calculates its coordinates.
-        return value === 1 ? [coords[0] + colIndex, coords[1] + rowIndex] : null;
-      });
-    })
-    .flat() // flattens the nested arrays to get an array of pairs.
-    .filter(coordinate => coordinate !== null); // removes all null values
-
-  return <number[][]>coordinates;
-}
+const createSvgElement = (
+  namespace: string | null,
+  name: string,
+  props: Record<string, string> = {}
+) => {
+  const elem = document.createElementNS(namespace, name) as SVGElement;
+  Object.entries(props).forEach(([k, v]) => elem.setAttribute(k, v));
+  return elem;
+};
 
 /**
- * Takes properties required to spawn a block. 
- * 
- * @param array an array representing the shape of a tetromino (see Tetromino).
- * @param colour the colour of a specific tetromino
- * @returns a block object representing a tetromino
+ * The elements a player's game is drawn into. Player two's elements have the
+ * same ids as player one's with a 2 on the end, and leave out the fields only
+ * player one shows.
  */
-function spawnBlock(array: Array<Array<number>>, colour: string, name: string): Block { 
-  return {
-    name: name,
-    colour: colour,
-    x: 3, // middle of canvas
-    y: -2, // block spawns above canvas height
-    rotation: 0,
-    shapesArray: array
-}}
+type BoardView = Readonly<{
+  svg: SVGGraphicsElement & HTMLElement;
+  preview: SVGGraphicsElement & HTMLElement;
+  holdPreview: SVGGraphicsElement & HTMLElement;
+  gameover: SVGGraphicsElement & HTMLElement;
+  pauseOverlay: SVGGraphicsElement & HTMLElement;
+  hintLayer: SVGGraphicsElement | null;
+  boardCanvas: SVGForeignObjectElement;
+  board: Renderer; // keeps a rect per cell
+  canvasBoard: Renderer; // paints large boards
+  queue: Renderer;
+  hold: Renderer;
+  gameOverTitle: SVGTextElement;
+  resultsList: HTMLElement;
+  modeText: HTMLElement | null;
+  timeText: HTMLElement | null;
+  levelText: HTMLElement | null;
+  linesText: HTMLElement | null;
+  scoreText: HTMLElement | null;
+  highScoreText: HTMLElement | null;
+  incomingText: HTMLElement | null;
+}>;
 
 /**
- * Uses the spawnBlock function and RNG class to generate a random tetromino based
- * on a given seed.
- * @param seed 
- * @returns a random tetromino block object
+ * Finds the elements of a player's view.
+ *
+ * @param suffix The suffix of the player's element ids: "" for player one, "2" for player two
+ * @returns The player's view
  */
-const generateRandomTetromino = (seed: number): Block  => {
-    // retrieves tetrominos' shapes, names, and colors.
-  const tetrominoShape = Object.values(Tetromino);
-  const tetrominoName = Object.keys(Tetromino);
-  const tetrominoColour = Object.keys(COLOUR);
-
-  // generates a random index from [0,6]
-  const randomIndex = RNG.generateRandomValue(seed, 7);
-
-  // spawns random tetrominio with random shape and its respective colour and name.
-  return spawnBlock(tetrominoShape[randomIndex][0], tetrominoColour[randomIndex], 
-    tetrominoName[randomIndex]); 
-}
-
-/** State functions */
+const boardView = (suffix: string): BoardView => {
+  const element = <T>(id: string) => document.querySelector(`#${id}${suffix}`) as T;
+  const boardCanvas = element<SVGForeignObjectElement>("boardCanvas");
+  return {
+    svg: element("svgCanvas"),
+    preview: element("svgPreview"),
+    holdPreview: element("svgHold"),
+    gameover: element("gameOver"),
+    pauseOverlay: element("pauseOverlay"),
+    hintLayer: element("hintLayer"),
+    boardCanvas,
+    board: createSvgRenderer(element("boardLayer"), Cube.WIDTH),
+    canvasBoard: createCanvasRenderer(boardCanvas.querySelector("canvas")!, Cube.WIDTH),
+    queue: createSvgRenderer(element("svgPreview"), Cube.WIDTH),
+    hold: createSvgRenderer(element("svgHold"), Cube.WIDTH),
+    gameOverTitle: element("gameOverTitle"),
+    resultsList: element("resultsList"),
+    modeText: element("modeText"),
+    timeText: element("timeText"),
+    levelText: element("levelText"),
+    linesText: element("linesText"),
+    scoreText: element("scoreText"),
+    highScoreText: element("highScoreText"),
+    incomingText: element("incomingText"),
+  };
+};
 
 /**
- *  Properties of the initial state of the canvas.
+ * Sets the text of a sidebar field, if the view has it and it has changed.
+ * @param elem The field
+ * @param text The text to show
  */
-const initialState: State = {
-  gameEnd: false,
-  score: 0,
-  highscore: 0,
-  level: 0,
-  spawn: true,
-  currentTetromino: generateRandomTetromino(seed),
-  nextTetromino: generateRandomTetromino(seed + 1), 
-  // represents the gameboard as a 2d array, initially filled with null values
-  gameBoard: Array.from( 
-  { length: Constants.GRID_HEIGHT},
-  () => Array(Constants.GRID_WIDTH).fill(null), 
-)} as const;
-
-// returns an SVG rectangle representing a single cube within a tetromino on the grid
-const blockCreation = (x:number, y:number, colour: String, display: SVGGraphicsElement) => { 
-    return createSvgElement(display.namespaceURI, "rect",{
-      height: `${Cube.HEIGHT}`,
-      width: `${Cube.WIDTH}`,
-      x: `${x* Cube.WIDTH}`,
-      y: `${y* Cube.HEIGHT}`,
-      style: `fill: ${colour}`,
-    });
-}
+const setText = (elem: HTMLElement | null, text: string) => {
+  if (elem && elem.textContent !== text) {
+    elem.textContent = text;
+  }
+};
 
 /**
- * Adds the current tetromino's cubes to the state of the game board.
- * @param state The current game state
- * @returns An updated game state with the current tetromino's cubes added.
+ * Sizes the canvases to fit a game's board and piece set, keeping the
+ * overlays centred on the board. Each canvas's view box is set rather than its
+ * size, so the page can scale it to fit the screen.
+ *
+ * @param view The player's view
+ * @param config The game configuration
  */
-const addCubesToState = (state: State): State => {
-  // takes the color of the current tetromino
-  const tetrominoColour = state.currentTetromino.colour;
-  
-  // gets a reference to the game board grid.
-  const grid = state.gameBoard;
-
-  // calculates the coordinates of the current tetromino's cubes.
-  const blockCoords = [state.currentTetromino.x, state.currentTetromino.y];
-  const coordinates = getCoordinates(blockCoords, state.currentTetromino.shapesArray);
-
-  // update the game board by placing the current tetromino's color at its coordinates.
-  const updatedGrid = grid.map((row, rowIndex) =>
-    row.map((cell, colIndex) => {
-      if (coordinates.some(([x, y]) => x === colIndex && y === rowIndex)) {
-        return tetrominoColour;
-      }
-      return cell;
-    })
+const resize = (view: BoardView, config: GameConfig) => {
+  const { svg, preview, holdPreview, gameover, pauseOverlay, boardCanvas } = view;
+  const width = config.GRID_WIDTH * Cube.WIDTH;
+  const height = config.GRID_HEIGHT * Cube.HEIGHT;
+  const miniBoardHeight = miniBoardRows(config) * Cube.HEIGHT;
+
+  svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  svg.style.setProperty("--board-width", `${width}px`);
+  svg.style.setProperty("--aspect-ratio", `${width / height}`);
+  holdPreview.setAttribute("viewBox", `0 0 ${Viewport.PREVIEW_WIDTH} ${miniBoardHeight}`);
+  preview.setAttribute("viewBox", `0 0 ${Viewport.PREVIEW_WIDTH} ${config.NEXT_PIECES * miniBoardHeight}`);
+  preview.style.display = config.NEXT_PIECES > 0 ? "" : "none";
+  [boardCanvas, boardCanvas.querySelector("canvas")!].forEach(elem => {
+    elem.setAttribute("width", `${width}`);
+    elem.setAttribute("height", `${height}`);
+  });
+  [gameover, pauseOverlay].forEach(overlay =>
+    overlay.setAttribute(
+      "transform",
+      `translate(${(width - Viewport.CANVAS_WIDTH) / 2}, ${(height - Viewport.CANVAS_HEIGHT) / 2})`
+    )
   );
-  console.log(updatedGrid)
-  return { ...state, gameBoard: updatedGrid };
-}
+};
 
 /**
- * Checks if the current tetromino collides with the floor of the game board.
- * @param state The current game state.
- * @returns True if collision with the floor is detected, false otherwise.
+ * Renders the current state to the sidebar and the hold and preview canvases.
+ * The board is drawn each display frame instead (see drawBoard).
+ *
+ * In MVC terms, this updates the View using the Model.
+ *
+ * @param view The player's view
+ * @param s Current state
  */
-const newCollisionWithFloor = (state: State): boolean => {
-  // get the coordinates of the current tetromino's cubes.
-  const blockCoords = [state.currentTetromino.x, state.currentTetromino.y];
-  const coordinates = getCoordinates(blockCoords, state.currentTetromino.shapesArray);
-
-  // check if any block's y-coordinate is greater than or equal to the game board's height.
-  if (coordinates.some(([_, y]) => y >= state.gameBoard.length)) {
-    return true; 
-  }
-  
-  return false; 
-}
+const render = (view: BoardView, s: State) => {
+  setText(view.highScoreText, `${s.highscore}`);
+  setText(view.scoreText, `${s.score}`);
+  setText(view.levelText, `${s.level}`);
+  setText(view.linesText, `${s.lines}`);
+  setText(view.modeText, modeOf(s).title);
+  setText(view.timeText, formatTime(modeClock(s)));
+  setText(view.incomingText, `${pendingLines(s.incoming)}`);
+
+  // renders the queue in the preview canvas, one mini-board per piece
+  const columns = Viewport.PREVIEW_WIDTH / Cube.WIDTH;
+  view.queue.draw(
+    miniBoardScene(
+      getQueue(s).map(piece => [piece, colourOf(s.config.PIECES, piece.colour)] as const),
+      columns,
+      miniBoardRows(s.config)
+    )
+  );
+
+  // renders the held tetromino in the hold canvas, greyed out while hold is unavailable
+  const held = s.holdTetromino;
+  view.hold.draw(
+    miniBoardScene(
+      held ? [[held, s.canHold ? colourOf(s.config.PIECES, held.colour) : "grey"]] : [],
+      columns,
+      miniBoardRows(s.config)
+    )
+  );
+};
 
 /**
- * Checks if the current tetromino collides with other blocks on the game board.
- * @param s The current game state.
- * @returns True if collision with other blocks is detected, false otherwise.
+ * Draws a board for a display frame, with the falling piece between the last
+ * two steps. Large boards are painted on the canvas, and the SVG rects are
+ * left empty.
+ *
+ * @param view The player's view
+ * @param previous The state at the step before, if any
+ * @param s The state at the latest step
+ * @param alpha How far the display is between the two steps
+ * @param effects The lock flashes and trails showing
  */
-const blockCollision = (s: State): boolean => {
-  // gets the coordinates of the current tetromino's cubes.
-  const cubeCoords = getCoordinates(
-    [s.currentTetromino.x, s.currentTetromino.y],
-    s.currentTetromino.shapesArray
-  ).filter(([_, y]) => y >= 0); // filters out blocks above the game board.
-
-  // checks if any block's position overlaps with a non-null cell on the game board.
-  const collision = cubeCoords.some(([y, x]) => s.gameBoard[x][y] !== null);
-  return collision;
-}
+const drawBoard = (
+  view: BoardView,
+  previous: State | null,
+  s: State,
+  alpha: number,
+  effects: ReadonlyArray<Effect> = []
+) => {
+  const scene = boardScene(s, previous, alpha, effects);
+  const [active, idle] =
+    s.config.GRID_WIDTH * s.config.GRID_HEIGHT > CANVAS_CELLS
+      ? [view.canvasBoard, view.board]
+      : [view.board, view.canvasBoard];
+  idle.draw(new Map());
+  active.draw(scene);
+};
 
 /**
- * checks if the current tetromino collides with the sides of the game board.
- * @param s The current game state.
- * @returns True if collision with the sides is detected, false otherwise.
+ * Fills a description list with labelled results.
+ *
+ * @param list The list
+ * @param results The results, in order
  */
-const sideCollision = (s: State): boolean => {
-  // get the coordinates of the current tetromino's cubes.
-  const cubeCoords = getCoordinates(
-    [s.currentTetromino.x, s.currentTetromino.y],
-    s.currentTetromino.shapesArray
+const renderList = (list: HTMLElement, results: ReadonlyArray<ModeResult>) =>
+  list.replaceChildren(
+    ...results.flatMap(({ label, value }) => {
+      const term = document.createElement("dt");
+      const definition = document.createElement("dd");
+      term.textContent = label;
+      definition.textContent = value;
+      return [term, definition];
+    })
   );
 
-  // check if any active block's x-coordinate is outside the game board boundaries.
-  if (cubeCoords.some(([x, y]) => x < 0 || x * Cube.WIDTH >= Viewport.CANVAS_WIDTH)) {
-    return true;
-  }
-
-  return false; 
-}
 /**
- * Checks if the current tetromino has exceeded the ceiling of the game board,
- * thus ending the game.
+ * Fills in the game over screen with the mode's results.
  *
- * @param s The game state
- * @returns True if there is a collision with the top boundary, false otherwise
+ * @param view The player's view
+ * @param s Final state
+ * @param title The game over screen's heading
+ * @param stats Statistics to show after the mode's results
  */
-const gameEnd = (s: State): boolean => {
-  const cubeCoords = getCoordinates(
-    [s.currentTetromino.x, s.currentTetromino.y],
-    s.currentTetromino.shapesArray
-    );
-  // check if any block in the current tetromino has a y-coordinate less than 0
-  const collision = cubeCoords.some(([_, y]) => y < 0);
-  return collision;
+const renderResults = (view: BoardView, s: State, title: string, stats: ReadonlyArray<ModeResult>) => {
+  view.gameOverTitle.textContent = title;
+  renderList(view.resultsList, [...modeOf(s).results(s), ...stats]);
 };
 
 /**
- * Finds the indices of full rows in the game board.
+ * Renders a state along with the game over and pause overlays.
  *
- * @param gameBoard The game board represented as a 2D grid
- * @returns An array of row indices completely filled with cubes
+ * @param view The player's view
+ * @param s Current state
+ * @param title The game over screen's heading, once the game has ended
+ * @param stats Statistics to show with the results, once the game has ended
  */
-const fullRowIndices = (gameBoard: Grid<string | null>): number[] => {
-  return gameBoard
-    .map((row, index) => (row.every(value => value !== null) ? index : 1))
-    .filter(index => index !== 1);
+const display = (
+  view: BoardView,
+  s: State,
+  title = s.config.PUZZLE ? (s.goalReached ? "Solved!" : "Failed") : s.goalReached ? "Complete!" : "Game Over",
+  stats: ReadonlyArray<ModeResult> = []
+) => {
+  render(view, s);
+  if (s.gameEnd) {
+    renderResults(view, s, title, stats);
+    show(view.gameover);
+  } else {
+    hide(view.gameover);
+  }
+  if (s.paused) {
+    show(view.pauseOverlay);
+  } else {
+    hide(view.pauseOverlay);
+  }
 };
 
 /**
- * Removes rows with specified indices from the game board.
+ * Formats a duration as minutes and seconds.
  *
- * @param gameBoard The game board represented as a 2D grid
- * @param rowIndices An array of row indices to be removed
- * @returns A new game board with specified rows removed
+ * @param ms The duration in milliseconds
+ * @returns The duration as m:ss
  */
-const removeLines = (gameBoard: Grid<string | null>, rowIndices: number[]): Grid<string | null> => {
-  return gameBoard.filter((_, index) => !rowIndices.includes(index));
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${`${seconds % 60}`.padStart(2, "0")}`;
 };
 
 /**
- * Adds empty rows to the top of the game board so cubes don't float if line
- * below is cleared.
+ * Describes where an online match is up to, for the status line.
  *
- * @param rowCount The number of empty rows to add
- * @param width The width of the game board (number of columns)
- * @returns A new game board with empty rows added to the top
+ * @param m The session
+ * @returns The status text
  */
-const addEmptyRows = (rowCount: number, width: number): Grid<string | null> => {
-  const emptyRow = Array(width).fill(null);
-  return Array.from({ length: rowCount }, () => [...emptyRow]);
+const netStatusText = (m: NetMatch) => {
+  switch (m.phase) {
+    case "joining":
+      return "Joining room...";
+    case "waiting":
+      return "Waiting for an opponent";
+    case "lobby":
+      return m.ready
+        ? `Waiting for ${m.opponentName} to ready up`
+        : m.opponentReady
+        ? `${m.opponentName} is ready`
+        : `${m.opponentName} has joined`;
+    case "playing":
+      return `Playing ${m.opponentName}`;
+    case "over":
+      return m.opponentName ? "Match over. Ready for another?" : "Your opponent left";
+    case "closed":
+      return m.error ?? "Disconnected";
+  }
 };
 
 /**
- * Clears full rows from the game board and updates the game state.
+ * Offers a text file for the user to download.
  *
- * @param s The game state
- * @returns The updated game state after clearing full rows
+ * @param filename Name of the downloaded file
+ * @param contents Contents of the file
  */
-const clearRows = (s: State) => {
-  const { gameBoard } = s;
-  const fullLines = fullRowIndices(gameBoard);
-  const gameBoardWithoutLines = removeLines(gameBoard, fullLines);
-  const rowCountToAdd = Constants.GRID_HEIGHT - gameBoardWithoutLines.length;
-  const newRows = addEmptyRows(rowCountToAdd, Constants.GRID_WIDTH);
-  
-  const updatedState = {
-    ...s,
-    gameBoard: newRows.concat(gameBoardWithoutLines), // add empty rows to the top
-    score: s.score + fullLines.length, // updates the score based on cleared rows
-  };
-  
-  return updatedState;
+const download = (filename: string, contents: string) => {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(new Blob([contents], { type: "application/json" }));
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(link.href);
 };
 
 /**
- * A class representing an actions that advance the game state in one tick.
+ * This is the function called on page load. Your main game loop
+ * should be called here.
  */
-class Tick implements Action {
+export function main() {
+  // Canvases and sidebars, one set per player
+  const playerOne = boardView("");
+  const playerTwo = boardView("2");
+  const hintLayer = playerOne.hintLayer as SVGGraphicsElement;
+  const container = document.querySelector("#main") as HTMLElement;
+  const playerTwoSection = document.querySelector("#playerTwo") as HTMLElement;
+  const touchPad = document.querySelector("#touchPad") as HTMLElement;
+  [playerOne, playerTwo].forEach(view => resize(view, Constants));
+
+  // Mode select screen
+  const modeSelect = document.querySelector("#modeSelect") as HTMLElement;
+  const modeList = document.querySelector("#modeList") as HTMLElement;
+  const modeButton = document.querySelector("#changeMode") as HTMLButtonElement;
+  const widthInput = document.querySelector("#gridWidth") as HTMLInputElement;
+  const heightInput = document.querySelector("#gridHeight") as HTMLInputElement;
+  const pieceSetSelect = document.querySelector("#pieceSet") as HTMLSelectElement;
+  const nextPiecesInput = document.querySelector("#nextPieces") as HTMLInputElement;
+  const rulesetSelect = document.querySelector("#ruleset") as HTMLSelectElement;
+  const customPiecesInput = document.querySelector("#customPieces") as HTMLInputElement;
+  const versusButton = document.querySelector("#versus") as HTMLButtonElement;
+  const puzzleList = document.querySelector("#puzzleList") as HTMLElement;
+  const importPuzzleInput = document.querySelector("#importPuzzle") as HTMLInputElement;
+
+  // Settings screen
+  const settingsScreen = document.querySelector("#settings") as HTMLElement;
+  const settingsButton = document.querySelector("#openSettings") as HTMLButtonElement;
+  const bindingRows = document.querySelector("#bindingRows") as HTMLElement;
+  const handlingOptions = document.querySelector("#handlingOptions") as HTMLElement;
+  const dasInput = document.querySelector("#das") as HTMLInputElement;
+  const arrInput = document.querySelector("#arr") as HTMLInputElement;
+  const softDropInput = document.querySelector("#softDropFactor") as HTMLInputElement;
+  const touchOptions = document.querySelector("#touchOptions") as HTMLElement;
+  const tapMsInput = document.querySelector("#tapMs") as HTMLInputElement;
+  const tapDistanceInput = document.querySelector("#tapDistance") as HTMLInputElement;
+  const swipeSpeedInput = document.querySelector("#swipeSpeed") as HTMLInputElement;
+  const softDropDistanceInput = document.querySelector("#softDropDistance") as HTMLInputElement;
+  const buttonPadInput = document.querySelector("#buttonPad") as HTMLInputElement;
+  const soundOptions = document.querySelector("#soundOptions") as HTMLElement;
+  const soundInput = document.querySelector("#sound") as HTMLInputElement;
+  const resetSettingsButton = document.querySelector("#resetSettings") as HTMLButtonElement;
+  const closeSettingsButton = document.querySelector("#closeSettings") as HTMLButtonElement;
+
+  // Board editor
+  const editorScreen = document.querySelector("#editor") as HTMLElement;
+  const editorButton = document.querySelector("#openEditor") as HTMLButtonElement;
+  const editorCanvas = document.querySelector("#editorCanvas") as SVGGraphicsElement;
+  const palette = document.querySelector("#palette") as HTMLElement;
+  const editorPieces = document.querySelector("#editorPieces") as HTMLElement;
+  const currentInput = document.querySelector("#editorCurrent") as HTMLInputElement;
+  const holdInput = document.querySelector("#editorHold") as HTMLInputElement;
+  const queueInput = document.querySelector("#editorQueue") as HTMLInputElement;
+  const previousPageButton = document.querySelector("#previousPage") as HTMLButtonElement;
+  const nextPageButton = document.querySelector("#nextPage") as HTMLButtonElement;
+  const pageNumber = document.querySelector("#pageNumber") as HTMLElement;
+  const fumenInput = document.querySelector("#fumenText") as HTMLInputElement;
+  const clearBoardButton = document.querySelector("#clearBoard") as HTMLButtonElement;
+  const copyLinkButton = document.querySelector("#copyLink") as HTMLButtonElement;
+  const practiceButton = document.querySelector("#practice") as HTMLButtonElement;
+  const closeEditorButton = document.querySelector("#closeEditor") as HTMLButtonElement;
+
+  // Online play
+  const onlineForm = document.querySelector("#online") as HTMLFormElement;
+  const relayUrlInput = document.querySelector("#relayUrl") as HTMLInputElement;
+  const roomInput = document.querySelector("#room") as HTMLInputElement;
+  const playerNameInput = document.querySelector("#playerName") as HTMLInputElement;
+  const netplayPanel = document.querySelector("#netplay") as HTMLElement;
+  const netStatus = document.querySelector("#netStatus") as HTMLElement;
+  const readyButton = document.querySelector("#ready") as HTMLButtonElement;
+  const leaveButton = document.querySelector("#leave") as HTMLButtonElement;
+
+  // Replay controls
+  const exportButton = document.querySelector("#exportReplay") as HTMLButtonElement;
+  const importInput = document.querySelector("#importReplay") as HTMLInputElement;
+  const playbackControls = document.querySelector("#playbackControls") as HTMLElement;
+  const playPauseButton = document.querySelector("#playPause") as HTMLButtonElement;
+  const stepButton = document.querySelector("#step") as HTMLButtonElement;
+  const speedSelect = document.querySelector("#speed") as HTMLSelectElement;
+  const seekInput = document.querySelector("#seek") as HTMLInputElement;
+  const exitButton = document.querySelector("#exitPlayback") as HTMLButtonElement;
+
+  // Saved game controls
+  const saveButton = document.querySelector("#saveGame") as HTMLButtonElement;
+  const loadButton = document.querySelector("#loadGame") as HTMLButtonElement;
+
+  // Puzzle controls
+  const puzzlePanel = document.querySelector("#puzzlePanel") as HTMLElement;
+  const statsPanel = document.querySelector("#stats") as HTMLDetailsElement;
+  const statsList = document.querySelector("#statsList") as HTMLElement;
+  const objectiveLabel = document.querySelector("#objective") as HTMLElement;
+  const retryButton = document.querySelector("#retry") as HTMLButtonElement;
+
+  // Bot controls
+  const autoplayInput = document.querySelector("#autoplay") as HTMLInputElement;
+  const hintInput = document.querySelector("#hint") as HTMLInputElement;
+
+  // Leaderboard
+  const nameEntry = document.querySelector("#nameEntry") as SVGGraphicsElement &
+    HTMLElement;
+  const nameForm = document.querySelector("#nameForm") as HTMLFormElement;
+  const nameInput = document.querySelector("#nameInput") as HTMLInputElement;
+  const leaderboardList = document.querySelector("#leaderboardList") as HTMLElement;
+  
+  const store: KeyValueStore = window.localStorage;
+
   /**
-   * Applies the tick action to the game state.
+   * Creates a new game in the given mode. Each mode's high score carries over
+   * between visits through its leaderboard table.
    *
-   * @param s The current game state
-   * @returns The updated game state after a tick
+   * @param mode The game mode
+   * @param config The board size and piece set to play with
+   * @returns The initial state of the game
    */
-  apply = (s: State): State => {
+  const newGame = (mode: ModeName, config: Partial<GameConfig>): State => ({
+    ...createGame(newSeed(), { ...config, MODE: mode }),
+    highscore: Math.max(0, ...topEntries(loadLeaderboard(store), mode).map(entry => entry.score)),
+  });
 
-    const currentBlock = s.currentTetromino;
+  /** User input */
 
-    // game has ended, no need for further movement
-    if (s.gameEnd) {
-      return s;
-    }
+  // key repeats are ignored: the engine handles auto shift itself (see handling.ts).
+  // so is typing into a text field, such as the leaderboard name entry, and
+  // everything while the settings screen or board editor is open
+  const keydown$ = fromEvent<KeyboardEvent>(document, "keydown").pipe(
+    filter(
+      ({ repeat, target }) =>
+        !repeat && !(target instanceof HTMLInputElement) && settingsScreen.hidden && editorScreen.hidden
+    )
+  );
+  const keyup$ = fromEvent<KeyboardEvent>(document, "keyup");
+
+  // the actions a player's keys make, through their bindings: every binding
+  // acts when one of its keys goes down, and held controls let go when it
+  // comes up
+  const keyControls = (keys: KeyBindings) =>
+    merge(
+      keydown$.pipe(mergeMap(({ code }) => bindingsOf(keys, code).map(pressAction))),
+      keyup$.pipe(mergeMap(({ code }) => bindingsOf(keys, code).flatMap(binding => releaseAction(binding) ?? [])))
+    );
 
-    // updates the tetrimino's y position so it moves down in each tick
-    const newTetromino = {
-      ...currentBlock,
-      y: currentBlock.y + 1, 
-    };
+  // the game pauses itself whenever the page is hidden
+  const hidden$ = fromEvent(document, "visibilitychange").pipe(
+    filter(() => document.hidden),
+    map(() => new Pause(true))
+  );
 
-    const newState = { ...s, currentTetromino: newTetromino};
-    
-    // updates high score if current score is greater
-    if (s.score > s.highscore) {
-      newState.highscore = s.score
-    }
+  // and while the mode select screen, settings screen or board editor is open
+  const modeMenu$ = merge(
+    fromEvent(modeButton, "click"),
+    fromEvent(settingsButton, "click"),
+    fromEvent(editorButton, "click")
+  ).pipe(map(() => new Pause(true)));
+
+  // whether a bot checkbox is ticked, emitted whenever it changes. The box gives
+  // up focus once clicked, or the keyboard would be ignored while it has it
+  const fromCheckbox = (input: HTMLInputElement) =>
+    fromEvent(input, "change").pipe(
+      tap(() => input.blur()),
+      map(() => input.checked),
+      startWith(input.checked)
+    );
 
-    if (newCollisionWithFloor(newState) || blockCollision(newState)) {
-      if (gameEnd(s)) return {...s, gameEnd: true}
+  // a puzzle starts over from its set board
+  const retry$ = fromEvent(retryButton, "click").pipe(
+    tap(() => retryButton.blur()),
+    map(() => new Restart())
+  );
 
-      // add cubes to the game state, then update the state with the next tetromino
-      const addedCubes = addCubesToState(s);
-      const updatedState = {
-        ...addedCubes,
-        nextTetromino: generateRandomTetromino(Date.now()),
-        currentTetromino: s.nextTetromino,
-        highscore: newState.highscore
-      };
+  // while autoplay is on, the bot places a piece at a steady pace
+  const bot$ = fromCheckbox(autoplayInput).pipe(
+    switchMap(on => (on ? interval(BOT_MS).pipe(map(() => new BotMove())) : EMPTY))
+  );
 
-      // calls clearRows to clear full rows, update the game board and score
-      return clearRows(updatedState);
-    }
+  /** Observables */
 
-    return newState;
-  };
-}
+  /**
+   * Determines the rate of time steps. The display's frames are clocked by
+   * the browser, and each runs however many fixed steps of FRAME_MS have come
+   * due since the last, so the game plays the same at any refresh rate.
+   */
+  const frame$ = fixedSteps(animationFrames().pipe(map(({ timestamp }) => timestamp))).pipe(share());
+
+  // each step advances the game clock, and the engine works out gravity,
+  // auto shift and lock delay from it
+  const tick$ = frame$.pipe(
+    mergeMap(({ steps }) => Array.from({ length: steps }, () => new Advance(FRAME_MS))),
+    share()
+  );
+
+  // each frame's reading of a gamepad, with the reading before it
+  const fromGamepad = (index: number) =>
+    frame$.pipe(
+      map(() => readGamepad(index)),
+      startWith<GamepadButtons>([]),
+      pairwise()
+    );
+
+  // the actions a gamepad's buttons make, through the same bindings as keys.
+  // Like the keyboard, the pad is ignored while the settings screen is open
+  const gamepadControls = (index: number, buttons: GamepadBindings) =>
+    fromGamepad(index).pipe(
+      filter(() => settingsScreen.hidden),
+      mergeMap(([previous, current]) => gamepadActions(previous, current, buttons))
+    );
 
-/**
- * Represents an action to move the current tetromino by a specified position (x and y offsets).
- */
-class Move implements Action {
   /**
-   * Constructs a Move action with the given position offsets, as apply requires specific 
-   * position offsets (x and y) to determine how the tetromino should be moved.
+   * Locates a pointer on a board in cells from its top left, however large
+   * the board is drawn on screen.
    *
-   * @param pos The position offsets (x and y) to apply to the tetromino
+   * @param svg The board's canvas
+   * @param phase Whether the pointer went down, moved or went up
+   * @param e The pointer event
+   * @returns The touch
    */
-  constructor(public readonly pos: { x: number; y: number }) {}
+  const touchOf = (svg: SVGGraphicsElement, phase: Touch["phase"], e: PointerEvent): Touch => {
+    const { left, top } = svg.getBoundingClientRect();
+    const scale = (svg as SVGSVGElement).viewBox.baseVal.width / svg.clientWidth;
+    return {
+      phase,
+      x: ((e.clientX - left - svg.clientLeft) * scale) / Cube.WIDTH,
+      y: ((e.clientY - top - svg.clientTop) * scale) / Cube.HEIGHT,
+      time: e.timeStamp,
+    };
+  };
+
+  // fingers and pens on player one's board, as touches. The mouse is left
+  // alone, as are touches on the name entry form
+  const fromPointer = (type: string, phase: Touch["phase"]) =>
+    fromEvent<PointerEvent>(playerOne.svg, type).pipe(
+      filter(e => e.pointerType !== "mouse" && e.isPrimary),
+      map(e => [phase, e] as const)
+    );
+  const touch$ = merge(
+    fromPointer("pointerdown", "start").pipe(
+      filter(([, e]) => !(e.target instanceof Element && e.target.closest("foreignObject")))
+    ),
+    fromPointer("pointermove", "move"),
+    fromPointer("pointerup", "end"),
+    fromPointer("pointercancel", "end")
+  ).pipe(map(([phase, e]) => touchOf(playerOne.svg, phase, e)));
+
+  // the actions the on-screen buttons make, through the same bindings as keys.
+  // A held button keeps the pointer, so it's released wherever it lets go
+  const padButton = (e: PointerEvent) => (e.target as HTMLElement).closest<HTMLButtonElement>("button[data-binding]");
+  const buttonPad$ = merge(
+    fromEvent<PointerEvent>(touchPad, "pointerdown").pipe(
+      filter(e => padButton(e) !== null),
+      tap(e => {
+        e.preventDefault();
+        padButton(e)!.setPointerCapture(e.pointerId);
+      }),
+      map(e => pressAction(padButton(e)!.dataset.binding as Binding))
+    ),
+    merge(fromEvent<PointerEvent>(touchPad, "pointerup"), fromEvent<PointerEvent>(touchPad, "pointercancel")).pipe(
+      filter(e => padButton(e) !== null),
+      map(e => releaseAction(padButton(e)!.dataset.binding as Binding)),
+      filter((action): action is Action => action !== null)
+    )
+  );
+
+  /** Settings */
 
   /**
-   * Applies the move action to the game state.
+   * Fills in the settings screen: a button for each binding of each player's
+   * keys and the gamepad, naming what's bound to it, the handling values and
+   * the touch controls.
    *
-   * @param s The current game state
-   * @returns The updated game state after applying the move
+   * @param settings The settings
    */
-  apply = (s: State): State => {
-    // game has ended, no more movement should be possible 
-    if (s.gameEnd) {
-      return s;
-    }
+  const renderSettings = (settings: Settings) => {
+    const cell = (device: string, binding: Binding, names: ReadonlyArray<string>) => {
+      const button = document.createElement("button");
+      button.dataset.device = device;
+      button.dataset.binding = binding;
+      button.textContent = names.join(", ") || "-";
+      const td = document.createElement("td");
+      td.append(button);
+      return td;
+    };
 
-    const currentTetromino = s.currentTetromino;
+    bindingRows.replaceChildren(
+      ...BINDINGS.map(([binding, label]) => {
+        const row = document.createElement("tr");
+        const name = document.createElement("th");
+        name.textContent = label;
+        row.append(
+          name,
+          cell("0", binding, settings.keys[0][binding].map(keyName)),
+          cell("1", binding, settings.keys[1][binding].map(keyName)),
+          cell("gamepad", binding, settings.gamepad[binding].map(buttonName))
+        );
+        return row;
+      })
+    );
+    dasInput.value = `${settings.handling.DAS_MS}`;
+    arrInput.value = `${settings.handling.ARR_MS}`;
+    softDropInput.value = `${settings.handling.SOFT_DROP_FACTOR}`;
+    tapMsInput.value = `${settings.touch.TAP_MS}`;
+    tapDistanceInput.value = `${settings.touch.TAP_DISTANCE}`;
+    swipeSpeedInput.value = `${settings.touch.SWIPE_SPEED}`;
+    softDropDistanceInput.value = `${settings.touch.SOFT_DROP_DISTANCE}`;
+    buttonPadInput.checked = settings.buttonPad;
+    touchPad.hidden = !settings.buttonPad;
+    soundInput.checked = settings.sound;
+  };
 
-    // create a new tetromino with its x position updated based on horizontal movement
-    const newTetromino = {
-      ...currentTetromino,
-      x: currentTetromino.x + this.pos.x,
-    };
+  // clicking a binding waits for the key or gamepad button to bind to it. The
+  // button gives up focus, or space would click it again instead of binding
+  const rebound$ = fromEvent<MouseEvent>(bindingRows, "click").pipe(
+    map(({ target }) => (target as HTMLElement).closest("button")),
+    filter((button): button is HTMLButtonElement => button !== null),
+    tap(button => {
+      button.textContent = "Press...";
+      button.blur();
+    }),
+    switchMap(button => {
+      const binding = button.dataset.binding as Binding;
+      const device = button.dataset.device;
+      return device === "gamepad"
+        ? fromGamepad(0).pipe(
+            mergeMap(([previous, current]) => pressedButtons(previous, current)),
+            take(1),
+            map(pressed => (s: Settings) => rebindButton(s, binding, pressed))
+          )
+        : fromEvent<KeyboardEvent>(document, "keydown").pipe(
+            tap(e => e.preventDefault()),
+            take(1),
+            map(({ code }) => (s: Settings) => rebindKey(s, device === "1" ? 1 : 0, binding, code))
+          );
+    })
+  );
 
-    // new state contains this moved tetromino
-    const newState = { ...s, currentTetromino: newTetromino };
+  const handlingChanged$ = fromEvent(handlingOptions, "change").pipe(
+    map(() => (s: Settings) => ({
+      ...s,
+      handling: clampHandling({
+        DAS_MS: Number(dasInput.value),
+        ARR_MS: Number(arrInput.value),
+        SOFT_DROP_FACTOR: Number(softDropInput.value),
+      }),
+    }))
+  );
 
-    const blockCollide = blockCollision(newState);
-    const sideCollide = sideCollision(newState);
+  const touchChanged$ = fromEvent(touchOptions, "change").pipe(
+    map(() => (s: Settings) => ({
+      ...s,
+      touch: clampTouch({
+        TAP_MS: Number(tapMsInput.value),
+        TAP_DISTANCE: Number(tapDistanceInput.value),
+        SWIPE_SPEED: Number(swipeSpeedInput.value),
+        SOFT_DROP_DISTANCE: Number(softDropDistanceInput.value),
+      }),
+      buttonPad: buttonPadInput.checked,
+    }))
+  );
 
-    if (!blockCollide && !sideCollide) {
-      // if no collision is detected, update the tetromino's position
-      return newState;
-    }
+  const soundChanged$ = fromEvent(soundOptions, "change").pipe(
+    map(() => (s: Settings) => ({ ...s, sound: soundInput.checked }))
+  );
 
-    // if a collision is detected, position will not be updated, preventing movement outside the canvas
-    return s;
-  };
-}
+  const reset$ = fromEvent(resetSettingsButton, "click").pipe(map(() => () => DEFAULT_SETTINGS));
 
-/**
- * An action class for rotating the current tetromino in the game.
- */
-class Rotate implements Action {
-  apply = (s: State): State => {
-    const name = s.currentTetromino.name;
-    const rotationLength = Tetromino[name].length; // how many rotations
-
-    // calculate the new rotation value by cycling through possible rotations
-    const rotation = (s.currentTetromino.rotation + 1) % rotationLength;
-    const newShapeArray = Tetromino[name][rotation];
-
-    // create a new tetromino object with updated rotation and shape
-    const rotatedTetromino = { ...s.currentTetromino, rotation, shapesArray: newShapeArray };
-
-    // checks for collisions after rotation. if no collision detected, rotation is allowed.
-    if (!blockCollision({ ...s, currentTetromino: rotatedTetromino }) 
-    && !sideCollision({ ...s, currentTetromino: rotatedTetromino })) {
-      return { ...s, currentTetromino: rotatedTetromino };
-    }
+  // the settings, as loaded and then as changed on the settings screen
+  const settings$ = merge(rebound$, handlingChanged$, touchChanged$, soundChanged$, reset$).pipe(
+    scan((s: Settings, update: (s: Settings) => Settings) => update(s), loadSettings(store)),
+    startWith(loadSettings(store)),
+    shareReplay(1)
+  );
+  settings$.subscribe(settings => {
+    saveSettings(store, settings);
+    renderSettings(settings);
+  });
+
+  fromEvent(settingsButton, "click").subscribe(() => (settingsScreen.hidden = false));
+  fromEvent(closeSettingsButton, "click").subscribe(() => (settingsScreen.hidden = true));
+
+  // gestures on the board, followed one touch at a time with the player's
+  // thresholds, and the on-screen buttons
+  const touchControls$ = merge(
+    settings$.pipe(
+      switchMap(settings =>
+        touch$.pipe(
+          scan(
+            ([gesture], touch): readonly [Gesture | null, ReadonlyArray<Action>] =>
+              touchGesture(gesture, touch, settings.touch),
+            [null, []] as readonly [Gesture | null, ReadonlyArray<Action>]
+          ),
+          mergeMap(([, actions]) => actions)
+        )
+      )
+    ),
+    buttonPad$
+  );
+
+  // a single player, or player one, plays with their keys, the first gamepad
+  // and the touch screen
+  const playerOneControls$ = merge(
+    settings$.pipe(switchMap(settings => merge(keyControls(settings.keys[0]), gamepadControls(0, settings.gamepad)))),
+    touchControls$
+  );
+
+  // new handling values take effect in the game being played
+  const handling$ = settings$.pipe(
+    map(settings => settings.handling),
+    distinctUntilChanged(),
+    skip(1),
+    map(handling => new SetHandling(handling))
+  );
+
+  /** Replays */
+
+  // replays loaded from a file, each starting a playback
+  const replayLoaded$ = fromEvent(importInput, "change").pipe(
+    filter(() => importInput.files !== null && importInput.files.length > 0),
+    switchMap(() =>
+      from(importInput.files![0].text()).pipe(
+        map(importReplay),
+        catchError((error: Error) => {
+          alert(`Could not load replay: ${error.message}`);
+          return EMPTY;
+        })
+      )
+    ),
+    share()
+  );
+  const exit$ = fromEvent(exitButton, "click");
+
+  // true while a replay is being played back instead of the live game
+  const playing$ = merge(
+    replayLoaded$.pipe(map(() => true)),
+    exit$.pipe(map(() => false))
+  ).pipe(startWith(false));
+
+  // combines game-related observables into a single observable action$,
+  // holding back live input while a replay is playing
+  const action$ = merge(tick$, playerOneControls$, handling$, hidden$, modeMenu$, bot$, retry$).pipe(
+    withLatestFrom(playing$),
+    filter(([_, playing]) => !playing),
+    map(([a]) => a),
+    share()
+  );
+
+  /** Game modes */
+
+  // one button per mode on the mode select screen. Puzzles are chosen from
+  // their own list instead
+  modeList.replaceChildren(
+    ...Object.entries(Modes)
+      .filter(([name]) => name !== "puzzle")
+      .map(([name, mode]) => {
+        const button = document.createElement("button");
+        const title = document.createElement("strong");
+        title.textContent = mode.title;
+        button.value = name;
+        button.replaceChildren(title, ` ${mode.description}`);
+        return button;
+      })
+  );
 
-    // if collision is detected, return the original state
-    return s;
+  // and one per bundled puzzle, with its objective
+  puzzleList.replaceChildren(
+    ...PUZZLES.map((puzzle, index) => {
+      const button = document.createElement("button");
+      const title = document.createElement("strong");
+      title.textContent = puzzle.name;
+      button.value = `${index}`;
+      const pieces = `${puzzle.pieces.length} piece${puzzle.pieces.length === 1 ? "" : "s"}`;
+      button.replaceChildren(title, ` ${objectiveText(puzzle.objective)} with ${pieces}.`);
+      return button;
+    })
+  );
+
+  // choosing the custom piece set asks for a JSON file
+  fromEvent(pieceSetSelect, "change")
+    .pipe(filter(() => pieceSetSelect.value === "custom"))
+    .subscribe(() => customPiecesInput.click());
+
+  // the most recently loaded custom piece set, if any
+  const customPieces$ = fromEvent(customPiecesInput, "change").pipe(
+    filter(() => customPiecesInput.files !== null && customPiecesInput.files.length > 0),
+    switchMap(() =>
+      from(customPiecesInput.files![0].text()).pipe(
+        map(parsePieceSet),
+        catchError((error: Error) => {
+          alert(`Could not load piece set: ${error.message}`);
+          return EMPTY;
+        })
+      )
+    ),
+    startWith<PieceSet | null>(null),
+    shareReplay(1)
+  );
+  customPieces$.subscribe();
+
+  // the entry and line clear delays of the timing chosen on the mode select screen
+  const chosenRuleset = () => Rulesets[rulesetSelect.value as RulesetName] ?? Rulesets.instant;
+
+  /**
+   * Reads the board size, piece set, preview length and timing chosen on the
+   * mode select screen. The custom set falls back to the standard tetrominoes
+   * until one is loaded.
+   *
+   * @param custom The loaded custom piece set
+   * @returns The chosen configuration
+   */
+  const chosenConfig = (custom: PieceSet | null): Partial<GameConfig> => ({
+    GRID_WIDTH: Number(widthInput.value) || Constants.GRID_WIDTH,
+    GRID_HEIGHT: Number(heightInput.value) || Constants.GRID_HEIGHT,
+    PIECES:
+      pieceSetSelect.value === "custom"
+        ? custom ?? Constants.PIECES
+        : PieceSets[pieceSetSelect.value as PieceSetName] ?? Constants.PIECES,
+    NEXT_PIECES: Math.min(6, Math.max(0, Math.floor(Number(nextPiecesInput.value)))) || 0,
+    ...chosenRuleset(),
+  });
+
+  // choosing a mode starts a new game in it, with the player's handling
+  const modeSelected$ = fromEvent<MouseEvent>(modeList, "click").pipe(
+    map(({ target }) => (target as HTMLElement).closest("button")),
+    filter((button): button is HTMLButtonElement => button !== null),
+    withLatestFrom(customPieces$, settings$),
+    map(([button, custom, settings]) =>
+      newGame(button.value as ModeName, { ...chosenConfig(custom), ...settings.handling })
+    ),
+    share()
+  );
+
+  fromEvent(modeButton, "click").subscribe(() => (modeSelect.hidden = false));
+
+  // choosing a puzzle, bundled or loaded from a file, starts it
+  const puzzleSelected$ = merge(
+    fromEvent<MouseEvent>(puzzleList, "click").pipe(
+      map(({ target }) => (target as HTMLElement).closest("button")),
+      filter((button): button is HTMLButtonElement => button !== null),
+      map(button => PUZZLES[Number(button.value)])
+    ),
+    fromEvent(importPuzzleInput, "change").pipe(
+      filter(() => importPuzzleInput.files !== null && importPuzzleInput.files.length > 0),
+      switchMap(() =>
+        from(importPuzzleInput.files![0].text()).pipe(
+          map(parsePuzzle),
+          catchError((error: Error) => {
+            alert(`Could not load puzzle: ${error.message}`);
+            return EMPTY;
+          })
+        )
+      ),
+      tap(() => (importPuzzleInput.value = ""))
+    )
+  ).pipe(
+    withLatestFrom(settings$),
+    map(([puzzle, settings]) =>
+      newGame("puzzle", { ...puzzleConfig(puzzle), ...chosenRuleset(), ...settings.handling })
+    ),
+    share()
+  );
+
+  /** Saved games */
+
+  // a saved game replaces the live one when loaded
+  const loaded$ = fromEvent(loadButton, "click").pipe(
+    switchMap(() => {
+      try {
+        const saved = loadGame(store);
+        return saved ? of(saved) : EMPTY;
+      } catch (error) {
+        alert(`Could not load game: ${(error as Error).message}`);
+        return EMPTY;
+      }
+    }),
+    share()
+  );
+
+  /** Board editor */
+
+  /**
+   * The diagram being edited: a position on each page, and the page shown.
+   */
+  type Editor = Readonly<{ pages: ReadonlyArray<Position>; page: number }>;
+
+  const emptyPosition: Position = {
+    board: Array.from({ length: Constants.GRID_HEIGHT }, () => Array(FUMEN_WIDTH).fill(null)),
+    current: null,
+    hold: null,
+    queue: [],
   };
-}
 
-/**
- * Action class for restarting the game.
- */
-class Restart implements Action {
-  apply = (s: State): State => {
-    // reset the game state to the initial state
-    const initialStateCopy = { ...initialState };
-    initialStateCopy.highscore = s.highscore;
-    initialStateCopy.currentTetromino = generateRandomTetromino(Date.now());
-    initialStateCopy.nextTetromino = generateRandomTetromino(Date.now() + 1);
-
-    // if the game end condition is met, recursively call the restart action
-    if (initialStateCopy.gameEnd) {
-      return this.apply(initialStateCopy);
+  /** The letter a piece is named by in the editor. */
+  const pieceLetter = (name: string) => Object.keys(PIECE_LETTERS).find(letter => PIECE_LETTERS[letter] === name) ?? "";
+
+  /** The pieces named by the letters typed into a field, skipping anything else. */
+  const typedPieces = (input: HTMLInputElement) =>
+    Array.from(input.value.toUpperCase()).flatMap(letter => PIECE_LETTERS[letter] ?? []);
+
+  /**
+   * Edits the page shown.
+   *
+   * @param update The change to its position
+   * @returns The change to the editor
+   */
+  const editPage = (update: (p: Position) => Position) => (e: Editor): Editor => ({
+    ...e,
+    pages: e.pages.map((p, index) => (index === e.page ? update(p) : p)),
+  });
+
+  /**
+   * Loads a diagram into the editor, on its first page.
+   *
+   * @param text The diagram, or a link to one
+   * @returns The change to the editor, or nothing if it couldn't be read
+   */
+  const loadDiagram = (text: string) => {
+    try {
+      const pages = decodeFumen(text).map(pagePosition);
+      return pages.length > 0 ? of((): Editor => ({ pages, page: 0 })) : EMPTY;
+    } catch (error) {
+      alert(`Could not load fumen: ${(error as Error).message}`);
+      return EMPTY;
     }
+  };
 
-    return initialStateCopy;
+  /**
+   * Draws the page shown and its pieces, and writes out the whole diagram.
+   *
+   * @param e The editor
+   */
+  const renderEditor = ({ pages, page }: Editor) => {
+    const { board, current, hold, queue } = pages[page];
+    editorCanvas.setAttribute("viewBox", `0 0 ${board[0].length * Cube.WIDTH} ${board.length * Cube.HEIGHT}`);
+    editorCanvas.replaceChildren(
+      ...board.flatMap((row, y) =>
+        row.flatMap((cell, x) =>
+          cell === null ? [] : [blockCreation(x, y, colourOf(PieceSets.tetrominoes, cell), editorCanvas)]
+        )
+      )
+    );
+    currentInput.value = current === null ? "" : pieceLetter(current);
+    holdInput.value = hold === null ? "" : pieceLetter(hold);
+    queueInput.value = queue.map(pieceLetter).join("");
+    pageNumber.textContent = `${page + 1} / ${pages.length}`;
+    fumenInput.value = encodeFumen(pages.map(positionPage));
   };
-}
 
-/** Rendering (side effects) */
+  // each palette button shows the colour it paints
+  palette.querySelectorAll<HTMLButtonElement>("button[data-cell]").forEach(button => {
+    button.style.backgroundColor = button.dataset.cell ? colourOf(PieceSets.tetrominoes, button.dataset.cell) : "";
+  });
+
+  // the cell the board is painted with, chosen from the palette. Erasing
+  // paints empty cells
+  const brush$ = fromEvent<MouseEvent>(palette, "click").pipe(
+    map(({ target }) => (target as HTMLElement).closest("button")),
+    filter((button): button is HTMLButtonElement => button !== null),
+    tap(button =>
+      palette.querySelectorAll("button").forEach(other => other.classList.toggle("selected", other === button))
+    ),
+    map(button => button.dataset.cell || null),
+    startWith<string | null>(GARBAGE)
+  );
 
-/**
- * Displays a SVG element on the canvas. Brings to foreground.
- * @param elem SVG element to display
- */
-const show = (elem: SVGGraphicsElement) => {
-  elem.setAttribute("visibility", "visible");
-  elem.parentNode!.appendChild(elem);
-};
+  // pressing on the board paints the cell under the pointer, as does dragging
+  // across it while pressed. The board keeps the pointer until it lets go
+  const paint$ = merge(
+    fromEvent<PointerEvent>(editorCanvas, "pointerdown").pipe(tap(e => editorCanvas.setPointerCapture(e.pointerId))),
+    fromEvent<PointerEvent>(editorCanvas, "pointermove").pipe(filter(e => e.buttons !== 0))
+  ).pipe(
+    map(e => touchOf(editorCanvas, "move", e)),
+    withLatestFrom(brush$),
+    map(([{ x, y }, cell]) =>
+      editPage(p => ({
+        ...p,
+        board: p.board.map((row, rowIndex) =>
+          rowIndex === Math.floor(y) ? row.map((old, colIndex) => (colIndex === Math.floor(x) ? cell : old)) : row
+        ),
+      }))
+    )
+  );
 
-/**
- * Hides a SVG element on the canvas.
- * @param elem SVG element to hide
- */
-const hide = (elem: SVGGraphicsElement) =>
-  elem.setAttribute("visibility", "hidden");
+  const piecesChanged$ = fromEvent(editorPieces, "change").pipe(
+    map(() =>
+      editPage(p => ({
+        ...p,
+        current: typedPieces(currentInput)[0] ?? null,
+        hold: typedPieces(holdInput)[0] ?? null,
+        queue: typedPieces(queueInput),
+      }))
+    )
+  );
 
-/**
- * Creates an SVG element with the given properties.
- *
- * See https://developer.mozilla.org/en-US/docs/Web/SVG/Element for valid
- * element names and properties.
- *
- * @param namespace Namespace of the SVG element
- * @param name SVGElement name
- * @param props Properties to set on the SVG element
- * @returns SVG element
- */
-const createSvgElement = (
-  namespace: string | null,
-  name: string,
-  props: Record<string, string> = {}
-) => {
-  const elem = document.createElementNS(namespace, name) as SVGElement;
-  Object.entries(props).forEach(([k, v]) => elem.setAttribute(k, v));
-  return elem;
-};
+  const cleared$ = fromEvent(clearBoardButton, "click").pipe(
+    map(() => editPage(p => ({ ...p, board: p.board.map(row => row.map(() => null)) })))
+  );
 
-/**
- * This is the function called on page load. Your main game loop
- * should be called here.
- */
-export function main() {
-  // Canvas elements
-  const svg = document.querySelector("#svgCanvas") as SVGGraphicsElement &
-    HTMLElement;
-  const preview = document.querySelector("#svgPreview") as SVGGraphicsElement &
-    HTMLElement;
-  const gameover = document.querySelector("#gameOver") as SVGGraphicsElement &
-    HTMLElement;
-  const container = document.querySelector("#main") as HTMLElement;
+  // turning past the last page adds a copy of it
+  const turned$ = merge(
+    fromEvent(previousPageButton, "click").pipe(
+      map(() => (e: Editor): Editor => ({ ...e, page: Math.max(0, e.page - 1) }))
+    ),
+    fromEvent(nextPageButton, "click").pipe(
+      map(() => (e: Editor): Editor => ({
+        pages: e.page + 1 < e.pages.length ? e.pages : [...e.pages, e.pages[e.page]],
+        page: e.page + 1,
+      }))
+    )
+  );
 
-  svg.setAttribute("height", `${Viewport.CANVAS_HEIGHT}`);
-  svg.setAttribute("width", `${Viewport.CANVAS_WIDTH}`);
-  preview.setAttribute("height", `${Viewport.PREVIEW_HEIGHT}`);
-  preview.setAttribute("width", `${Viewport.PREVIEW_WIDTH}`);
+  // a diagram is loaded from the address of a link to it, as the page loads
+  // or the address changes, or pasted into the fumen field
+  const hashDiagram$ = merge(of(null), fromEvent(window, "hashchange")).pipe(
+    map(() => decodeURIComponent(location.hash.slice(1))),
+    filter(hash => hash.includes("115@")),
+    shareReplay(1)
+  );
+  const diagramLoaded$ = merge(hashDiagram$, fromEvent(fumenInput, "change").pipe(map(() => fumenInput.value))).pipe(
+    switchMap(loadDiagram)
+  );
 
-  // Text fields
-  const levelText = document.querySelector("#levelText") as HTMLElement;
-  const scoreText = document.querySelector("#scoreText") as HTMLElement;
-  const highScoreText = document.querySelector("#highScoreText") as HTMLElement;
-  
-  /** User input */
+  // the diagram, as edited
+  const initialEditor: Editor = { pages: [emptyPosition], page: 0 };
+  const editor$ = merge(paint$, piecesChanged$, cleared$, turned$, diagramLoaded$).pipe(
+    scan((e: Editor, update: (e: Editor) => Editor) => update(e), initialEditor),
+    startWith(initialEditor),
+    shareReplay(1)
+  );
+  editor$.subscribe(renderEditor);
+
+  merge(fromEvent(editorButton, "click"), hashDiagram$).subscribe(() => (editorScreen.hidden = false));
+  fromEvent(closeEditorButton, "click").subscribe(() => (editorScreen.hidden = true));
+
+  // the link to the diagram goes in the address bar, and on the clipboard
+  // where there is one
+  fromEvent(copyLinkButton, "click").subscribe(() => {
+    history.replaceState(null, "", `#${fumenInput.value}`);
+    navigator.clipboard?.writeText(location.href).catch(() => undefined);
+  });
+
+  // practising starts a zen game from the page shown, with the player's handling
+  const practice$ = fromEvent(practiceButton, "click").pipe(
+    withLatestFrom(editor$, settings$),
+    map(([_, e, settings]) =>
+      positionGame(e.pages[e.page], newSeed(), { MODE: "zen", ...chosenRuleset(), ...settings.handling })
+    ),
+    share()
+  );
+  practice$.subscribe(() => (editorScreen.hidden = true));
+
+  /** Online */
+
+  // each connection to a relay server, joining the chosen room as it opens
+  const connection$ = fromEvent<SubmitEvent>(onlineForm, "submit").pipe(
+    tap(e => e.preventDefault()),
+    map(() => {
+      const transport = createWebSocketTransport(relayUrlInput.value);
+      transport.send({
+        type: "join",
+        version: PROTOCOL_VERSION,
+        room: roomInput.value || "lobby",
+        name: playerNameInput.value || "Player",
+      });
+      return transport;
+    }),
+    share()
+  );
+  connection$.subscribe(() => (modeSelect.hidden = true));
+
+  // the messages arriving over a connection
+  const fromTransport = (transport: Transport) =>
+    new Observable<Message>(subscriber => transport.listen(message => subscriber.next(message)));
+
+  // readying up offers a fresh half of the seed and the board options chosen
+  // on the mode select screen. The button gives up focus, as space would
+  // press it again
+  const ready$ = fromEvent(readyButton, "click").pipe(
+    tap(() => readyButton.blur()),
+    withLatestFrom(customPieces$),
+    map(([_, custom]): ReadyOffer => ({
+      seed: newSeed(),
+      config: { ...Constants, ...chosenConfig(custom) },
+    }))
+  );
+
+  /**
+   * The session of the current connection, and the action the latest message
+   * has on the local game.
+   */
+  type NetUpdate = Readonly<{
+    transport: Transport;
+    match: NetMatch;
+    action: Action | null;
+  }>;
 
-  const key$ = fromEvent<KeyboardEvent>(document, "keypress");
+  // accumulate each connection's session from the messages it receives and
+  // the ready button
+  const session$ = connection$.pipe(
+    switchMap(transport => {
+      const initial: NetUpdate = { transport, match: createNetMatch(), action: null };
+      return merge(
+        fromTransport(transport).pipe(
+          map(message => (u: NetUpdate): NetUpdate => ({
+            ...u,
+            match: receiveMessage(u.match, message),
+            action: messageAction(u.match, message),
+          }))
+        ),
+        ready$.pipe(
+          tap(offer => transport.send({ type: "ready", ...offer })),
+          map(offer => (u: NetUpdate): NetUpdate => ({ ...u, match: readyUp(u.match, offer), action: null }))
+        )
+      ).pipe(
+        scan((u: NetUpdate, update: (u: NetUpdate) => NetUpdate) => update(u), initial),
+        startWith(initial)
+      );
+    }),
+    share()
+  );
 
-  const fromKey = (keyCode: Key) =>
-    key$.pipe(filter(({ code }) => code === keyCode));
+  // the garbage and game endings the opponent sends the local game
+  const netAction$ = session$.pipe(
+    map(({ action }) => action),
+    filter((action): action is Action => action !== null)
+  );
 
-    const left$ = fromKey("KeyA").pipe(map(() => new Move({ x: -1, y: 0 })));
-    const right$ = fromKey("KeyD").pipe(map(() => new Move({ x: 1, y: 0 })));
-    const down$ = fromKey("KeyS").pipe(map(() => new Tick()));   
-    const up$ = fromKey("KeyW").pipe(map(() => new Rotate()));
-    const restart$ = fromKey("KeyR").pipe(map(() => new Restart()));
+  // the match each session agrees to play, started as a live game. Handling
+  // is each player's own
+  const netStart$ = session$.pipe(
+    map(({ match }) => match.start),
+    distinctUntilChanged(),
+    filter((start): start is ReadyOffer => start !== null),
+    withLatestFrom(settings$),
+    map(([start, settings]) => createGame(start.seed, { ...start.config, ...settings.handling })),
+    share()
+  );
 
-  /** Observables */
+  // the opponent's board is drawn from the snapshots they send
+  const opponent$ = session$.pipe(
+    filter(({ match }) => match.start !== null && match.opponent !== null),
+    map(({ match }) => opponentState(match.start!, match.opponent!)),
+    share()
+  );
+  opponent$.subscribe(s => display(playerTwo, s));
+
+  session$.subscribe(({ match }) => {
+    netStatus.textContent = netStatusText(match);
+    readyButton.disabled =
+      match.opponentName === null || match.ready !== null || (match.phase !== "lobby" && match.phase !== "over");
+  });
+
+  // the state each live game starts from, and whether it was resumed from a
+  // save or set up from a position rather than started from its seed
+  const localStart$ = merge(
+    modeSelected$.pipe(map((s): [State, boolean] => [s, false])),
+    puzzleSelected$.pipe(map((s): [State, boolean] => [s, false])),
+    practice$.pipe(map((s): [State, boolean] => [s, true])),
+    loaded$.pipe(map((s): [State, boolean] => [s, true]))
+  );
+  const start$ = merge(localStart$, netStart$.pipe(map((s): [State, boolean] => [s, false])));
+  start$.subscribe(() => (modeSelect.hidden = true));
+
+  /** Versus */
+
+  // a versus match is played with the board options chosen on the mode select screen
+  const versusSelected$ = fromEvent(versusButton, "click").pipe(
+    withLatestFrom(customPieces$, settings$),
+    map(([_, custom, settings]) =>
+      createVersus(newSeed(), { ...Constants, ...chosenConfig(custom), ...settings.handling })
+    ),
+    share()
+  );
+  versusSelected$.subscribe(() => (modeSelect.hidden = true));
+
+  // each player's controls go to their own game, player one's keys leaving
+  // out any player two has bound, and each player with a gamepad of their own.
+  // Touch controls are player one's. The clock, pausing and restarting go to both
+  const versusAction$ = merge(
+    merge(tick$, hidden$, modeMenu$, handling$).pipe(map((action): VersusAction => ({ player: null, action }))),
+    settings$.pipe(
+      switchMap(settings =>
+        merge(
+          merge(
+            keyControls(exclusiveBindings(settings.keys[0], settings.keys[1])),
+            gamepadControls(0, settings.gamepad),
+            touchControls$
+          ).pipe(map((action): VersusAction => ({ player: 0, action }))),
+          merge(keyControls(settings.keys[1]), gamepadControls(1, settings.gamepad)).pipe(
+            map((action): VersusAction => ({ player: 1, action }))
+          )
+        )
+      ),
+      map(({ player, action }): VersusAction => ({
+        player: action instanceof Pause || action instanceof Restart ? null : player,
+        action,
+      }))
+    )
+  );
 
-  /** Determines the rate of time steps */
-  const tick$ = interval(Constants.TICK_RATE_MS).pipe(map(_ => new Tick()));
+  // accumulate and reduce each match, until a single player game is started
+  const versus$ = versusSelected$.pipe(
+    switchMap(start =>
+      versusAction$.pipe(
+        scan(reduceVersus, start),
+        startWith(start),
+        takeUntil(start$)
+      )
+    ),
+    share()
+  );
 
   /**
-   * Renders the current state to the canvas.
-   *
-   * In MVC terms, this updates the View using the Model.
+   * @param v The match
+   * @param player A player
+   * @returns The heading of the player's game over screen
+   */
+  const versusTitle = (v: Versus, player: Player) =>
+    v.winner === null ? "Draw" : v.winner === player ? "You win!" : "Game Over";
+
+  versus$.subscribe(v => {
+    display(playerOne, v.players[0], versusTitle(v, 0));
+    display(playerTwo, v.players[1], versusTitle(v, 1));
+  });
+
+  // player two's board is only shown during a match, whether local or online
+  merge(
+    localStart$.pipe(map(() => false)),
+    merge(versusSelected$, netStart$).pipe(map(() => true))
+  ).subscribe(versus => {
+    playerTwoSection.hidden = !versus;
+    container.classList.toggle("versus", versus);
+  });
+
+  // a connection lasts until it's left or replaced, or a local game is started
+  connection$
+    .pipe(
+      switchMap(transport =>
+        merge(connection$, fromEvent(leaveButton, "click"), localStart$, versusSelected$).pipe(
+          take(1),
+          map(() => transport)
+        )
+      )
+    )
+    .subscribe(transport => transport.close());
+
+  // the online controls are shown from connecting until the connection is
+  // closed by the player
+  merge(
+    connection$.pipe(map(() => true)),
+    merge(fromEvent(leaveButton, "click"), localStart$, versusSelected$).pipe(map(() => false))
+  ).subscribe(online => (netplayPanel.hidden = !online));
+
+  // live games hear from an online opponent as well as the player
+  const liveAction$ = merge(action$, netAction$);
+
+  // every live action is recorded, so the game can be saved as a replay
+  const recording$ = start$.pipe(
+    switchMap(([start, resumed]) =>
+      liveAction$.pipe(
+        scan((r: Replay, a: Action) => recordAction(r, a), createReplay(start, resumed)),
+        startWith(createReplay(start, resumed)),
+        takeUntil(versusSelected$)
+      )
+    )
+  );
+  fromEvent(exportButton, "click")
+    .pipe(withLatestFrom(recording$))
+    .subscribe(([_, replay]) => download(`tetris-${replay.seed}.json`, exportReplay(replay)));
+
+  // each loaded replay is fed through the same reducer, driven by the frame
+  // clock and the playback controls, until playback is exited
+  const playback$ = replayLoaded$.pipe(
+    switchMap(replay =>
+      merge(
+        tick$.pipe(map(({ ms }) => (p: Playback) => advancePlayback(p, ms))),
+        fromEvent(playPauseButton, "click").pipe(map(() => (p: Playback) => setPaused(p, !p.paused))),
+        fromEvent(stepButton, "click").pipe(map(() => (p: Playback) => stepPlayback(setPaused(p, true)))),
+        fromEvent(speedSelect, "change").pipe(map(() => (p: Playback) => setSpeed(p, Number(speedSelect.value)))),
+        fromEvent(seekInput, "input").pipe(map(() => (p: Playback) => seekPlayback(p, Number(seekInput.value))))
+      ).pipe(
+        scan((p: Playback, update: (p: Playback) => Playback) => update(p), createPlayback(replay)),
+        startWith(createPlayback(replay)),
+        takeUntil(exit$)
+      )
+    ),
+    share()
+  );
+
+  playing$.subscribe(playing => {
+    playbackControls.hidden = !playing;
+    hintLayer.style.display = playing ? "none" : "";
+    importInput.value = "";
+  });
+
+  playback$.subscribe((p: Playback) => {
+    display(playerOne, p.state);
+    playPauseButton.textContent = p.paused ? "Play" : "Pause";
+    seekInput.max = `${p.replay.duration}`;
+    seekInput.value = `${p.time}`;
+  });
+
+  // accumulate and reduce the live game state over time, with the stats of
+  // each action, rendering it while no replay is playing, until a versus match
+  // is started
+  const played$ = start$.pipe(
+    switchMap(([start]) =>
+      liveAction$.pipe(
+        scan(([s, stats]: [State, Stats], a: Action): [State, Stats] => {
+          const next = applyAction(s, a);
+          return [next, recordStats(stats, s, next, a)];
+        }, [start, createStats()]),
+        startWith<[State, Stats]>([start, createStats()]),
+        takeUntil(versusSelected$)
+      )
+    ),
+    shareReplay(1)
+  );
+  const game$ = played$.pipe(map(([s]) => s));
+  played$.subscribe(([s, stats]) => {
+    display(playerOne, s, undefined, statsSummary(stats));
+    // the panel is only kept up to date while it's open
+    if (statsPanel.open) {
+      renderList(statsList, statsResults(stats, s));
+    }
+  });
+
+  // sound effects play for the live game's events. Browsers only let audio
+  // start once the page has been interacted with, so the audio context waits
+  // for the first key or touch
+  const audio$ = merge(fromEvent(document, "keydown"), fromEvent(document, "pointerdown")).pipe(
+    take(1),
+    map(() => new AudioContext()),
+    shareReplay(1)
+  );
+  gameEvents(game$)
+    .pipe(
+      withLatestFrom(settings$, audio$),
+      filter(([, settings]) => settings.sound)
+    )
+    .subscribe(([event, , audio]) => playTones(audio, eventTones(event)));
+
+  // lock flashes and hard drop trails are set off by the live game's events
+  // and fade out frame by frame; a new game clears them away
+  const effects$ = merge(
+    start$.pipe(map(() => (): ReadonlyArray<Effect> => [])),
+    gameEvents(game$).pipe(map(event => (effects: ReadonlyArray<Effect>) => [...effects, ...eventEffects(event)])),
+    tick$.pipe(map(({ ms }) => (effects: ReadonlyArray<Effect>) => ageEffects(effects, ms)))
+  ).pipe(
+    scan((effects: ReadonlyArray<Effect>, update) => update(effects), []),
+    startWith<ReadonlyArray<Effect>>([])
+  );
+
+  /**
+   * Pairs each state shown on a board with the one before, for drawing
+   * between the two.
    *
-   * @param s Current state
+   * @param state$ The states shown on the board
+   * @returns Each state with the one before it, null for the first
    */
-  const render = (s: State) => {
-    highScoreText.innerHTML = `${s.highscore}`;
-    scoreText.innerHTML = `${s.score}`
-    levelText.innerHTML = `${s.level}`
-  
-    // clear the main canvas (svg)
-    Array.from(svg.childNodes).forEach(child => {
-      if (child != gameover) {
-        svg.removeChild(child);
-      }
-    });
-  
-    // clear the preview canvas
-    Array.from(preview.childNodes).forEach(child => {
-      if (child != gameover) {
-        preview.removeChild(child);
-      }
-    });
-  
-    const current = s.currentTetromino;
-    const next = s.nextTetromino;
-    const colour = COLOUR[current.colour];
-    const previewColour = COLOUR[next.colour];
-    const x = current.x;
-    const y = current.y;
-  
-    // renders the game board
-    s.gameBoard.map((row, rowIndex) => {
-      row.map((value, colIndex) => {
-        if (typeof value === "string") {
-          svg.appendChild(
-            blockCreation(
-              colIndex,
-              rowIndex,
-              COLOUR[value],
-              svg
-            )
-          );
-        }
-      });
-    });
-  
-    // renders the current tetromino in the main canvas
-    current.shapesArray.forEach((row, rowIndex) => {
-      row.forEach((value, colIndex) => {
-        if (value === 1) {
-          svg.appendChild(
-            blockCreation(
-              x + colIndex,
-              y + rowIndex,
-              colour,
-              svg
-            )
-          );
-        }
-      });
+  const steps = (state$: Observable<State>) =>
+    state$.pipe(
+      startWith(null),
+      pairwise(),
+      filter((pair): pair is [State | null, State] => pair[1] !== null)
+    );
+
+  // the boards are drawn once per display frame, after the frame's steps
+  // have run: whichever game each board shows, between its last two steps
+  const drawn$ = frame$.pipe(observeOn(asapScheduler));
+  drawn$
+    .pipe(
+      withLatestFrom(
+        steps(merge(game$, playback$.pipe(map(p => p.state)), versus$.pipe(map(v => v.players[0])))),
+        effects$
+      )
+    )
+    .subscribe(([{ alpha }, [previous, s], effects]) => drawBoard(playerOne, previous, s, alpha, effects));
+  drawn$
+    .pipe(withLatestFrom(steps(merge(versus$.pipe(map(v => v.players[1])), opponent$))))
+    .subscribe(([{ alpha }, [previous, s]]) => drawBoard(playerTwo, previous, s, alpha));
+
+  // the puzzle being solved, if any, is named in the sidebar with its objective
+  merge(game$.pipe(map(s => s.config.PUZZLE)), versusSelected$.pipe(map(() => null)))
+    .pipe(distinctUntilChanged())
+    .subscribe(puzzle => {
+      puzzlePanel.hidden = puzzle === null;
+      objectiveLabel.textContent = puzzle ? `${puzzle.name}: ${objectiveText(puzzle.objective)}` : "";
     });
-  
-    // renders the next tetromino in the preview canvas
-    next.shapesArray.forEach((row, rowIndex) => {
-      row.forEach((value, colIndex) => {
-        if (value === 1) {
-          preview.appendChild(
-            blockCreation(
-              colIndex+2,
-              rowIndex+1,
-              previewColour,
-              preview
+
+  /**
+   * Sends messages to the online opponent during a match. Messages still go
+   * once it's over, as the game that ended second must tell the other.
+   */
+  const sendToOpponent = (messages: Observable<Message>) =>
+    messages
+      .pipe(
+        withLatestFrom(session$),
+        filter(([_, { match }]) => match.phase === "playing" || match.phase === "over")
+      )
+      .subscribe(([message, { transport }]) => transport.send(message));
+
+  // the board is sent whenever it changes in a way the opponent would see
+  sendToOpponent(
+    game$.pipe(
+      pairwise(),
+      filter(([previous, s]) => !sameSnapshot(previous, s)),
+      map(([_, s]): Message => ({ type: "state", snapshot: snapshotOf(s) }))
+    )
+  );
+
+  // so is the garbage each clear sends, each batch with its own hole
+  sendToOpponent(
+    netStart$.pipe(
+      switchMap(start =>
+        game$.pipe(
+          pairwise(),
+          map(([previous, s]) => s.attack - previous.attack),
+          filter(lines => lines > 0),
+          scan(
+            ([_, garbageSeed], lines) => createGarbage(lines, garbageSeed, start.config.GRID_WIDTH),
+            createGarbage(0, start.seed, start.config.GRID_WIDTH)
+          ),
+          map(([batch]): Message => ({ type: "garbage", batch }))
+        )
+      )
+    )
+  );
+
+  // and the end of the game, however it ended
+  sendToOpponent(
+    game$.pipe(
+      distinctUntilChanged((a, b) => a.gameEnd === b.gameEnd),
+      filter(s => s.gameEnd),
+      map((s): Message => ({ type: "gameOver", goalReached: s.goalReached }))
+    )
+  );
+
+  /**
+   * Outlines the bot's suggested placement on the main canvas.
+   *
+   * @param piece The piece in its suggested position, or null for no hint
+   */
+  const renderHint = (piece: Block | null) =>
+    hintLayer.replaceChildren(
+      ...(piece?.shapesArray ?? []).flatMap((row, rowIndex) =>
+        row.flatMap((value, colIndex) =>
+          value === 1 ? [hintCreation(piece!.x + colIndex, piece!.y + rowIndex, hintLayer)] : []
+        )
+      )
+    );
+
+  // the hint follows the live game, or player one's in a match. It's only
+  // searched for once per piece: when it spawns, when it's swapped with the
+  // held one, and when the game is paused or resumed
+  fromCheckbox(hintInput)
+    .pipe(
+      switchMap(on =>
+        on
+          ? merge(game$, versus$.pipe(map(v => v.players[0]))).pipe(
+              distinctUntilChanged((a, b) =>
+                a.gameBoard === b.gameBoard &&
+                a.queue === b.queue &&
+                a.holdTetromino === b.holdTetromino &&
+                a.paused === b.paused
+              ),
+              map(s => bestPlacement(s)?.piece ?? null)
             )
-          );
-        }
-      });
+          : of(null)
+      )
+    )
+    .subscribe(renderHint);
+
+  // the canvases follow the board size and piece set of whatever is displayed
+  merge(game$, playback$.pipe(map(p => p.state)), versus$.pipe(map(v => v.players[0])))
+    .pipe(
+      map(s => s.config),
+      distinctUntilChanged((a, b) =>
+        a.GRID_WIDTH === b.GRID_WIDTH &&
+        a.GRID_HEIGHT === b.GRID_HEIGHT &&
+        a.PIECES === b.PIECES &&
+        a.NEXT_PIECES === b.NEXT_PIECES
+      )
+    )
+    .subscribe(config => [playerOne, playerTwo].forEach(view => resize(view, config)));
+
+  fromEvent(saveButton, "click")
+    .pipe(withLatestFrom(game$))
+    .subscribe(([_, s]) => saveGame(store, s));
+
+  // the editor opens on the board being played, through the address bar so
+  // it's ready to share. Boards fumen can't hold leave the editor as it was
+  fromEvent(editorButton, "click")
+    .pipe(withLatestFrom(game$))
+    .subscribe(([_, s]) => {
+      try {
+        location.hash = encodePosition(positionOf(s));
+      } catch {
+        // the editor opens on its last diagram instead
+      }
     });
-  };
-  
 
-  // combines game-related observables into a single observable source$
-  const source$ = merge(tick$, left$, right$, down$, up$, restart$)
-    // accumulate and reduce the game state over time
-    .pipe(scan((s: State, a: Action) => reduceState(s,a), initialState))
-    // subscribe to the source$ observable to handle game state updates
-    .subscribe((s: State) => {
-      // renders the updated game state
-      render(s);
-      if (s.gameEnd) {
-        show(gameover);
-      } else {
-        hide(gameover);
-      }
+  /** Leaderboard */
+
+  /**
+   * Renders a mode's leaderboard table in the sidebar.
+   *
+   * @param board The leaderboard
+   * @param mode The game mode
+   */
+  const renderLeaderboard = (board: Leaderboard, mode: ModeName) =>
+    leaderboardList.replaceChildren(
+      ...topEntries(board, mode).map(entry => {
+        const item = document.createElement("li");
+        item.textContent = `${entry.name}: ${Modes[mode].entryText(entry)}`;
+        item.title = `${entry.lines} lines, level ${entry.level}, ` +
+          `${formatDuration(entry.duration)}, ${new Date(entry.date).toLocaleDateString()}`;
+        return item;
+      })
+    );
+
+  // the table follows the mode being played
+  game$
+    .pipe(
+      map(s => s.config.MODE),
+      distinctUntilChanged()
+    )
+    .subscribe(mode => renderLeaderboard(loadLeaderboard(store), mode));
+
+  // whether the game is over, emitted whenever that changes
+  const gameEnd$ = game$.pipe(distinctUntilChanged((a, b) => a.gameEnd === b.gameEnd));
+
+  // the final state of each game, emitted once as it ends
+  const finished$ = gameEnd$.pipe(filter(s => s.gameEnd));
+
+  // a run that makes the leaderboard asks for the player's name
+  finished$
+    .pipe(
+      filter(s => modeOf(s).ranked(s)),
+      filter(s =>
+        qualifies(
+          loadLeaderboard(store),
+          s.config.MODE,
+          entryFromState(s, "", new Date()),
+          LEADERBOARD_SIZE,
+          modeOf(s).order
+        )
+      )
+    )
+    .subscribe(() => {
+      show(nameEntry);
+      nameInput.focus();
+    });
+  gameEnd$.pipe(filter(s => !s.gameEnd)).subscribe(() => hide(nameEntry));
+
+  fromEvent<SubmitEvent>(nameForm, "submit")
+    .pipe(
+      tap(e => e.preventDefault()),
+      filter(() => nameEntry.getAttribute("visibility") === "visible"),
+      withLatestFrom(finished$)
+    )
+    .subscribe(([_, s]) => {
+      const board = addEntry(
+        loadLeaderboard(store),
+        s.config.MODE,
+        entryFromState(s, nameInput.value, new Date()),
+        LEADERBOARD_SIZE,
+        modeOf(s).order
+      );
+      saveLeaderboard(store, board);
+      renderLeaderboard(board, s.config.MODE);
+      hide(nameEntry);
+      nameInput.value = "";
+      nameInput.blur();
     });
 }
 
@@ -0,0 +1,185 @@
+/**
+ * Game modes. A mode decides when a game is won, how its clock reads, whether
+ * it can be topped out and what its results screen shows. Modes sit on top of
+ * the engine rather than inside it: reduceState runs applyMode after every
+ * action, so the actions themselves don't need to know which mode is playing.
+ */
+
+import { ModeName, State } from "./types";
+import { EntryOrder, LeaderboardEntry, byScore, byTime } from "./leaderboard";
+import { objectiveMet, objectiveText } from "./puzzle";
+
+/** Lines to clear in Sprint. */
+export const SPRINT_LINES = 40;
+
+/** How long an Ultra game lasts, in milliseconds. */
+export const ULTRA_TIME_MS = 2 * 60 * 1000;
+
+/** Lines to clear in Marathon. */
+export const MARATHON_LINES = 150;
+
+/**
+ * A labelled statistic on a mode's results screen.
+ */
+export type ModeResult = Readonly<{
+  label: string;
+  value: string;
+}>;
+
+/**
+ * The rules and presentation of a game mode.
+ */
+export type GameMode = Readonly<{
+  title: string;
+  description: string;
+  timeLimit: number | null; // ms the game lasts, and its clock counts down from; null counts up
+  topsOut: boolean; // false if topping out clears the board instead of ending the game
+  goal: (s: State) => boolean; // true once the game has been won
+  ranked: (s: State) => boolean; // true if a finished game may enter the leaderboard
+  order: EntryOrder; // how the mode's leaderboard is ranked
+  entryText: (entry: LeaderboardEntry) => string; // an entry's headline figure
+  results: (s: State) => ReadonlyArray<ModeResult>;
+}>;
+
+/**
+ * Formats a game clock reading as minutes, seconds and hundredths.
+ *
+ * @param ms The time in milliseconds
+ * @returns The time as m:ss.cc
+ */
+export const formatTime = (ms: number): string => {
+  const hundredths = Math.floor(ms / 10);
+  const seconds = Math.floor(hundredths / 100);
+  return `${Math.floor(seconds / 60)}:${`${seconds % 60}`.padStart(2, "0")}.${`${hundredths % 100}`.padStart(2, "0")}`;
+};
+
+const never = () => false;
+const always = () => true;
+const score = (s: State): ModeResult => ({ label: "Score", value: `${s.score}` });
+const lines = (s: State): ModeResult => ({ label: "Lines", value: `${s.lines}` });
+const level = (s: State): ModeResult => ({ label: "Level", value: `${s.level}` });
+const time = (s: State): ModeResult => ({ label: "Time", value: formatTime(s.time) });
+
+/**
+ * Every available game mode.
+ */
+export const Modes: Record<ModeName, GameMode> = {
+  endless: {
+    title: "Endless",
+    description: "Play until you top out.",
+    timeLimit: null,
+    topsOut: true,
+    goal: never,
+    ranked: always,
+    order: byScore,
+    entryText: e => `${e.score}`,
+    results: s => [score(s), lines(s), level(s), time(s)],
+  },
+  sprint: {
+    title: "Sprint",
+    description: `Clear ${SPRINT_LINES} lines as fast as you can.`,
+    timeLimit: null,
+    topsOut: true,
+    goal: s => s.lines >= SPRINT_LINES,
+    ranked: s => s.goalReached, // only finished sprints have a time worth ranking
+    order: byTime,
+    entryText: e => formatTime(e.duration),
+    results: s => [
+      time(s),
+      { label: "Lines", value: `${Math.min(s.lines, SPRINT_LINES)}/${SPRINT_LINES}` },
+      { label: "Lines/min", value: s.time > 0 ? (s.lines / (s.time / 60000)).toFixed(1) : "0.0" },
+    ],
+  },
+  ultra: {
+    title: "Ultra",
+    description: `Score as much as you can in ${ULTRA_TIME_MS / 60000} minutes.`,
+    timeLimit: ULTRA_TIME_MS,
+    topsOut: true,
+    goal: s => s.time >= ULTRA_TIME_MS,
+    ranked: always,
+    order: byScore,
+    entryText: e => `${e.score}`,
+    results: s => [
+      score(s),
+      lines(s),
+      { label: "Score/min", value: s.time > 0 ? `${Math.round(s.score / (s.time / 60000))}` : "0" },
+    ],
+  },
+  marathon: {
+    title: "Marathon",
+    description: `Reach ${MARATHON_LINES} lines.`,
+    timeLimit: null,
+    topsOut: true,
+    goal: s => s.lines >= MARATHON_LINES,
+    ranked: always,
+    order: byScore,
+    entryText: e => `${e.score}`,
+    results: s => [score(s), lines(s), level(s), time(s)],
+  },
+  zen: {
+    title: "Zen",
+    description: "No goal and no game over. Just play.",
+    timeLimit: null,
+    topsOut: false,
+    goal: never,
+    ranked: never,
+    order: byScore,
+    entryText: e => `${e.score}`,
+    results: s => [score(s), lines(s), time(s)],
+  },
+  puzzle: {
+    title: "Puzzle",
+    description: "Meet an objective on a set board with a fixed sequence of pieces.",
+    timeLimit: null,
+    topsOut: true,
+    goal: s => (s.config.PUZZLE ? objectiveMet(s.config.PUZZLE.objective, s) : false),
+    ranked: never,
+    order: byTime,
+    entryText: e => formatTime(e.duration),
+    results: s => [
+      { label: "Puzzle", value: s.config.PUZZLE?.name ?? "-" },
+      { label: "Result", value: s.goalReached ? "Solved" : "Failed" },
+      { label: "Pieces", value: `${s.pieces}/${s.config.PUZZLE?.pieces.length ?? 0}` },
+      time(s),
+    ],
+  },
+};
+
+/**
+ * @param s The game state
+ * @returns The mode the game is being played in
+ */
+export const modeOf = (s: State): GameMode => Modes[s.config.MODE];
+
+/**
+ * Reads a game's clock the way its mode shows it: time remaining in a timed
+ * mode, time elapsed otherwise.
+ *
+ * @param s The game state
+ * @returns The clock reading in milliseconds
+ */
+export const modeClock = (s: State): number => {
+  const { timeLimit } = modeOf(s);
+  return timeLimit === null ? s.time : Math.max(0, timeLimit - s.time);
+};
+
+/**
+ * Ends the game once its mode's goal has been met. A timed mode's clock stops
+ * at its limit, even if the last step ran past it.
+ *
+ * @param s The game state after an action
+ * @returns The game state, ended if the goal has been reached
+ */
+export const applyMode = (s: State): State => {
+  const mode = modeOf(s);
+  if (s.gameEnd || !mode.goal(s)) {
+    return s;
+  }
+
+  return {
+    ...s,
+    gameEnd: true,
+    goalReached: true,
+    time: mode.timeLimit === null ? s.time : Math.min(s.time, mode.timeLimit),
+  };
+};
@@ -0,0 +1,194 @@
+/**
+ * A networked match as one player sees it, following the protocol in
+ * protocol.ts. The session is a pure reducer over the messages the player
+ * receives and the ready button; the game itself is a normal live game, told
+ * about the opponent through the actions messageAction makes.
+ */
+
+import { Action, GameConfig, State } from "./types";
+import { BoardSnapshot, Message } from "./protocol";
+import { ReceiveGarbage } from "./garbage";
+import { EndMatch, Player } from "./versus";
+import { createInitialState } from "./state";
+import { RNG } from "./util";
+import { isGarbageBatch, isGrid } from "./validation";
+
+/**
+ * Where a session is up to:
+ * - joining: waiting for the relay to seat the player
+ * - waiting: seated, with no opponent yet
+ * - lobby: both players seated, waiting for both to be ready
+ * - playing: the match is being played
+ * - over: the match has ended, and either player may ready up for another
+ * - closed: the connection was lost or the relay turned the player away
+ */
+export type NetPhase = "joining" | "waiting" | "lobby" | "playing" | "over" | "closed";
+
+/**
+ * A player's offer to start a match: their half of the seed and the config
+ * they would like to play.
+ */
+export type ReadyOffer = Readonly<{
+  seed: number;
+  config: GameConfig;
+}>;
+
+/**
+ * The state of a networked match, for one player.
+ */
+export type NetMatch = Readonly<{
+  phase: NetPhase;
+  player: Player | null; // null until seated
+  opponentName: string | null;
+  ready: ReadyOffer | null; // this player's offer for the next match
+  opponentReady: ReadyOffer | null;
+  start: ReadyOffer | null; // the agreed seed and config of the current or last match
+  opponent: BoardSnapshot | null; // the opponent's board, as last synced
+  error: string | null;
+}>;
+
+/**
+ * @returns A session that has asked to join a room
+ */
+export const createNetMatch = (): NetMatch => ({
+  phase: "joining",
+  player: null,
+  opponentName: null,
+  ready: null,
+  opponentReady: null,
+  start: null,
+  opponent: null,
+  error: null,
+});
+
+/**
+ * Agrees the match both players will play once both are ready: seeded from
+ * both players' halves, so neither chooses the pieces, with player one's
+ * config.
+ *
+ * @param m The session
+ * @returns The session, playing if both players are ready
+ */
+const tryStart = (m: NetMatch): NetMatch => {
+  if (m.ready === null || m.opponentReady === null || m.player === null) {
+    return m;
+  }
+
+  const config = m.player === 0 ? m.ready.config : m.opponentReady.config;
+  return {
+    ...m,
+    phase: "playing",
+    start: { seed: RNG.hash(m.ready.seed ^ m.opponentReady.seed), config },
+    ready: null,
+    opponentReady: null,
+    opponent: null,
+  };
+};
+
+/**
+ * Offers to start a match, or the next one once a match is over. There must
+ * be an opponent to play.
+ *
+ * @param m The session
+ * @param offer This player's half of the seed and their config
+ * @returns The session, playing if the opponent was already ready
+ */
+export const readyUp = (m: NetMatch, offer: ReadyOffer): NetMatch =>
+  (m.phase === "lobby" || m.phase === "over") && m.opponentName !== null
+    ? tryStart({ ...m, phase: "lobby", ready: offer })
+    : m;
+
+/**
+ * Ends the match. Both sides tell each other when their game ends, so the
+ * match is over once the opponent's game over arrives, whichever ended first.
+ */
+const matchOver = (m: NetMatch): NetMatch => (m.phase === "playing" ? { ...m, phase: "over" } : m);
+
+/**
+ * Checks the opponent's board is the size of the match's, as it's drawn
+ * alongside the player's.
+ */
+const fitsMatch = (m: NetMatch, snapshot: BoardSnapshot): boolean =>
+  m.start !== null && isGrid(snapshot.gameBoard, m.start.config.GRID_WIDTH, m.start.config.GRID_HEIGHT);
+
+/**
+ * Updates a session with a message from the relay or the opponent.
+ *
+ * @param m The session
+ * @param message The message received
+ * @returns The updated session
+ */
+export const receiveMessage = (m: NetMatch, message: Message): NetMatch => {
+  switch (message.type) {
+    case "joined":
+      return {
+        ...m,
+        phase: message.opponent === null ? "waiting" : "lobby",
+        player: message.player,
+        opponentName: message.opponent,
+      };
+    case "opponentJoined":
+      return { ...m, phase: "lobby", opponentName: message.name };
+    case "opponentLeft":
+      return {
+        ...m,
+        phase: m.phase === "playing" ? "over" : "waiting",
+        opponentName: null,
+        ready: null,
+        opponentReady: null,
+      };
+    case "ready":
+      return tryStart({ ...m, opponentReady: { seed: message.seed, config: message.config } });
+    case "state":
+      return m.phase === "playing" && fitsMatch(m, message.snapshot) ? { ...m, opponent: message.snapshot } : m;
+    case "gameOver":
+      return matchOver(m);
+    case "error":
+      return { ...m, phase: m.phase === "joining" ? "closed" : m.phase, error: message.reason };
+    case "disconnected":
+      return { ...m, phase: "closed", error: m.error ?? "Disconnected" };
+    default:
+      return m;
+  }
+};
+
+/**
+ * Turns a message into the action it has on this player's game, if any:
+ * garbage arrives, and the match ends when the opponent's game does or they
+ * leave mid-match.
+ *
+ * @param m The session, before the message
+ * @param message The message received
+ * @returns The action for the local game, or null if the game is unaffected
+ */
+export const messageAction = (m: NetMatch, message: Message): Action | null => {
+  if (m.phase !== "playing") {
+    return null;
+  }
+
+  switch (message.type) {
+    case "garbage":
+      // a hole off the side of the board would leave the rows full
+      return m.start !== null && isGarbageBatch(message.batch, m.start.config.GRID_WIDTH)
+        ? new ReceiveGarbage(message.batch)
+        : null;
+    case "gameOver":
+      return new EndMatch(!message.goalReached);
+    case "opponentLeft":
+      return new EndMatch(true);
+    default:
+      return null;
+  }
+};
+
+/**
+ * Rebuilds enough of the opponent's game to draw it from their snapshot.
+ *
+ * @param start The match's seed and config
+ * @param snapshot The opponent's board
+ * @returns A game state showing the opponent's board
+ */
+export const opponentState = (start: ReadyOffer, snapshot: BoardSnapshot): State => ({
+  ...createInitialState(start.seed, start.config),
+  ...snapshot,
+});
@@ -0,0 +1,366 @@
+/**
+ * Piece sets: the shapes, rotation states, colours and kick tables of the
+ * pieces a game is played with. The standard tetrominoes are the default; any
+ * set can be swapped in through GameConfig.PIECES, including one read from a
+ * user's JSON file.
+ */
+
+import { KickTable, PieceDefinition, PieceSet, Shape } from "./types";
+
+/**
+ * An object representing a tetromino's possible shapes, and each shapes' possible
+ * rotations. Follows the Super Rotation System (SRS): states are ordered spawn,
+ * clockwise (R), 180 and counter-clockwise (L), and every piece has all four.
+ */
+export const Tetromino: Record<string, number[][][]> = {
+  O: [
+    [
+      [0, 1, 1, 0],
+      [0, 1, 1, 0],
+      [0, 0, 0, 0],
+    ],
+    [
+      [0, 1, 1, 0],
+      [0, 1, 1, 0],
+      [0, 0, 0, 0],
+    ],
+    [
+      [0, 1, 1, 0],
+      [0, 1, 1, 0],
+      [0, 0, 0, 0],
+    ],
+    [
+      [0, 1, 1, 0],
+      [0, 1, 1, 0],
+      [0, 0, 0, 0],
+    ],
+  ],
+  I: [
+    [
+      [0, 0, 0, 0],
+      [1, 1, 1, 1],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ],
+    [
+      [0, 0, 1, 0],
+      [0, 0, 1, 0],
+      [0, 0, 1, 0],
+      [0, 0, 1, 0],
+    ],
+    [
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [1, 1, 1, 1],
+      [0, 0, 0, 0],
+    ],
+    [
+      [0, 1, 0, 0],
+      [0, 1, 0, 0],
+      [0, 1, 0, 0],
+      [0, 1, 0, 0],
+    ],
+  ],
+  LL: [
+    [
+      [1, 0, 0],
+      [1, 1, 1],
+      [0, 0, 0],
+    ],
+    [
+      [0, 1, 1],
+      [0, 1, 0],
+      [0, 1, 0],
+    ],
+    [
+      [0, 0, 0],
+      [1, 1, 1],
+      [0, 0, 1],
+    ],
+    [
+      [0, 1, 0],
+      [0, 1, 0],
+      [1, 1, 0],
+    ],
+  ],
+  LR: [
+    [
+      [0, 0, 1],
+      [1, 1, 1],
+      [0, 0, 0],
+    ],
+    [
+      [0, 1, 0],
+      [0, 1, 0],
+      [0, 1, 1],
+    ],
+    [
+      [0, 0, 0],
+      [1, 1, 1],
+      [1, 0, 0],
+    ],
+    [
+      [1, 1, 0],
+      [0, 1, 0],
+      [0, 1, 0],
+    ],
+  ],
+  S: [
+    [
+      [0, 1, 1],
+      [1, 1, 0],
+      [0, 0, 0],
+    ],
+    [
+      [0, 1, 0],
+      [0, 1, 1],
+      [0, 0, 1],
+    ],
+    [
+      [0, 0, 0],
+      [0, 1, 1],
+      [1, 1, 0],
+    ],
+    [
+      [1, 0, 0],
+      [1, 1, 0],
+      [0, 1, 0],
+    ],
+  ],
+  Z: [
+    [
+      [1, 1, 0],
+      [0, 1, 1],
+      [0, 0, 0],
+    ],
+    [
+      [0, 0, 1],
+      [0, 1, 1],
+      [0, 1, 0],
+    ],
+    [
+      [0, 0, 0],
+      [1, 1, 0],
+      [0, 1, 1],
+    ],
+    [
+      [0, 1, 0],
+      [1, 1, 0],
+      [1, 0, 0],
+    ],
+  ],
+  T: [
+    [
+      [0, 1, 0],
+      [1, 1, 1],
+      [0, 0, 0],
+    ],
+    [
+      [0, 1, 0],
+      [0, 1, 1],
+      [0, 1, 0],
+    ],
+    [
+      [0, 0, 0],
+      [1, 1, 1],
+      [0, 1, 0],
+    ],
+    [
+      [0, 1, 0],
+      [1, 1, 0],
+      [0, 1, 0],
+    ],
+  ],
+};
+
+/**
+ * a constant which maps tetromino names to their respective colors.
+ */
+export const COLOUR: { [key: string]: string } = {
+  O: "yellow",
+  I: "aqua",
+  LL: "blue",
+  LR: "orange",
+  S: "green",
+  Z: "red",
+  T: "purple",
+};
+
+/** Shape helpers */
+
+/**
+ * Reads a shape drawn as rows of text, where "X" marks a filled cell.
+ *
+ * @param rows The rows of the shape, top first
+ * @returns The shape as rows of 1s and 0s
+ */
+export const parseShape = (rows: ReadonlyArray<string>): Shape =>
+  rows.map(row => Array.from(row, cell => (cell === "X" ? 1 : 0)));
+
+/**
+ * Rotates a square shape a quarter turn clockwise.
+ */
+export const rotateShape = (shape: Shape): Shape =>
+  shape.map((_, r) => shape.map((_, c) => shape[shape.length - 1 - c][r]));
+
+/**
+ * Centres a shape in the smallest square that holds it, so it turns about
+ * its middle.
+ */
+const squareShape = (shape: Shape): Shape => {
+  const width = Math.max(...shape.map(row => row.length));
+  const size = Math.max(width, shape.length);
+  const top = Math.floor((size - shape.length) / 2);
+  const left = Math.floor((size - width) / 2);
+  return Array.from({ length: size }, (_, r) =>
+    Array.from({ length: size }, (_, c) => shape[r - top]?.[c - left] ?? 0)
+  );
+};
+
+/**
+ * The bounding box of a shape's filled cells, in its own grid.
+ */
+export type Bounds = Readonly<{ left: number; top: number; width: number; height: number }>;
+
+/**
+ * Measures the bounding box of a shape's filled cells.
+ *
+ * @param shape The shape
+ * @returns The box around the filled cells
+ */
+export const shapeBounds = (shape: Shape): Bounds => {
+  const rows = shape.flatMap((row, y) => (row.includes(1) ? [y] : []));
+  const columns = shape[0].flatMap((_, x) => (shape.some(row => row[x] === 1) ? [x] : []));
+  return {
+    left: columns[0],
+    top: rows[0],
+    width: columns[columns.length - 1] - columns[0] + 1,
+    height: rows[rows.length - 1] - rows[0] + 1,
+  };
+};
+
+/**
+ * Mirrors a shape left to right.
+ */
+const mirrorShape = (shape: Shape): Shape => shape.map(row => [...row].reverse());
+
+/**
+ * Defines a piece from its spawn shape, generating the other three rotation
+ * states by turning it clockwise.
+ *
+ * @param shape The spawn shape
+ * @param colour Any CSS colour
+ * @param kicks The wall kicks the piece rotates with
+ * @returns The piece's definition
+ */
+export const pieceFromShape = (shape: Shape, colour: string, kicks: KickTable = "jlstz"): PieceDefinition => {
+  const spawn = squareShape(shape);
+  const rotations = [0, 1, 2, 3].map(turns =>
+    Array.from({ length: turns }).reduce((shape: Shape) => rotateShape(shape), spawn)
+  );
+  return { colour, rotations, kicks };
+};
+
+/** Piece sets */
+
+/**
+ * The seven standard tetrominoes, rotating under SRS.
+ */
+const tetrominoes: PieceSet = Object.fromEntries(
+  Object.entries(Tetromino).map(([name, rotations]) => [
+    name,
+    { colour: COLOUR[name], rotations, kicks: name === "I" ? "i" : name === "O" ? "none" : "jlstz" },
+  ])
+);
+
+// the twelve free pentominoes; each one that isn't symmetric also comes mirrored
+const PENTOMINOES: ReadonlyArray<readonly [string, ReadonlyArray<string>, string, boolean]> = [
+  ["F", [".XX", "XX.", ".X."], "tomato", true],
+  ["I", ["XXXXX"], "aqua", false],
+  ["L", ["X...", "XXXX"], "orange", true],
+  ["N", ["XX..", ".XXX"], "olive", true],
+  ["P", ["XX", "XX", "X."], "hotpink", true],
+  ["T", ["XXX", ".X.", ".X."], "purple", false],
+  ["U", ["X.X", "XXX"], "gold", false],
+  ["V", ["X..", "X..", "XXX"], "royalblue", false],
+  ["W", ["X..", "XX.", ".XX"], "lime", false],
+  ["X", [".X.", "XXX", ".X."], "white", false],
+  ["Y", [".X..", "XXXX"], "teal", true],
+  ["Z", ["XX.", ".X.", ".XX"], "red", true],
+];
+
+/**
+ * The eighteen one-sided pentominoes: the free pentominoes plus the mirror
+ * images of the asymmetric ones, named with a trailing '.
+ */
+const pentominoes: PieceSet = Object.fromEntries(
+  PENTOMINOES.flatMap(([name, rows, colour, mirrored]) => {
+    const piece = pieceFromShape(parseShape(rows), colour, name === "I" ? "i" : "jlstz");
+    return mirrored
+      ? [[name, piece], [`${name}'`, pieceFromShape(mirrorShape(parseShape(rows)), colour, "jlstz")]]
+      : [[name, piece]];
+  })
+);
+
+/**
+ * The built-in piece sets.
+ */
+export const PieceSets = { tetrominoes, pentominoes } as const;
+
+/**
+ * The names of the built-in piece sets.
+ */
+export type PieceSetName = keyof typeof PieceSets;
+
+/**
+ * Looks up the colour a piece is drawn in.
+ *
+ * @param pieces The game's piece set
+ * @param name The piece's name, as stored on the board
+ * @returns The piece's CSS colour, grey if the set doesn't have it
+ */
+export const colourOf = (pieces: PieceSet, name: string): string => pieces[name]?.colour ?? "grey";
+
+/**
+ * Reads a user-defined piece set from JSON. Each piece is keyed by name and
+ * lists its colour, its rotation states as square grids of 1s and 0s, and
+ * optionally its kick table:
+ *
+ *   { "T": { "colour": "purple", "rotations": [[[0,1,0],[1,1,1],[0,0,0]], ...], "kicks": "jlstz" } }
+ *
+ * @param json The piece set as JSON
+ * @returns The piece set
+ * @throws Error naming the first piece that isn't valid
+ */
+export const parsePieceSet = (json: string): PieceSet => {
+  const set: unknown = JSON.parse(json);
+  if (typeof set !== "object" || set === null || Array.isArray(set) || Object.keys(set).length === 0) {
+    throw new Error("Not a piece set");
+  }
+
+  const isShape = (shape: unknown): boolean =>
+    Array.isArray(shape) &&
+    shape.length > 0 &&
+    shape.every(row => Array.isArray(row) && row.length === shape.length && row.every(cell => cell === 0 || cell === 1)) &&
+    shape.some(row => row.includes(1));
+
+  const isPiece = (piece: unknown): boolean => {
+    if (typeof piece !== "object" || piece === null || Array.isArray(piece)) {
+      return false;
+    }
+    const { colour, rotations, kicks } = piece as Record<string, unknown>;
+    return (
+      typeof colour === "string" &&
+      Array.isArray(rotations) &&
+      rotations.length > 0 &&
+      rotations.every(isShape) &&
+      (kicks === undefined || kicks === "jlstz" || kicks === "i" || kicks === "none")
+    );
+  };
+
+  const invalid = Object.entries(set).find(([_, piece]: [string, unknown]) => !isPiece(piece));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid piece ${invalid[0]}`);
+  }
+  return set as PieceSet;
+};
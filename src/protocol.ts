@@ -0,0 +1,222 @@
+/**
+ * The networked versus protocol. Players join a room on a relay server (see
+ * relay.ts), which pairs them up and passes everything else they send on to
+ * their opponent. Every message is a JSON object with a `type`.
+ *
+ * A match goes: both players join, both send ready with a seed and their game
+ * config, and the match is played from the combined seed with player one's
+ * config. While playing, each side sends its board whenever it changes, the
+ * garbage its clears send, and game over when its game ends.
+ */
+
+import { GameConfig, GarbageBatch, State } from "./types";
+import { Player } from "./versus";
+import {
+  MAX_GRID_HEIGHT,
+  MAX_GRID_WIDTH,
+  MIN_GRID_HEIGHT,
+  MAX_NEXT_PIECES,
+  MIN_GRID_WIDTH,
+  isBlock,
+  isGarbageBatch,
+  isGrid,
+  isInteger,
+  isRecord,
+  readConfig,
+} from "./validation";
+
+/** The protocol version spoken by this build. */
+export const PROTOCOL_VERSION = 1;
+
+/** The longest room name a player may join. */
+export const MAX_ROOM_LENGTH = 24;
+
+/** The longest name a player may go by. */
+export const MAX_NAME_LENGTH = 12;
+
+/**
+ * The parts of a player's game their opponent needs to draw it.
+ */
+export type BoardSnapshot = Pick<
+  State,
+  | "gameBoard"
+  | "currentTetromino"
+  | "holdTetromino"
+  | "canHold"
+  | "queue"
+  | "score"
+  | "lines"
+  | "level"
+  | "incoming"
+  | "gameEnd"
+  | "goalReached"
+  | "paused"
+>;
+
+/**
+ * Messages a player sends. The relay answers join itself and passes the rest
+ * on to the opponent.
+ */
+export type ClientMessage =
+  | Readonly<{ type: "join"; version: number; room: string; name: string }>
+  | Readonly<{ type: "ready"; seed: number; config: GameConfig }> // seed is this player's half of the match seed
+  | Readonly<{ type: "state"; snapshot: BoardSnapshot }>
+  | Readonly<{ type: "garbage"; batch: GarbageBatch }>
+  | Readonly<{ type: "gameOver"; goalReached: boolean }>; // goalReached is false for topping out
+
+/**
+ * Messages from the relay server, and from the transport itself when the
+ * connection drops.
+ */
+export type ServerMessage =
+  | Readonly<{ type: "joined"; player: Player; opponent: string | null }>
+  | Readonly<{ type: "opponentJoined"; name: string }>
+  | Readonly<{ type: "opponentLeft" }>
+  | Readonly<{ type: "error"; reason: string }>
+  | Readonly<{ type: "disconnected" }>;
+
+/**
+ * Any protocol message.
+ */
+export type Message = ClientMessage | ServerMessage;
+
+const MESSAGE_TYPES: ReadonlyArray<Message["type"]> = [
+  "join",
+  "ready",
+  "state",
+  "garbage",
+  "gameOver",
+  "joined",
+  "opponentJoined",
+  "opponentLeft",
+  "error",
+  "disconnected",
+];
+
+/** Checks a value is a string that isn't empty or too long. */
+const isText = (value: unknown, max: number): value is string =>
+  typeof value === "string" && value.length > 0 && value.length <= max;
+
+/** Checks a value is a count the game keeps, such as a score. */
+const isCount = (value: unknown): value is number => isInteger(value, 0, Number.MAX_SAFE_INTEGER);
+
+/**
+ * Checks a snapshot is a board that can be drawn: a board within the size
+ * limits, well-formed pieces, and counts that are numbers.
+ */
+const isSnapshot = (value: unknown): value is BoardSnapshot => {
+  if (!isRecord(value) || !Array.isArray(value.gameBoard) || !Array.isArray(value.gameBoard[0])) {
+    return false;
+  }
+  const { gameBoard, currentTetromino, holdTetromino, queue, incoming } = value;
+  const width = value.gameBoard[0].length;
+  return (
+    isInteger(width, MIN_GRID_WIDTH, MAX_GRID_WIDTH) &&
+    isInteger(gameBoard.length, MIN_GRID_HEIGHT, MAX_GRID_HEIGHT) &&
+    isGrid(gameBoard, width, gameBoard.length) &&
+    isBlock(currentTetromino) &&
+    (holdTetromino === null || isBlock(holdTetromino)) &&
+    Array.isArray(queue) &&
+    queue.length <= MAX_NEXT_PIECES &&
+    queue.every(piece => isBlock(piece)) &&
+    Array.isArray(incoming) &&
+    incoming.every(batch => isGarbageBatch(batch, width)) &&
+    [value.score, value.lines, value.level].every(isCount) &&
+    [value.canHold, value.gameEnd, value.goalReached, value.paused].every(flag => typeof flag === "boolean")
+  );
+};
+
+/**
+ * Checks a message's payload is what its type says it carries. A ready's
+ * config must be a game that can be played as a match: a known mode, a board
+ * within the size limits and a valid piece set, with no puzzle.
+ */
+const isPayloadValid = (message: Record<string, unknown>): boolean => {
+  switch (message.type as Message["type"]) {
+    case "join":
+      return (
+        typeof message.version === "number" &&
+        isText(message.room, MAX_ROOM_LENGTH) &&
+        isText(message.name, MAX_NAME_LENGTH)
+      );
+    case "ready":
+      try {
+        const config = readConfig(message.config);
+        return isCount(message.seed) && config.PUZZLE === null;
+      } catch {
+        return false;
+      }
+    case "state":
+      return isSnapshot(message.snapshot);
+    case "garbage":
+      return isGarbageBatch(message.batch);
+    case "gameOver":
+      return typeof message.goalReached === "boolean";
+    case "joined":
+      return (
+        (message.player === 0 || message.player === 1) &&
+        (message.opponent === null || typeof message.opponent === "string")
+      );
+    case "opponentJoined":
+      return typeof message.name === "string";
+    case "error":
+      return typeof message.reason === "string";
+    case "opponentLeft":
+    case "disconnected":
+      return true;
+  }
+};
+
+/**
+ * Reads a message from JSON, checking its payload as well as its type.
+ *
+ * @param json A message as sent over the wire
+ * @returns The message
+ * @throws Error if the JSON isn't a protocol message, or its payload isn't valid
+ */
+export const parseMessage = (json: string): Message => {
+  const message: unknown = JSON.parse(json);
+  if (!isRecord(message) || !MESSAGE_TYPES.includes(message.type as Message["type"])) {
+    throw new Error("Not a protocol message");
+  }
+  if (!isPayloadValid(message)) {
+    throw new Error(`Invalid ${message.type} message`);
+  }
+  return message as Message;
+};
+
+/**
+ * Writes a message as JSON.
+ */
+export const serializeMessage = (message: Message): string => JSON.stringify(message);
+
+/**
+ * Takes the parts of a game its opponent needs to draw it.
+ *
+ * @param s The game state
+ * @returns The game's snapshot
+ */
+export const snapshotOf = (s: State): BoardSnapshot => ({
+  gameBoard: s.gameBoard,
+  currentTetromino: s.currentTetromino,
+  holdTetromino: s.holdTetromino,
+  canHold: s.canHold,
+  queue: s.queue,
+  score: s.score,
+  lines: s.lines,
+  level: s.level,
+  incoming: s.incoming,
+  gameEnd: s.gameEnd,
+  goalReached: s.goalReached,
+  paused: s.paused,
+});
+
+/**
+ * Checks whether a game has changed in a way its opponent would see.
+ *
+ * @param a A game state
+ * @param b A later game state
+ * @returns True if the two states look the same to the opponent
+ */
+export const sameSnapshot = (a: State, b: State): boolean =>
+  (Object.keys(snapshotOf(a)) as Array<keyof BoardSnapshot>).every(key => a[key] === b[key]);
@@ -0,0 +1,262 @@
+/**
+ * Puzzles: a board set up in advance, a fixed sequence of pieces and an
+ * objective to meet with them. A puzzle rides along in GameConfig.PUZZLE, so
+ * the engine deals its board and pieces when the game is created or restarted,
+ * and the puzzle mode (see modes.ts) judges it solved or failed.
+ *
+ * Puzzles are written as JSON, with the board drawn as rows of characters:
+ *
+ *   {
+ *     "name": "Tetris",
+ *     "objective": "clear 4 lines",
+ *     "pieces": "I",
+ *     "hold": false,
+ *     "board": ["XXXXXXXXX.", "XXXXXXXXX.", "XXXXXXXXX.", "XXXXXXXXX."],
+ *     "solution": "cw right*4 drop"
+ *   }
+ *
+ * The rows are the bottom of the board, with empty rows above them up to
+ * "height" (20 by default). "." is an empty cell, "X" a garbage cell and a
+ * piece's letter a cell in that piece's colour.
+ */
+
+import { Action, GameConfig, Grid, Objective, Puzzle, State } from "./types";
+import { HardDrop, Hold, Move, Rotate, SoftDrop } from "./state";
+import { GARBAGE } from "./garbage";
+import { PieceSets } from "./pieces";
+import tetris from "./puzzles/tetris.json";
+import perfectClear from "./puzzles/perfect-clear.json";
+import tSpinDouble from "./puzzles/t-spin-double.json";
+import tSpinTriple from "./puzzles/t-spin-triple.json";
+import survival from "./puzzles/survival.json";
+
+/** The height of a puzzle's board when it doesn't give one. */
+export const PUZZLE_HEIGHT = 20;
+
+/**
+ * The letters puzzles, and fumen diagrams, name the tetrominoes by, and the
+ * pieces they stand for.
+ */
+export const PIECE_LETTERS: Readonly<Record<string, string>> = {
+  I: "I",
+  O: "O",
+  T: "T",
+  S: "S",
+  Z: "Z",
+  J: "LL",
+  L: "LR",
+};
+
+/** Lines cleared by a T-spin, by the name the objective gives them. */
+const T_SPIN_LINES = ["", "single", "double", "triple"];
+
+/**
+ * Moves a solution is written in, and the actions they make.
+ */
+const SOLUTION_MOVES: Readonly<Record<string, () => Action>> = {
+  left: () => new Move({ x: -1, y: 0 }),
+  right: () => new Move({ x: 1, y: 0 }),
+  cw: () => new Rotate(1),
+  ccw: () => new Rotate(-1),
+  "180": () => new Rotate(2),
+  hold: () => new Hold(),
+  down: () => new SoftDrop(),
+  drop: () => new HardDrop(),
+};
+
+/**
+ * Reads an objective written out in words: "clear 4 lines", "perfect clear",
+ * "T-spin double", "T-spin mini single" or "survive 10 pieces".
+ *
+ * @param text The objective
+ * @returns The objective, or null if it isn't one
+ */
+export const parseObjective = (text: string): Objective | null => {
+  const words = text.trim().toLowerCase();
+  const lines = /^clear (\d+) lines?$/.exec(words);
+  const tSpin = /^t-spin( mini)?(?: (single|double|triple))?$/.exec(words);
+  const survive = /^survive (\d+) pieces?$/.exec(words);
+
+  return lines && Number(lines[1]) > 0
+    ? { type: "lines", lines: Number(lines[1]) }
+    : words === "perfect clear"
+    ? { type: "perfectClear" }
+    : tSpin
+    ? { type: "tSpin", tSpin: tSpin[1] ? "mini" : "full", lines: T_SPIN_LINES.indexOf(tSpin[2] ?? "") }
+    : survive && Number(survive[1]) > 0
+    ? { type: "survive", pieces: Number(survive[1]) }
+    : null;
+};
+
+/**
+ * Writes an objective out in words, as parseObjective reads it.
+ *
+ * @param objective The objective
+ * @returns The objective in words, such as "T-spin double"
+ */
+export const objectiveText = (objective: Objective): string => {
+  switch (objective.type) {
+    case "lines":
+      return `Clear ${objective.lines} line${objective.lines === 1 ? "" : "s"}`;
+    case "perfectClear":
+      return "Perfect clear";
+    case "tSpin":
+      return ["T-spin", objective.tSpin === "mini" ? "mini" : "", T_SPIN_LINES[objective.lines]]
+        .filter(Boolean)
+        .join(" ");
+    case "survive":
+      return `Survive ${objective.pieces} piece${objective.pieces === 1 ? "" : "s"}`;
+  }
+};
+
+/**
+ * Checks whether a game has met a puzzle's objective.
+ *
+ * @param objective The objective
+ * @param s The game state
+ * @returns True once the objective has been met
+ */
+export const objectiveMet = (objective: Objective, s: State): boolean => {
+  switch (objective.type) {
+    case "lines":
+      return s.lines >= objective.lines;
+    case "perfectClear":
+      return s.lastClear?.perfectClear === true;
+    case "tSpin":
+      return s.lastClear?.tSpin === objective.tSpin && s.lastClear.lines === objective.lines;
+    case "survive":
+      return s.pieces >= objective.pieces;
+  }
+};
+
+/**
+ * Reads a board drawn as rows of characters, bottom-aligned on a board of the
+ * given height.
+ */
+const parseBoard = (rows: ReadonlyArray<string>, height: number): Grid<string | null> => {
+  const width = rows[0].length;
+  const cells = rows.map((row, y) => {
+    if (row.length !== width) {
+      throw new Error(`Board row ${y + 1} isn't ${width} cells wide`);
+    }
+    return Array.from(row, cell => {
+      if (cell === "." || cell === " ") return null;
+      if (cell === "X" || cell === "#") return GARBAGE;
+      if (cell in PIECE_LETTERS) return PIECE_LETTERS[cell];
+      throw new Error(`Unknown cell ${cell} on board row ${y + 1}`);
+    });
+  });
+  return [...Array.from({ length: height - rows.length }, () => Array(width).fill(null)), ...cells];
+};
+
+/**
+ * Reads a puzzle from its JSON form (see the top of this file).
+ *
+ * @param value The puzzle, as parsed from JSON
+ * @returns The puzzle
+ * @throws Error saying what's wrong with it
+ */
+export const readPuzzle = (value: unknown): Puzzle => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("Not a puzzle");
+  }
+  const { name, objective, pieces, hold, board, height, solution } = value as Record<string, unknown>;
+
+  if (typeof name !== "string" || name.trim() === "") {
+    throw new Error("The puzzle has no name");
+  }
+  const goal = typeof objective === "string" ? parseObjective(objective) : null;
+  if (!goal) {
+    throw new Error(`Unknown objective ${JSON.stringify(objective)}`);
+  }
+  if (typeof pieces !== "string" || pieces.length === 0) {
+    throw new Error("The puzzle has no pieces");
+  }
+  const unknown = Array.from(pieces).find(piece => !(piece in PIECE_LETTERS));
+  if (unknown !== undefined) {
+    throw new Error(`Unknown piece ${unknown}`);
+  }
+  if (goal.type === "survive" && goal.pieces > pieces.length) {
+    throw new Error(`Only ${pieces.length} pieces to survive ${goal.pieces} with`);
+  }
+  const rows = board ?? [];
+  const boardHeight = height ?? PUZZLE_HEIGHT;
+  if (!Array.isArray(rows) || !rows.every(row => typeof row === "string")) {
+    throw new Error("The board isn't a list of rows");
+  }
+  if (typeof boardHeight !== "number" || !Number.isInteger(boardHeight) || boardHeight < 4 || boardHeight > 40) {
+    throw new Error("The board's height must be from 4 to 40");
+  }
+  if (rows.length > boardHeight - 2) {
+    throw new Error("The board leaves no room for the pieces");
+  }
+  const width = rows.length > 0 ? rows[0].length : 10;
+  if (width < 4 || width > 20) {
+    throw new Error("The board must be from 4 to 20 cells wide");
+  }
+  if (solution !== undefined && typeof solution !== "string") {
+    throw new Error("The solution isn't a list of moves");
+  }
+
+  return {
+    name: name.trim(),
+    board: rows.length > 0 ? parseBoard(rows, boardHeight) : parseBoard(["".padEnd(width, ".")], boardHeight),
+    pieces: Array.from(pieces, piece => PIECE_LETTERS[piece]),
+    hold: hold !== false,
+    objective: goal,
+    ...(solution !== undefined ? { solution } : {}),
+  };
+};
+
+/**
+ * Reads a puzzle from a JSON file.
+ *
+ * @param json The puzzle as JSON
+ * @returns The puzzle
+ * @throws Error saying what's wrong with it
+ */
+export const parsePuzzle = (json: string): Puzzle => readPuzzle(JSON.parse(json));
+
+/**
+ * Turns a written solution into the actions that play it.
+ *
+ * @param solution Moves separated by spaces, any of them repeated with *n,
+ * such as "cw left*2 down*15 drop"
+ * @returns The actions, in order
+ * @throws Error naming the first move that isn't one
+ */
+export const solutionActions = (solution: string): ReadonlyArray<Action> =>
+  solution
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap(word => {
+      const [, move, times] = /^([^*]+)(?:\*(\d+))?$/.exec(word) ?? [];
+      if (!(move in SOLUTION_MOVES)) {
+        throw new Error(`Unknown move ${word}`);
+      }
+      return Array.from({ length: times === undefined ? 1 : Number(times) }, SOLUTION_MOVES[move]);
+    });
+
+/**
+ * The configuration a puzzle is played with: its board's size, the standard
+ * tetrominoes and a preview of as much of its sequence as fits.
+ *
+ * @param puzzle The puzzle
+ * @returns The game configuration for it
+ */
+export const puzzleConfig = (puzzle: Puzzle): Partial<GameConfig> => ({
+  MODE: "puzzle",
+  PUZZLE: puzzle,
+  GRID_WIDTH: puzzle.board[0].length,
+  GRID_HEIGHT: puzzle.board.length,
+  PIECES: PieceSets.tetrominoes,
+  NEXT_PIECES: Math.min(6, puzzle.pieces.length - 1),
+});
+
+/**
+ * The puzzles that come with the game, easiest first.
+ */
+export const PUZZLES: ReadonlyArray<Puzzle> = [tetris, perfectClear, tSpinDouble, tSpinTriple, survival].map(
+  readPuzzle
+);
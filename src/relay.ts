@@ -0,0 +1,139 @@
+/**
+ * The relay server's rules, kept free of any networking so the Node server
+ * (scripts/relay-server.ts) and the in-memory transport (transport.ts) share them.
+ * Clients are told apart by a numeric id the server gives each connection.
+ * A room seats two players; everything a seated player sends after joining is
+ * passed on to the other.
+ */
+
+import { ClientMessage, MAX_NAME_LENGTH, MAX_ROOM_LENGTH, Message, PROTOCOL_VERSION } from "./protocol";
+import { Player } from "./versus";
+
+/**
+ * A player seated in a room.
+ */
+export type Seat = Readonly<{
+  id: number; // the client's connection id
+  name: string;
+  player: Player;
+}>;
+
+/**
+ * The rooms of a relay, keyed by name. Empty rooms are removed. A map, as
+ * room names come from clients and may be any string, "__proto__" included.
+ */
+export type Relay = Readonly<{
+  rooms: ReadonlyMap<string, ReadonlyArray<Seat>>;
+}>;
+
+/**
+ * A message for the relay to send to one client.
+ */
+export type Outgoing = Readonly<{
+  to: number;
+  message: Message;
+}>;
+
+/**
+ * @returns A relay with no rooms
+ */
+export const createRelay = (): Relay => ({ rooms: new Map() });
+
+/**
+ * @param relay The relay
+ * @param id A client's connection id
+ * @returns The name of the room the client is seated in, if any
+ */
+const roomOf = (relay: Relay, id: number): string | undefined =>
+  Array.from(relay.rooms).find(([_, seats]) => seats.some(seat => seat.id === id))?.[0];
+
+/**
+ * Replaces a room's seats, removing the room once it's empty.
+ */
+const withRoom = (relay: Relay, room: string, seats: ReadonlyArray<Seat>): Relay => {
+  const others = Array.from(relay.rooms).filter(([name]) => name !== room);
+  return { rooms: new Map(seats.length === 0 ? others : [...others, [room, seats]]) };
+};
+
+/** Checks a room or player name is a string that isn't empty or too long. */
+const isName = (value: unknown, max: number): value is string =>
+  typeof value === "string" && value.length > 0 && value.length <= max;
+
+/**
+ * Seats a client in a room, as whichever player is free.
+ */
+const join = (relay: Relay, id: number, message: Extract<ClientMessage, { type: "join" }>): [Relay, Outgoing[]] => {
+  const error = (reason: string): [Relay, Outgoing[]] => [relay, [{ to: id, message: { type: "error", reason } }]];
+  if (message.version !== PROTOCOL_VERSION) {
+    return error(`Unsupported protocol version ${message.version}`);
+  }
+  if (!isName(message.room, MAX_ROOM_LENGTH)) {
+    return error("Invalid room name");
+  }
+  if (!isName(message.name, MAX_NAME_LENGTH)) {
+    return error("Invalid player name");
+  }
+  if (roomOf(relay, id) !== undefined) {
+    return error("Already in a room");
+  }
+
+  const seats = relay.rooms.get(message.room) ?? [];
+  if (seats.length >= 2) {
+    return error("Room is full");
+  }
+
+  const seat: Seat = { id, name: message.name, player: seats.some(other => other.player === 0) ? 1 : 0 };
+  const opponent = seats[0];
+  return [
+    withRoom(relay, message.room, [...seats, seat]),
+    [
+      { to: id, message: { type: "joined", player: seat.player, opponent: opponent?.name ?? null } },
+      ...(opponent ? [{ to: opponent.id, message: { type: "opponentJoined", name: seat.name } } as const] : []),
+    ],
+  ];
+};
+
+/**
+ * Handles a message from a client: joins are answered by the relay, anything
+ * else from a seated player goes to their opponent.
+ *
+ * @param relay The relay
+ * @param from The sender's connection id
+ * @param message The message
+ * @returns The updated relay and the messages to send
+ */
+export const relayMessage = (relay: Relay, from: number, message: ClientMessage): [Relay, Outgoing[]] => {
+  if (message.type === "join") {
+    return join(relay, from, message);
+  }
+
+  const room = roomOf(relay, from);
+  if (room === undefined) {
+    return [relay, [{ to: from, message: { type: "error", reason: "Join a room first" } }]];
+  }
+
+  return [
+    relay,
+    relay.rooms.get(room)!.filter(seat => seat.id !== from).map(seat => ({ to: seat.id, message })),
+  ];
+};
+
+/**
+ * Unseats a client whose connection closed, telling their opponent.
+ *
+ * @param relay The relay
+ * @param id The client's connection id
+ * @returns The updated relay and the messages to send
+ */
+export const relayDisconnect = (relay: Relay, id: number): [Relay, Outgoing[]] => {
+  const room = roomOf(relay, id);
+  if (room === undefined) {
+    return [relay, []];
+  }
+
+  const remaining = relay.rooms.get(room)!.filter(seat => seat.id !== id);
+  return [
+    withRoom(relay, room, remaining),
+    remaining.map(seat => ({ to: seat.id, message: { type: "opponentLeft" } })),
+  ];
+};
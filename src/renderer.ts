@@ -0,0 +1,227 @@
+/**
+ * Renderers draw scenes (see scene.ts) onto the page. The SVG renderer is
+ * retained: it keeps an element per key of the scene and, each frame, only
+ * sets the attributes that changed since the last. The canvas renderer paints
+ * the whole scene each frame, which costs nothing in the DOM and suits large
+ * boards. Both are Renderers, so the game draws through either the same way.
+ */
+
+import { GameConfig, State } from "./types";
+import { Constants, FRAME_MS, createInitialState, reduceState } from "./state";
+import { Advance } from "./handling";
+import { BotMove } from "./bot";
+import { Scene, Sprite, boardScene } from "./scene";
+
+/**
+ * Something that draws scenes.
+ */
+export type Renderer = Readonly<{
+  draw: (scene: Scene) => void;
+}>;
+
+/**
+ * What changed about a scene from one frame to the next.
+ */
+export type SceneChange =
+  | Readonly<{ type: "add"; key: string; sprite: Sprite }>
+  | Readonly<{ type: "update"; key: string; sprite: Sprite; changed: ReadonlyArray<keyof Sprite> }>
+  | Readonly<{ type: "remove"; key: string }>;
+
+/** The attribute each field of a sprite is drawn with. Fill and stroke go in the style, over the page's CSS. */
+const ATTRIBUTES: Readonly<Record<keyof Sprite, string>> = {
+  x: "x",
+  y: "y",
+  fill: "style",
+  stroke: "style",
+  opacity: "opacity",
+};
+
+const FIELDS = Object.keys(ATTRIBUTES) as ReadonlyArray<keyof Sprite>;
+
+/**
+ * Works out what changed from one scene to the next: the keys that came and
+ * went, and the fields that changed for those in both.
+ *
+ * @param previous The scene drawn last
+ * @param next The scene to draw
+ * @returns The changes, none if the scenes look the same
+ */
+export const sceneChanges = (previous: Scene, next: Scene): ReadonlyArray<SceneChange> => [
+  ...Array.from(previous.keys())
+    .filter(key => !next.has(key))
+    .map((key): SceneChange => ({ type: "remove", key })),
+  ...Array.from(next).flatMap(([key, sprite]): ReadonlyArray<SceneChange> => {
+    const before = previous.get(key);
+    if (before === undefined) {
+      return [{ type: "add", key, sprite }];
+    }
+    const changed = FIELDS.filter(field => before[field] !== sprite[field]);
+    return changed.length === 0 ? [] : [{ type: "update", key, sprite, changed }];
+  }),
+];
+
+/** The attributes that show a sprite's fields. */
+const attributeNames = (fields: ReadonlyArray<keyof Sprite>): ReadonlyArray<string> =>
+  Array.from(new Set(fields.map(field => ATTRIBUTES[field])));
+
+/**
+ * Counts the DOM mutations a set of changes makes, as a MutationObserver
+ * would see them: an element added or removed is one, and so is each
+ * attribute changed on an element already on the page.
+ *
+ * @param changes The changes
+ * @returns The number of mutations
+ */
+export const mutationCount = (changes: ReadonlyArray<SceneChange>): number =>
+  changes.reduce(
+    (count, change) => count + (change.type === "update" ? attributeNames(change.changed).length : 1),
+    0
+  );
+
+/** Whether a sprite draws anything. */
+const visible = (sprite: Sprite): boolean => sprite.fill !== "none" || sprite.stroke !== "none";
+
+/**
+ * The value of one of a sprite's attributes, scaled to the size of a cell. An
+ * outline is dashed, as the ghost piece is.
+ */
+const attributeValue = (sprite: Sprite, name: string, size: number): string => {
+  switch (name) {
+    case "x":
+      return `${sprite.x * size}`;
+    case "y":
+      return `${sprite.y * size}`;
+    case "style":
+      return sprite.stroke === "none"
+        ? `fill: ${sprite.fill}`
+        : `fill: ${sprite.fill}; stroke: ${sprite.stroke}; stroke-dasharray: 3 2`;
+    default:
+      return `${sprite.opacity}`;
+  }
+};
+
+const setAttributes = (rect: SVGElement, sprite: Sprite, fields: ReadonlyArray<keyof Sprite>, size: number) =>
+  attributeNames(fields).forEach(name => rect.setAttribute(name, attributeValue(sprite, name, size)));
+
+/**
+ * Creates a renderer that draws into an SVG group, keeping one rect per key
+ * of the scene across frames.
+ *
+ * @param group The group to draw into; the renderer owns its children
+ * @param size The size of a cell, in SVG units
+ * @returns The renderer
+ */
+export const createSvgRenderer = (group: SVGGraphicsElement, size: number): Renderer => {
+  const elements = new Map<string, SVGElement>();
+  let shown: Scene = new Map();
+
+  return {
+    draw: scene => {
+      sceneChanges(shown, scene).forEach(change => {
+        if (change.type === "remove") {
+          elements.get(change.key)?.remove();
+          elements.delete(change.key);
+        } else if (change.type === "add") {
+          const rect = document.createElementNS(group.namespaceURI, "rect") as SVGElement;
+          rect.setAttribute("width", `${size}`);
+          rect.setAttribute("height", `${size}`);
+          setAttributes(rect, change.sprite, FIELDS, size);
+          group.appendChild(rect);
+          elements.set(change.key, rect);
+        } else {
+          setAttributes(elements.get(change.key)!, change.sprite, change.changed, size);
+        }
+      });
+      shown = scene;
+    },
+  };
+};
+
+/**
+ * Creates a renderer that paints onto a 2D canvas, clearing it each frame.
+ *
+ * @param canvas The canvas to paint on
+ * @param size The size of a cell, in canvas pixels
+ * @returns The renderer
+ */
+export const createCanvasRenderer = (canvas: HTMLCanvasElement, size: number): Renderer => {
+  const context = canvas.getContext("2d")!;
+
+  return {
+    draw: scene => {
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      context.lineWidth = 2; // set each frame, since resizing the canvas resets it
+      Array.from(scene.values())
+        .filter(visible)
+        .forEach(({ x, y, fill, stroke, opacity }) => {
+          context.globalAlpha = opacity;
+          if (fill !== "none") {
+            context.fillStyle = fill;
+            context.fillRect(x * size, y * size, size, size);
+          }
+          // filled cells are outlined in black, as style.css outlines the SVG's
+          context.strokeStyle = stroke === "none" ? "black" : stroke;
+          context.setLineDash(stroke === "none" ? [] : [3, 2]);
+          context.strokeRect(x * size, y * size, size, size);
+        });
+      context.globalAlpha = 1;
+    },
+  };
+};
+
+/**
+ * The settings of a rendering benchmark.
+ */
+export type RenderBenchmarkOptions = Readonly<{
+  seed: number;
+  frames: number; // display frames to draw
+  placeEvery: number; // frames between the bot's placements
+  config: Partial<GameConfig>;
+}>;
+
+/**
+ * The DOM mutations a game's frames took, on average, drawn both ways.
+ */
+export type RenderBenchmarkResult = Readonly<{
+  frames: number;
+  retained: number; // mutations per frame, keeping an element per cell
+  recreated: number; // mutations per frame, removing every rect and adding them again
+}>;
+
+const DEFAULT_RENDER_BENCHMARK: RenderBenchmarkOptions = {
+  seed: 1,
+  frames: 1200,
+  placeEvery: 15,
+  config: {},
+};
+
+/**
+ * Lets the bot play a game one frame at a time and counts the DOM mutations
+ * drawing each frame would take: keeping an element per cell and updating
+ * what changed, as the SVG renderer does, against clearing the board and
+ * adding a rect for every filled cell again.
+ *
+ * @param options The benchmark's settings
+ * @returns The mutations per frame each way
+ */
+export const benchmarkRendering = (options: Partial<RenderBenchmarkOptions> = {}): RenderBenchmarkResult => {
+  const { seed, frames, placeEvery, config } = { ...DEFAULT_RENDER_BENCHMARK, ...options };
+  const bot = new BotMove();
+  const step = new Advance(FRAME_MS);
+  const start = createInitialState(seed, { ...Constants, ...config });
+  const [, , retained, recreated] = Array.from({ length: frames }).reduce<readonly [State, Scene, number, number]>(
+    ([s, previous, retained, recreated], _, frame) => {
+      const next = reduceState(frame % placeEvery === placeEvery - 1 ? reduceState(s, bot) : s, step);
+      const scene = boardScene(next, s);
+      const drawn = Array.from(previous.values()).filter(visible).length;
+      return [
+        next,
+        scene,
+        retained + mutationCount(sceneChanges(previous, scene)),
+        recreated + drawn + Array.from(scene.values()).filter(visible).length,
+      ];
+    },
+    [start, boardScene(start), 0, 0]
+  );
+  return { frames, retained: retained / Math.max(1, frames), recreated: recreated / Math.max(1, frames) };
+};
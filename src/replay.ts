@@ -0,0 +1,296 @@
+/**
+ * Replays: a game's seed and ruleset plus a timestamped log of every action
+ * dispatched to it. Because the engine is deterministic, feeding the log back
+ * through the same reducer reproduces the game exactly.
+ */
+
+import { Action, Control, GameConfig, GarbageBatch, State } from "./types";
+import { Advance, Handling, Press, Release, SetHandling } from "./handling";
+import {
+  HardDrop,
+  Hold,
+  Move,
+  Pause,
+  Restart,
+  Rotate,
+  SoftDrop,
+  Tick,
+  createInitialState,
+  reduceState,
+} from "./state";
+import { BotMove, DEFAULT_WEIGHTS, Weights } from "./bot";
+import { ReceiveGarbage } from "./garbage";
+import { EndMatch } from "./versus";
+
+/** The replay format version written by this build. */
+export const REPLAY_VERSION = 1;
+
+/**
+ * A JSON-friendly description of an action.
+ */
+export type ActionRecord =
+  | Readonly<{ type: "advance"; ms: number }>
+  | Readonly<{ type: "tick" }>
+  | Readonly<{ type: "move"; x: number; y: number }>
+  | Readonly<{ type: "rotate"; turns: 1 | -1 | 2 }>
+  | Readonly<{ type: "softDrop" }>
+  | Readonly<{ type: "hardDrop" }>
+  | Readonly<{ type: "hold" }>
+  | Readonly<{ type: "press"; control: Control }>
+  | Readonly<{ type: "release"; control: Control }>
+  | Readonly<{ type: "pause"; paused?: boolean }>
+  | Readonly<{ type: "restart"; seed?: number }>
+  | Readonly<{ type: "bot"; weights?: Weights }>
+  | Readonly<{ type: "garbage"; batch: GarbageBatch }>
+  | Readonly<{ type: "endMatch"; won: boolean }>
+  | Readonly<{ type: "handling"; handling: Handling }>;
+
+/**
+ * An action in a replay, stamped with the game clock (the total time advanced
+ * so far) at the moment it was dispatched.
+ */
+export type ReplayEntry = Readonly<{
+  time: number;
+  action: ActionRecord;
+}>;
+
+/**
+ * A recorded game.
+ */
+export type Replay = Readonly<{
+  version: number;
+  seed: number;
+  config: GameConfig;
+  start?: State; // the state recording began from, for games resumed from a save
+  duration: number; // the game clock at the end of the recording
+  entries: ReadonlyArray<ReplayEntry>;
+}>;
+
+/**
+ * The state of a replay being played back.
+ */
+export type Playback = Readonly<{
+  replay: Replay;
+  state: State;
+  cursor: number; // index of the next entry to apply
+  time: number; // the playback clock
+  paused: boolean;
+  speed: number; // playback speed multiplier
+}>;
+
+/**
+ * Describes an action as a JSON-friendly record.
+ *
+ * @param a The action to describe
+ * @returns The action's record
+ * @throws Error if the action can't be recorded
+ */
+export const encodeAction = (a: Action): ActionRecord => {
+  if (a instanceof Advance) return { type: "advance", ms: a.ms };
+  if (a instanceof Tick) return { type: "tick" };
+  if (a instanceof Move) return { type: "move", x: a.pos.x, y: a.pos.y };
+  if (a instanceof Rotate) return { type: "rotate", turns: a.turns };
+  if (a instanceof SoftDrop) return { type: "softDrop" };
+  if (a instanceof HardDrop) return { type: "hardDrop" };
+  if (a instanceof Hold) return { type: "hold" };
+  if (a instanceof Press) return { type: "press", control: a.control };
+  if (a instanceof Release) return { type: "release", control: a.control };
+  if (a instanceof Pause) return a.paused === undefined ? { type: "pause" } : { type: "pause", paused: a.paused };
+  if (a instanceof Restart) return a.seed === undefined ? { type: "restart" } : { type: "restart", seed: a.seed };
+  if (a instanceof BotMove) return a.weights === DEFAULT_WEIGHTS ? { type: "bot" } : { type: "bot", weights: a.weights };
+  if (a instanceof ReceiveGarbage) return { type: "garbage", batch: a.batch };
+  if (a instanceof EndMatch) return { type: "endMatch", won: a.won };
+  if (a instanceof SetHandling) return { type: "handling", handling: a.handling };
+  throw new Error(`Cannot record action ${a.constructor.name}`);
+};
+
+/**
+ * Recreates an action from its record.
+ *
+ * @param r The action's record
+ * @returns The action
+ */
+export const decodeAction = (r: ActionRecord): Action => {
+  switch (r.type) {
+    case "advance":
+      return new Advance(r.ms);
+    case "tick":
+      return new Tick();
+    case "move":
+      return new Move({ x: r.x, y: r.y });
+    case "rotate":
+      return new Rotate(r.turns);
+    case "softDrop":
+      return new SoftDrop();
+    case "hardDrop":
+      return new HardDrop();
+    case "hold":
+      return new Hold();
+    case "press":
+      return new Press(r.control);
+    case "release":
+      return new Release(r.control);
+    case "pause":
+      return new Pause(r.paused);
+    case "restart":
+      return new Restart(r.seed);
+    case "bot":
+      return new BotMove(r.weights);
+    case "garbage":
+      return new ReceiveGarbage(r.batch);
+    case "endMatch":
+      return new EndMatch(r.won);
+    case "handling":
+      return new SetHandling(r.handling);
+  }
+};
+
+/**
+ * Starts an empty recording of a game.
+ *
+ * @param s The game's initial state
+ * @param resumed True if the game was resumed from a save or set up from a
+ * position rather than started from its seed, in which case the state itself
+ * is kept in the replay
+ * @returns An empty replay
+ */
+export const createReplay = (s: State, resumed = false): Replay => ({
+  version: REPLAY_VERSION,
+  seed: s.seed,
+  config: s.config,
+  ...(resumed ? { start: s } : {}),
+  duration: 0,
+  entries: [],
+});
+
+/**
+ * @param r The replay
+ * @returns The state the replay starts from
+ */
+const startState = (r: Replay): State => r.start ?? createInitialState(r.seed, r.config);
+
+/**
+ * Appends an action to a recording.
+ *
+ * @param r The replay being recorded
+ * @param a The action that was dispatched
+ * @returns The replay with the action appended
+ */
+export const recordAction = (r: Replay, a: Action): Replay => {
+  const time = a instanceof Advance ? r.duration + a.ms : r.duration;
+  return { ...r, duration: time, entries: [...r.entries, { time, action: encodeAction(a) }] };
+};
+
+/**
+ * Serialises a replay to JSON.
+ */
+export const exportReplay = (r: Replay): string => JSON.stringify(r);
+
+/**
+ * Reads a replay from JSON.
+ *
+ * @param json A replay written by exportReplay
+ * @returns The replay
+ * @throws Error if the JSON isn't a replay this build can play
+ */
+export const importReplay = (json: string): Replay => {
+  const r = JSON.parse(json);
+  if (typeof r !== "object" || r === null || !Array.isArray(r.entries) || typeof r.seed !== "number") {
+    throw new Error("Not a replay file");
+  }
+  if (r.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${r.version}`);
+  }
+  return r as Replay;
+};
+
+/**
+ * Plays every action of a replay at once.
+ *
+ * @param r The replay
+ * @returns The game state at the end of the replay
+ */
+export const runReplay = (r: Replay): State =>
+  r.entries.map(e => decodeAction(e.action)).reduce(reduceState, startState(r));
+
+/** Playback */
+
+/**
+ * Loads a replay for playback, positioned at its start.
+ */
+export const createPlayback = (replay: Replay): Playback => ({
+  replay,
+  state: startState(replay),
+  cursor: 0,
+  time: 0,
+  paused: false,
+  speed: 1,
+});
+
+/**
+ * @returns True once every entry of the replay has been played
+ */
+export const isFinished = (p: Playback): boolean => p.cursor >= p.replay.entries.length;
+
+/**
+ * Plays the next entry of the replay, moving the clock to its time.
+ */
+export const stepPlayback = (p: Playback): Playback => {
+  if (isFinished(p)) return p;
+  const entry = p.replay.entries[p.cursor];
+  return {
+    ...p,
+    state: reduceState(p.state, decodeAction(entry.action)),
+    cursor: p.cursor + 1,
+    time: Math.max(p.time, entry.time),
+  };
+};
+
+/**
+ * Plays every entry up to the given time.
+ */
+const playUntil = (p: Playback, time: number): Playback => {
+  const entries = p.replay.entries;
+  const next = entries.findIndex((e, i) => i >= p.cursor && e.time > time);
+  const cursor = next === -1 ? entries.length : next;
+
+  return {
+    ...p,
+    state: entries.slice(p.cursor, cursor).map(e => decodeAction(e.action)).reduce(reduceState, p.state),
+    cursor,
+    time: Math.max(p.time, Math.min(time, p.replay.duration)),
+  };
+};
+
+/**
+ * Moves playback on by real time, scaled by the playback speed.
+ *
+ * @param p The playback
+ * @param ms Real time that has passed, in milliseconds
+ * @returns The playback after the time has passed, unchanged while paused
+ */
+export const advancePlayback = (p: Playback, ms: number): Playback =>
+  p.paused ? p : playUntil(p, p.time + ms * p.speed);
+
+/**
+ * Jumps to a point in the replay. Seeking backwards replays from the start,
+ * since states can't be rewound.
+ *
+ * @param p The playback
+ * @param time The game clock to jump to
+ * @returns The playback at that time
+ */
+export const seekPlayback = (p: Playback, time: number): Playback => {
+  const from = time < p.time ? { ...createPlayback(p.replay), paused: p.paused, speed: p.speed } : p;
+  return playUntil(from, time);
+};
+
+/**
+ * Pauses or resumes playback.
+ */
+export const setPaused = (p: Playback, paused: boolean): Playback => ({ ...p, paused });
+
+/**
+ * Changes the playback speed.
+ */
+export const setSpeed = (p: Playback, speed: number): Playback => ({ ...p, speed });
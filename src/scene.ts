@@ -0,0 +1,157 @@
+/**
+ * Scenes: what a board looks like at a moment, as a set of cells to draw. A
+ * scene keys every cell it draws, the same key from one frame to the next for
+ * the same thing on screen, so a renderer (see renderer.ts) can keep an
+ * element per key and only touch what changed.
+ */
+
+import { Block, State } from "./types";
+import { Effect, clearingCell, clearProgress, effectOpacity } from "./effects";
+import { colourOf, shapeBounds } from "./pieces";
+import { dropPiece } from "./state";
+
+/**
+ * A cell drawn on a board, in cells from its top left. An empty board cell is
+ * drawn with no fill, so it keeps its place in the scene.
+ */
+export type Sprite = Readonly<{
+  x: number;
+  y: number;
+  fill: string; // "none" for an outline or an empty cell
+  stroke: string; // "none" for no outline
+  opacity: number;
+}>;
+
+/**
+ * The cells of a board, by key. Keys are stable: the board's cells are always
+ * there, and a piece's cells are numbered in order.
+ */
+export type Scene = ReadonlyMap<string, Sprite>;
+
+const sprite = (x: number, y: number, fill: string, stroke = "none", opacity = 1): Sprite => ({
+  x,
+  y,
+  fill,
+  stroke,
+  opacity,
+});
+
+/** The filled cells of a piece's shape, offset to where it is. */
+const pieceCells = (piece: Block, x = piece.x, y = piece.y): ReadonlyArray<readonly [number, number]> =>
+  piece.shapesArray.flatMap((row, rowIndex) =>
+    row.flatMap((value, colIndex) => (value === 1 ? [[x + colIndex, y + rowIndex] as const] : []))
+  );
+
+/**
+ * Where to draw the falling piece between two simulation steps. A piece still
+ * falling from one step to the next is drawn part of the way between the two;
+ * a new piece, or one that turned, is drawn where it is.
+ *
+ * @param previous The state at the step before, or null if there was none
+ * @param s The state at the latest step
+ * @param alpha How far the display is between the two steps, from 0 to 1
+ * @returns The piece's position, possibly between cells
+ */
+export const interpolatePiece = (
+  previous: State | null,
+  s: State,
+  alpha: number
+): Readonly<{ x: number; y: number }> => {
+  const piece = s.currentTetromino;
+  const before = previous?.currentTetromino;
+  const moving =
+    previous !== null &&
+    before !== undefined &&
+    previous.pieces === s.pieces &&
+    previous.delay === 0 &&
+    before.name === piece.name &&
+    before.rotation === piece.rotation;
+  return moving
+    ? { x: before.x + (piece.x - before.x) * alpha, y: before.y + (piece.y - before.y) * alpha }
+    : { x: piece.x, y: piece.y };
+};
+
+/**
+ * Works out what a board shows: its cells (during a line clear, as they were,
+ * with the full rows flashing and dissolving), the ghost and falling piece
+ * while one is falling, and any lock flashes and hard drop trails.
+ *
+ * @param s The state at the latest step
+ * @param previous The state at the step before, to draw the falling piece between the two
+ * @param alpha How far the display is between the two steps, from 0 to 1
+ * @param effects The effects showing
+ * @returns The scene
+ */
+export const boardScene = (
+  s: State,
+  previous: State | null = null,
+  alpha = 1,
+  effects: ReadonlyArray<Effect> = []
+): Scene => {
+  const clearing = clearProgress(s) !== null ? s.lineClear : null;
+  const board = (clearing ? clearing.board : s.gameBoard).flatMap((row, y) =>
+    row.map((value, x): [string, Sprite] => {
+      const cell = value !== null && clearing && clearing.rows.includes(y) ? clearingCell(s, x) : null;
+      const fill = value === null ? "none" : cell && cell.flash ? "white" : colourOf(s.config.PIECES, value);
+      return [`cell:${x},${y}`, sprite(x, y, fill, "none", cell ? cell.opacity : 1)];
+    })
+  );
+
+  // between pieces, the piece that locked is part of the board and the next
+  // hasn't come in yet
+  const current = s.currentTetromino;
+  const colour = colourOf(s.config.PIECES, current.colour);
+  const { x, y } = interpolatePiece(previous, s, alpha);
+  const falling =
+    s.delay === 0
+      ? [
+          ...pieceCells(dropPiece(s).currentTetromino).map(
+            ([cellX, cellY], index): [string, Sprite] => [`ghost:${index}`, sprite(cellX, cellY, "none", colour)]
+          ),
+          ...pieceCells(current, x, y).map(
+            ([cellX, cellY], index): [string, Sprite] => [`piece:${index}`, sprite(cellX, cellY, colour)]
+          ),
+        ]
+      : [];
+
+  const shown = effects.flatMap((effect, index) =>
+    effect.cells.map(([cellX, cellY], cell): [string, Sprite] => [
+      `effect:${index}:${cell}`,
+      sprite(
+        cellX,
+        cellY,
+        effect.kind === "lockFlash" ? "white" : colourOf(s.config.PIECES, effect.colour),
+        "none",
+        effectOpacity(effect)
+      ),
+    ])
+  );
+
+  return new Map([...board, ...falling, ...shown]);
+};
+
+/**
+ * Works out what a stack of mini-boards shows, as in the hold and preview
+ * canvases: each piece centred in its own, going by the bounding box of its
+ * filled cells rather than its shape's grid.
+ *
+ * @param pieces The pieces, top first, with the colours to draw them in
+ * @param columns The width of a mini-board in cells
+ * @param rows The height of a mini-board in cells
+ * @returns The scene
+ */
+export const miniBoardScene = (
+  pieces: ReadonlyArray<readonly [Block, string]>,
+  columns: number,
+  rows: number
+): Scene =>
+  new Map(
+    pieces.flatMap(([piece, colour], slot) => {
+      const bounds = shapeBounds(piece.shapesArray);
+      const left = (columns - bounds.width) / 2 - bounds.left;
+      const top = slot * rows + (rows - bounds.height) / 2 - bounds.top;
+      return pieceCells(piece, left, top).map(
+        ([x, y], index): [string, Sprite] => [`${slot}:${index}`, sprite(x, y, colour)]
+      );
+    })
+  );
@@ -0,0 +1,137 @@
+/**
+ * Tetris Guideline scoring, levelling and gravity. Everything here is a pure
+ * function of the game state, used by the engine when a piece locks.
+ */
+
+import { ClearType, State, TSpin } from "./types";
+
+/** Base points for clearing 0-4 lines without a T-spin. */
+const LINE_CLEAR_POINTS = [0, 100, 300, 500, 800];
+
+/** Base points for a T-spin clearing 0-3 lines. */
+const T_SPIN_POINTS = [400, 800, 1200, 1600];
+
+/** Base points for a mini T-spin clearing 0-2 lines. */
+const MINI_T_SPIN_POINTS = [100, 200, 400];
+
+/** Bonus points for a perfect clear of 1-4 lines. */
+const PERFECT_CLEAR_POINTS = [0, 800, 1200, 1800, 2000];
+
+/** Bonus points for a perfect clear tetris made back-to-back. */
+const BACK_TO_BACK_PERFECT_CLEAR_POINTS = 3200;
+
+/** Points per combo step, awarded for each consecutive clear after the first. */
+const COMBO_POINTS = 50;
+
+/** Multiplier for a difficult clear that follows another difficult clear. */
+const BACK_TO_BACK_MULTIPLIER = 1.5;
+
+/** Lines needed to advance a level. */
+export const LINES_PER_LEVEL = 10;
+
+/** The shortest gravity interval the game runs at, one 60 Hz frame. */
+const MIN_GRAVITY_MS = 1000 / 60;
+
+/**
+ * Checks whether a clear is "difficult", i.e. eligible for the back-to-back
+ * bonus: a tetris, or any T-spin that clears lines.
+ *
+ * @param clear The clear to check
+ * @returns True for a difficult clear
+ */
+export const isDifficult = (clear: ClearType): boolean =>
+  clear.lines === 4 || (clear.tSpin !== "none" && clear.lines > 0);
+
+/**
+ * Detects a T-spin with the three-corner rule. The last successful move must
+ * have been a rotation, and at least three of the four cells diagonal to the
+ * T's centre must be filled (walls and floor count as filled). It's a full
+ * T-spin if both corners on the side the T points to are filled, or if the
+ * rotation needed the fifth kick; otherwise it's a mini.
+ *
+ * @param s The game state, with the T in its locking position
+ * @returns The kind of T-spin
+ */
+export const detectTSpin = (s: State): TSpin => {
+  const piece = s.currentTetromino;
+  if (piece.name !== "T" || s.lastKick === null) return "none";
+
+  const filled = (x: number, y: number) =>
+    x < 0 ||
+    x >= s.gameBoard[0].length ||
+    y >= s.gameBoard.length ||
+    (y >= 0 && s.gameBoard[y][x] !== null);
+
+  // corners of the T's 3x3 box, clockwise from top-left
+  const corners = [[0, 0], [2, 0], [2, 2], [0, 2]].map(([dx, dy]) => filled(piece.x + dx, piece.y + dy));
+  if (corners.filter(Boolean).length < 3) return "none";
+
+  // the two corners either side of the direction the T points in
+  const front = [corners[piece.rotation], corners[(piece.rotation + 1) % 4]];
+  return front.every(Boolean) || s.lastKick === 4 ? "full" : "mini";
+};
+
+/**
+ * Calculates the points scored by a lock.
+ *
+ * @param clear The lines cleared by the lock and how
+ * @param level The level the lock happened on
+ * @param backToBack True if the previous clear was difficult
+ * @param combo The combo count including this clear (0 for the first clear)
+ * @returns The points scored
+ */
+export const clearPoints = (
+  clear: ClearType,
+  level: number,
+  backToBack: boolean,
+  combo: number
+): number => {
+  const base =
+    clear.tSpin === "full"
+      ? T_SPIN_POINTS[clear.lines]
+      : clear.tSpin === "mini"
+      ? MINI_T_SPIN_POINTS[clear.lines]
+      : LINE_CLEAR_POINTS[clear.lines];
+  const multiplier = backToBack && isDifficult(clear) ? BACK_TO_BACK_MULTIPLIER : 1;
+  const comboPoints = clear.lines > 0 ? COMBO_POINTS * Math.max(combo, 0) : 0;
+  const perfectClearPoints = !clear.perfectClear
+    ? 0
+    : backToBack && clear.lines === 4
+    ? BACK_TO_BACK_PERFECT_CLEAR_POINTS
+    : PERFECT_CLEAR_POINTS[clear.lines];
+
+  return (Math.floor(base * multiplier) + comboPoints + perfectClearPoints) * level;
+};
+
+/**
+ * Applies a lock's clear to the score, line count, level, combo and
+ * back-to-back status.
+ *
+ * @param s The game state after the lock's lines have been removed
+ * @param clear The lines cleared by the lock and how
+ * @returns The updated game state
+ */
+export const scoreClear = (s: State, clear: ClearType): State => {
+  const combo = clear.lines > 0 ? s.combo + 1 : -1;
+  const lines = s.lines + clear.lines;
+
+  return {
+    ...s,
+    score: s.score + clearPoints(clear, s.level, s.backToBack, combo),
+    lines,
+    level: Math.max(s.level, s.config.START_LEVEL + Math.floor(lines / LINES_PER_LEVEL)),
+    combo,
+    // only a line clear can start or break a back-to-back chain
+    backToBack: clear.lines > 0 ? isDifficult(clear) : s.backToBack,
+    lastClear: clear.lines > 0 || clear.tSpin !== "none" ? clear : s.lastClear,
+  };
+};
+
+/**
+ * The guideline gravity curve: the time a piece takes to fall one row.
+ *
+ * @param level The current level (1 and up)
+ * @returns The gravity interval in milliseconds
+ */
+export const gravityInterval = (level: number): number =>
+  Math.max(MIN_GRAVITY_MS, Math.pow(0.8 - (level - 1) * 0.007, level - 1) * 1000);
@@ -0,0 +1,183 @@
+/**
+ * Player settings: each player's key bindings, the gamepad's buttons, the
+ * handling values new games are played with, the touch controls and sound. They're kept in a
+ * KeyValueStore between visits, and anything missing or corrupt there reads as the default.
+ */
+
+import { Key } from "./types";
+import { Constants } from "./state";
+import { Handling } from "./handling";
+import {
+  Binding,
+  Bindings,
+  GAMEPAD_BUTTONS,
+  GamepadBindings,
+  KeyBindings,
+  PLAYER_ONE_KEYS,
+  PLAYER_TWO_KEYS,
+  mapBindings,
+  rebind,
+} from "./input";
+import { Player } from "./versus";
+import { DEFAULT_TOUCH, TouchThresholds } from "./touch";
+import { KeyValueStore, readJson, writeJson } from "./storage";
+
+/** The storage key the settings are kept under. */
+export const SETTINGS_KEY = "tetris.settings";
+
+/**
+ * Everything on the settings screen.
+ */
+export type Settings = Readonly<{
+  keys: readonly [KeyBindings, KeyBindings]; // player one's, then player two's
+  gamepad: GamepadBindings;
+  handling: Handling;
+  touch: TouchThresholds;
+  buttonPad: boolean; // whether the on-screen buttons are shown
+  sound: boolean; // whether sound effects play
+}>;
+
+/**
+ * The range each handling value may be set to.
+ */
+export const HANDLING_LIMITS: Readonly<Record<keyof Handling, readonly [number, number]>> = {
+  DAS_MS: [0, 500],
+  ARR_MS: [0, 200],
+  SOFT_DROP_FACTOR: [1, 100],
+};
+
+/**
+ * The range each touch threshold may be set to.
+ */
+export const TOUCH_LIMITS: Readonly<Record<keyof TouchThresholds, readonly [number, number]>> = {
+  TAP_MS: [50, 1000],
+  TAP_DISTANCE: [0.1, 3],
+  SWIPE_SPEED: [5, 200],
+  SOFT_DROP_DISTANCE: [0.5, 10],
+};
+
+/**
+ * The settings of a first visit, and of resetting them.
+ */
+export const DEFAULT_SETTINGS: Settings = {
+  keys: [PLAYER_ONE_KEYS, PLAYER_TWO_KEYS],
+  gamepad: GAMEPAD_BUTTONS,
+  handling: {
+    DAS_MS: Constants.DAS_MS,
+    ARR_MS: Constants.ARR_MS,
+    SOFT_DROP_FACTOR: Constants.SOFT_DROP_FACTOR,
+  },
+  touch: DEFAULT_TOUCH,
+  buttonPad: false,
+  sound: true,
+};
+
+/**
+ * Brings each value within its limits, falling back to the default for a
+ * value that isn't a number.
+ */
+const clampValues = <T extends Record<string, number>>(
+  values: Partial<Record<keyof T, unknown>>,
+  limits: Readonly<Record<keyof T, readonly [number, number]>>,
+  defaults: T
+): T =>
+  (Object.keys(defaults) as Array<keyof T>).reduce((clamped, key) => {
+    const value = values[key];
+    const [min, max] = limits[key];
+    return {
+      ...clamped,
+      [key]: typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : defaults[key],
+    };
+  }, defaults);
+
+/**
+ * Brings handling values within their limits. A value that isn't a number
+ * falls back to the default.
+ *
+ * @param handling The handling values to check
+ * @returns The handling values, each within its limits
+ */
+export const clampHandling = (handling: Partial<Record<keyof Handling, unknown>>): Handling =>
+  clampValues(handling, HANDLING_LIMITS, DEFAULT_SETTINGS.handling);
+
+/**
+ * Brings touch thresholds within their limits, as clampHandling does handling.
+ *
+ * @param touch The thresholds to check
+ * @returns The thresholds, each within its limits
+ */
+export const clampTouch = (touch: Partial<Record<keyof TouchThresholds, unknown>>): TouchThresholds =>
+  clampValues(touch, TOUCH_LIMITS, DEFAULT_SETTINGS.touch);
+
+/**
+ * Binds a key to one of a player's bindings (see rebind).
+ *
+ * @param settings The settings
+ * @param player The player whose keys change
+ * @param binding The binding to change
+ * @param key The key to bind
+ * @returns The updated settings
+ */
+export const rebindKey = (settings: Settings, player: Player, binding: Binding, key: Key): Settings => {
+  const [one, two] = settings.keys;
+  return {
+    ...settings,
+    keys: player === 0 ? [rebind(one, binding, key), two] : [one, rebind(two, binding, key)],
+  };
+};
+
+/**
+ * Binds a gamepad button to a binding (see rebind).
+ *
+ * @param settings The settings
+ * @param binding The binding to change
+ * @param button The button to bind
+ * @returns The updated settings
+ */
+export const rebindButton = (settings: Settings, binding: Binding, button: number): Settings => ({
+  ...settings,
+  gamepad: rebind(settings.gamepad, binding, button),
+});
+
+/**
+ * Reads stored bindings, keeping the default for any binding that isn't a
+ * list of inputs of the right type.
+ */
+const parseBindings = <T>(value: unknown, fallback: Bindings<T>, type: "string" | "number"): Bindings<T> => {
+  const stored = typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+  return mapBindings(binding => {
+    const inputs = stored[binding];
+    return Array.isArray(inputs) && inputs.every(input => typeof input === type) ? inputs : fallback[binding];
+  });
+};
+
+/**
+ * Reads the settings from a store.
+ *
+ * @param store The store to read from
+ * @returns The stored settings, with defaults for anything missing or invalid
+ */
+export const loadSettings = (store: KeyValueStore): Settings => {
+  const stored = readJson<unknown>(store, SETTINGS_KEY, {});
+  const { keys, gamepad, handling, touch, buttonPad, sound } = (
+    typeof stored === "object" && stored !== null ? stored : {}
+  ) as Record<string, unknown>;
+  const [one, two] = Array.isArray(keys) ? keys : [];
+  return {
+    keys: [
+      parseBindings<Key>(one, DEFAULT_SETTINGS.keys[0], "string"),
+      parseBindings<Key>(two, DEFAULT_SETTINGS.keys[1], "string"),
+    ],
+    gamepad: parseBindings<number>(gamepad, DEFAULT_SETTINGS.gamepad, "number"),
+    handling: clampHandling(typeof handling === "object" && handling !== null ? handling : {}),
+    touch: clampTouch(typeof touch === "object" && touch !== null ? touch : {}),
+    buttonPad: typeof buttonPad === "boolean" ? buttonPad : DEFAULT_SETTINGS.buttonPad,
+    sound: typeof sound === "boolean" ? sound : DEFAULT_SETTINGS.sound,
+  };
+};
+
+/**
+ * Writes the settings to a store.
+ */
+export const saveSettings = (store: KeyValueStore, settings: Settings): void =>
+  writeJson(store, SETTINGS_KEY, settings);
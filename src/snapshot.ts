@@ -0,0 +1,185 @@
+/**
+ * Snapshots: a game state saved as versioned JSON so an in-progress game can
+ * be put away and picked up later with the same board, queue, RNG position
+ * and score.
+ */
+
+import { State } from "./types";
+import { KeyValueStore } from "./storage";
+import { isBlock, isGarbageBatch, isGrid, isInteger, isRecord, readConfig } from "./validation";
+
+/** The snapshot format version written by this build. */
+export const SNAPSHOT_VERSION = 1;
+
+/** The key a saved game is stored under. */
+export const SAVE_KEY = "tetris.save";
+
+/**
+ * A saved game.
+ */
+export type Snapshot = Readonly<{
+  version: number;
+  savedAt: string; // ISO 8601 date the game was saved
+  state: State;
+}>;
+
+/**
+ * Serialises a game state to a snapshot.
+ *
+ * @param s The game state
+ * @param date When the game was saved
+ * @returns The snapshot as JSON
+ */
+export const serializeState = (s: State, date: Date = new Date()): string => {
+  const snapshot: Snapshot = { version: SNAPSHOT_VERSION, savedAt: date.toISOString(), state: s };
+  return JSON.stringify(snapshot);
+};
+
+/** The ways a rotation can be a T-spin, for checking a saved last clear. */
+const T_SPINS: ReadonlyArray<unknown> = ["none", "mini", "full"];
+
+/**
+ * Reads the game state in a snapshot, checking it against its own config: a
+ * board of the config's size, pieces from its piece set, and counts and
+ * timers that are numbers. A save from another build or one edited by hand
+ * is rejected here rather than breaking the game once it's resumed.
+ *
+ * @param value The state, as parsed from JSON
+ * @returns The state
+ * @throws Error naming the first field that isn't valid
+ */
+const readState = (value: Record<string, unknown>): State => {
+  const invalid = (field: string) => new Error(`Invalid saved game ${field}`);
+  const config = readConfig(value.config);
+  const { GRID_WIDTH: width, GRID_HEIGHT: height, PIECES: pieces } = config;
+  const isPiece = (piece: unknown) => isBlock(piece, pieces);
+  const isName = (name: unknown) => typeof name === "string" && Object.prototype.hasOwnProperty.call(pieces, name);
+
+  if (!isGrid(value.gameBoard, width, height)) {
+    throw invalid("gameBoard");
+  }
+  if (!isPiece(value.currentTetromino)) {
+    throw invalid("currentTetromino");
+  }
+  const pieceField = ["holdTetromino", "lastLock"].find(field => value[field] !== null && !isPiece(value[field]));
+  if (pieceField !== undefined) {
+    throw invalid(pieceField);
+  }
+  if (!Array.isArray(value.queue) || !value.queue.every(isPiece)) {
+    throw invalid("queue");
+  }
+  const { generator } = value;
+  if (
+    !isRecord(generator) ||
+    typeof generator.seed !== "number" ||
+    !Number.isFinite(generator.seed) ||
+    !Array.isArray(generator.bag) ||
+    !generator.bag.every(isName) ||
+    !Array.isArray(generator.history) ||
+    !generator.history.every(isName)
+  ) {
+    throw invalid("generator");
+  }
+
+  const number = [
+    "score",
+    "highscore",
+    "level",
+    "lines",
+    "pieces",
+    "combo",
+    "delay",
+    "attack",
+    "time",
+    "gravityTimer",
+    "lockTimer",
+    "lockResets",
+    "lowestRow",
+    "seed",
+  ].find(field => typeof value[field] !== "number" || !Number.isFinite(value[field]));
+  if (number !== undefined) {
+    throw invalid(number);
+  }
+  const flag = ["gameEnd", "goalReached", "paused", "backToBack", "spawn", "canHold"].find(
+    field => typeof value[field] !== "boolean"
+  );
+  if (flag !== undefined) {
+    throw invalid(flag);
+  }
+
+  if (!Array.isArray(value.incoming) || !value.incoming.every(batch => isGarbageBatch(batch, width))) {
+    throw invalid("incoming");
+  }
+  const { lineClear, lastClear, lastKick } = value;
+  if (
+    lineClear !== null &&
+    !(
+      isRecord(lineClear) &&
+      Array.isArray(lineClear.rows) &&
+      lineClear.rows.every(row => isInteger(row, 0, height - 1)) &&
+      isGrid(lineClear.board, width, height)
+    )
+  ) {
+    throw invalid("lineClear");
+  }
+  if (
+    lastClear !== null &&
+    !(
+      isRecord(lastClear) &&
+      isInteger(lastClear.lines, 0, height) &&
+      T_SPINS.includes(lastClear.tSpin) &&
+      typeof lastClear.perfectClear === "boolean"
+    )
+  ) {
+    throw invalid("lastClear");
+  }
+  if (lastKick !== null && !isInteger(lastKick, 0, Number.MAX_SAFE_INTEGER)) {
+    throw invalid("lastKick");
+  }
+  return { ...(value as State), config };
+};
+
+/**
+ * Reads a game state from a snapshot. The game comes back paused, with no
+ * controls held and nothing left to announce, so the player can resume it when
+ * ready.
+ *
+ * @param json A snapshot written by serializeState
+ * @returns The saved game state
+ * @throws Error if the JSON isn't a snapshot this build can load, or its game
+ * isn't one that can be played
+ */
+export const deserializeState = (json: string): State => {
+  const snapshot: unknown = JSON.parse(json);
+  if (!isRecord(snapshot) || !isRecord(snapshot.state) || !Array.isArray(snapshot.state.gameBoard)) {
+    throw new Error("Not a saved game");
+  }
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported save version ${snapshot.version}`);
+  }
+
+  const s = readState(snapshot.state);
+  return {
+    ...s,
+    paused: !s.gameEnd,
+    events: [],
+    input: { left: false, right: false, softDrop: false, shift: 0, shiftTimer: 0 },
+  };
+};
+
+/**
+ * Saves a game to a store, replacing any earlier save.
+ */
+export const saveGame = (store: KeyValueStore, s: State): void =>
+  store.setItem(SAVE_KEY, serializeState(s));
+
+/**
+ * Loads the saved game from a store.
+ *
+ * @returns The saved game, or null if there is none
+ * @throws Error if the save can't be loaded
+ */
+export const loadGame = (store: KeyValueStore): State | null => {
+  const json = store.getItem(SAVE_KEY);
+  return json === null ? null : deserializeState(json);
+};
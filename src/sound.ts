@@ -0,0 +1,109 @@
+/**
+ * Sound effects, synthesised with the Web Audio API so there are no files to
+ * load. eventTones decides what each game event sounds like, and playTones
+ * plays it through an AudioContext; only the second needs a browser.
+ */
+
+import { GameEvent } from "./types";
+
+/**
+ * A single note: an oscillator swept from one frequency to another while its
+ * volume fades out.
+ */
+export type Tone = Readonly<{
+  wave: OscillatorType;
+  from: number; // Hz at the start
+  to: number; // Hz at the end
+  duration: number; // seconds
+  volume: number; // 0 to 1
+  delay: number; // seconds after the event
+}>;
+
+const tone = (wave: OscillatorType, from: number, to: number, duration: number, volume: number, delay = 0): Tone => ({
+  wave,
+  from,
+  to,
+  duration,
+  volume,
+  delay,
+});
+
+/** The pitch a clear's rising notes start from, in Hz. */
+const CLEAR_PITCH = 440;
+
+/** The gap between a clear's notes, in seconds. */
+const NOTE_GAP = 0.06;
+
+/**
+ * The notes of a clear: one rising note per line, a T-spin's a fifth higher,
+ * and a chord on top for a perfect clear.
+ */
+const clearTones = (event: Extract<GameEvent, { type: "clear" }>): ReadonlyArray<Tone> => {
+  const root = CLEAR_PITCH * (event.tSpin === "none" ? 1 : 1.5);
+  const notes = Array.from({ length: Math.max(1, event.lines) }, (_, index) => {
+    const pitch = root * Math.pow(2, (index * 4) / 12);
+    return tone("triangle", pitch, pitch, 0.12, 0.2, index * NOTE_GAP);
+  });
+  const end = notes.length * NOTE_GAP;
+  return event.perfectClear
+    ? [...notes, ...[1, 1.25, 1.5].map(step => tone("sine", root * 2 * step, root * 2 * step, 0.5, 0.15, end))]
+    : notes;
+};
+
+/**
+ * Decides what an event sounds like.
+ *
+ * @param event The event
+ * @returns The notes to play, none for a silent event
+ */
+export const eventTones = (event: GameEvent): ReadonlyArray<Tone> => {
+  switch (event.type) {
+    case "spawn":
+    case "hardDrop": // the lock that follows is heard instead
+      return [];
+    case "move":
+      return event.x === 0 ? [] : [tone("square", 220, 220, 0.03, 0.04)];
+    case "rotate":
+      return [tone("triangle", 330, event.kick > 0 ? 550 : 440, 0.05, 0.08)];
+    case "lock":
+      return [tone("sine", 120, 70, 0.1, 0.3)];
+    case "clear":
+      return clearTones(event);
+    case "levelUp":
+      return [tone("square", 523, 1046, 0.3, 0.1)];
+    case "hold":
+      return [tone("triangle", 260, 200, 0.06, 0.1)];
+    case "topOut":
+      return [tone("sawtooth", 200, 40, 0.8, 0.15)];
+    case "gameOver":
+      return event.goalReached
+        ? [523, 659, 784, 1046].map((pitch, index) => tone("triangle", pitch, pitch, 0.2, 0.2, index * 0.1))
+        : [];
+  }
+};
+
+/**
+ * Plays notes through an audio context, starting it if the browser hadn't
+ * let it start yet.
+ *
+ * @param context The audio context
+ * @param tones The notes to play
+ */
+export const playTones = (context: AudioContext, tones: ReadonlyArray<Tone>): void => {
+  if (context.state === "suspended") {
+    context.resume();
+  }
+  tones.forEach(({ wave, from, to, duration, volume, delay }) => {
+    const start = context.currentTime + delay;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = wave;
+    oscillator.frequency.setValueAtTime(from, start);
+    oscillator.frequency.exponentialRampToValueAtTime(to, start + duration);
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + duration);
+  });
+};
@@ -0,0 +1,69 @@
+/**
+ * Super Rotation System (SRS) wall kick data.
+ *
+ * Offsets are written as in the guideline tables, where +y points up. The
+ * board's y axis points down, so Rotate negates the y component when it
+ * applies a kick.
+ */
+
+import { KickTable } from "./types";
+
+/**
+ * Kicks tried, in order, when rotating a J, L, S, T or Z tetromino between two
+ * rotation states (0 = spawn, 1 = R, 2 = 180, 3 = L).
+ */
+const JLSTZ_KICKS: Record<string, ReadonlyArray<readonly [number, number]>> = {
+  "0>1": [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+  "1>0": [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+  "1>2": [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+  "2>1": [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+  "2>3": [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+  "3>2": [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+  "3>0": [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+  "0>3": [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+};
+
+/**
+ * Kicks tried, in order, when rotating the I tetromino.
+ */
+const I_KICKS: Record<string, ReadonlyArray<readonly [number, number]>> = {
+  "0>1": [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+  "1>0": [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+  "1>2": [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
+  "2>1": [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+  "2>3": [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+  "3>2": [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+  "3>0": [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+  "0>3": [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
+};
+
+/**
+ * SRS has no 180° rotation, so these follow the widely used SRS+ extension.
+ */
+const HALF_TURN_KICKS: Record<string, ReadonlyArray<readonly [number, number]>> = {
+  "0>2": [[0, 0], [0, 1], [1, 1], [-1, 1], [1, 0], [-1, 0]],
+  "1>3": [[0, 0], [1, 0], [1, 2], [1, 1], [0, 2], [0, 1]],
+  "2>0": [[0, 0], [0, -1], [-1, -1], [1, -1], [-1, 0], [1, 0]],
+  "3>1": [[0, 0], [-1, 0], [-1, 2], [-1, 1], [0, 2], [0, 1]],
+};
+
+/**
+ * Looks up the kicks to try for a rotation.
+ *
+ * @param table The piece's kick table
+ * @param from The rotation state being left
+ * @param to The rotation state being entered
+ * @returns The (x, y) kick offsets to test in order, with +y pointing up
+ */
+export const kickOffsets = (
+  table: KickTable,
+  from: number,
+  to: number
+): ReadonlyArray<readonly [number, number]> => {
+  const key = `${from}>${to}`;
+
+  // pieces like the O tetromino never kick, they only change rotation state
+  if (table === "none") return [[0, 0]];
+  if (key in HALF_TURN_KICKS) return HALF_TURN_KICKS[key];
+  return (table === "i" ? I_KICKS : JLSTZ_KICKS)[key] ?? [[0, 0]];
+};
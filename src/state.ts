@@ -0,0 +1,831 @@
+/**
+ * The game engine: pure state, the actions that transform it and the rules
+ * (collision, line clears) they rely on. Nothing in this file touches the DOM,
+ * so it runs unchanged in Node.
+ */
+
+import {
+  Action,
+  Block,
+  BoardModel,
+  GameConfig,
+  GameEvent,
+  GeneratorState,
+  Grid,
+  PieceSet,
+  RulesetName,
+  Shape,
+  State,
+} from "./types";
+import { attackLines, cancelGarbage, raiseGarbage } from "./garbage";
+import { Generators } from "./generators";
+import { applyMode, modeOf } from "./modes";
+import { PieceSets } from "./pieces";
+import { detectTSpin, scoreClear } from "./scoring";
+import { kickOffsets } from "./srs";
+import { RNG, getCoordinates } from "./util";
+
+/** Constants */
+
+/**
+ * Default game configuration, used for any property not given to createGame.
+ */
+export const Constants: GameConfig = {
+  MODE: "endless",
+  START_LEVEL: 1,
+  GRID_WIDTH: 10,
+  GRID_HEIGHT: 20,
+  PIECES: PieceSets.tetrominoes,
+  NEXT_PIECES: 5,
+  GENERATOR: "bag7",
+  DAS_MS: 167,
+  ARR_MS: 33,
+  SOFT_DROP_FACTOR: 20,
+  LOCK_DELAY_MS: 500,
+  MAX_LOCK_RESETS: 15,
+  ARE_FRAMES: 0,
+  LINE_CLEAR_FRAMES: 0,
+  PUZZLE: null,
+} as const;
+
+/** The length of a frame, which the entry and line clear delays are counted in. */
+export const FRAME_MS = 1000 / 60;
+
+/**
+ * The delays of each ruleset. Instant play, the default, brings the next piece
+ * in as soon as one locks; the others wait, as the games they're named after do.
+ */
+export const Rulesets: Record<RulesetName, Pick<GameConfig, "ARE_FRAMES" | "LINE_CLEAR_FRAMES">> = {
+  instant: { ARE_FRAMES: 0, LINE_CLEAR_FRAMES: 0 },
+  guideline: { ARE_FRAMES: 6, LINE_CLEAR_FRAMES: 30 },
+  classic: { ARE_FRAMES: 10, LINE_CLEAR_FRAMES: 20 },
+};
+
+/**
+ * @param frames A number of frames; anything but a positive number counts as none
+ * @returns The frames' length in milliseconds
+ */
+const framesToMs = (frames: number): number => (frames > 0 ? frames * FRAME_MS : 0);
+
+// Applies an action on a given state, then the rules of the game's mode.
+// Returns the updated state, with the events of this action alone, or the
+// same state if the action changed nothing.
+export const reduceState = (s: State, action: Action) => {
+  const fresh = s.events.length > 0 ? { ...s, events: [] } : s;
+  const next = applyMode(action.apply(fresh));
+  return next === fresh
+    ? s
+    : next.gameEnd && !s.gameEnd
+    ? emit(next, { type: "gameOver", goalReached: next.goalReached })
+    : next;
+};
+
+/**
+ * Adds events to those of the action being applied.
+ *
+ * @param s The game state
+ * @param events The events, in the order they happened
+ * @returns The game state with the events added
+ */
+export const emit = (s: State, ...events: ReadonlyArray<GameEvent>): State => ({
+  ...s,
+  events: [...s.events, ...events],
+});
+
+/**
+ * Takes properties required to spawn a block.
+ *
+ * @param array an array representing the shape of a tetromino (see GameConfig.PIECES).
+ * @param colour the colour of a specific tetromino
+ * @param config The game configuration, giving the width of the board
+ * @returns a block object representing a tetromino
+ */
+function spawnBlock(array: Shape, colour: string, name: string, config: GameConfig): Block {
+  const bottomRow = array.reduce((bottom, row, index) => (row.includes(1) ? index : bottom), 0);
+  return {
+    name: name,
+    colour: colour,
+    x: Math.floor((config.GRID_WIDTH - array.length) / 2), // middle of the board
+    y: -1 - bottomRow, // block spawns just above the board
+    rotation: 0,
+    shapesArray: array,
+  };
+}
+
+/**
+ * Spawns the piece with the given name in its spawn state.
+ * @param name The piece's name (see GameConfig.PIECES)
+ * @param config The game configuration
+ * @returns a block object representing the piece
+ */
+export const spawnTetromino = (name: string, config: GameConfig = Constants): Block =>
+  spawnBlock(config.PIECES[name].rotations[0], name, name, config);
+
+/**
+ * Draws the next tetromino from the game's piece generator.
+ *
+ * @param config The game configuration, naming the generator to use
+ * @param generator The generator's current state
+ * @returns The drawn tetromino and the generator's updated state
+ */
+const drawTetromino = (
+  config: GameConfig,
+  generator: GeneratorState
+): readonly [Block, GeneratorState] => {
+  const [name, nextGenerator] = Generators[config.GENERATOR].next(generator, Object.keys(config.PIECES));
+  return [spawnTetromino(name, config), nextGenerator];
+};
+
+/**
+ * Tops up the queue of upcoming pieces from the generator. The queue always
+ * holds at least one piece, even when none are previewed, except in a puzzle:
+ * its queue is its fixed sequence, and runs dry once the sequence is dealt.
+ *
+ * @param config The game configuration, giving the queue's length
+ * @param queue The upcoming pieces, next first
+ * @param generator The generator's current state
+ * @returns The full queue and the generator's updated state
+ */
+const fillQueue = (
+  config: GameConfig,
+  queue: ReadonlyArray<Block>,
+  generator: GeneratorState
+): readonly [ReadonlyArray<Block>, GeneratorState] => {
+  if (config.PUZZLE || queue.length >= Math.max(1, config.NEXT_PIECES)) {
+    return [queue, generator];
+  }
+
+  const [piece, nextGenerator] = drawTetromino(config, generator);
+  return fillQueue(config, [...queue, piece], nextGenerator);
+};
+
+/** State functions */
+
+/**
+ * Creates an empty game board of the given dimensions.
+ *
+ * @param width The number of columns
+ * @param height The number of rows
+ * @returns A game board filled with null values
+ */
+export const createEmptyBoard = (width: number, height: number): Grid<string | null> =>
+  Array.from({ length: height }, () => Array(width).fill(null));
+
+/**
+ * Properties of the initial state of a game created from a given seed.
+ *
+ * @param seed The seed driving the game's piece sequence
+ * @param config The game configuration
+ * @returns A fresh game state
+ */
+export const createInitialState = (seed: number, config: GameConfig = Constants): State => {
+  // the first piece and the queue are drawn straight from a freshly seeded
+  // generator, or dealt from a puzzle's sequence
+  const puzzle = config.PUZZLE;
+  const [current, afterCurrent] = puzzle
+    ? [spawnTetromino(puzzle.pieces[0], config), Generators[config.GENERATOR].init(seed)]
+    : drawTetromino(config, Generators[config.GENERATOR].init(seed));
+  const [queue, generator] = fillQueue(
+    config,
+    puzzle ? puzzle.pieces.slice(1).map(name => spawnTetromino(name, config)) : [],
+    afterCurrent
+  );
+
+  return {
+    gameEnd: false,
+    goalReached: false,
+    paused: false,
+    score: 0,
+    highscore: 0,
+    level: config.START_LEVEL,
+    lines: 0,
+    pieces: 0,
+    combo: -1,
+    backToBack: false,
+    lastClear: null,
+    lastLock: null,
+    events: [],
+    delay: 0,
+    lineClear: null,
+    incoming: [],
+    attack: 0,
+    lastKick: null,
+    time: 0,
+    gravityTimer: 0,
+    lockTimer: 0,
+    lockResets: 0,
+    lowestRow: current.y,
+    input: { left: false, right: false, softDrop: false, shift: 0, shiftTimer: 0 },
+    spawn: true,
+    seed: seed,
+    config: config,
+    generator: generator,
+    currentTetromino: current,
+    queue: queue,
+    holdTetromino: null,
+    canHold: true,
+    // represents the gameboard as a 2d array, initially filled with null values
+    // unless a puzzle sets it up
+    gameBoard: puzzle ? puzzle.board.map(row => [...row]) : createEmptyBoard(config.GRID_WIDTH, config.GRID_HEIGHT),
+  };
+};
+
+/**
+ * Checks if the game's clock is running: it hasn't ended and isn't paused.
+ * @param s The current game state
+ * @returns True while the game is running, a piece falling or not
+ */
+export const isRunning = (s: State): boolean => !s.gameEnd && !s.paused;
+
+/**
+ * Checks if the game is accepting moves: it's running, and a piece is falling
+ * rather than the next one waiting to enter.
+ * @param s The current game state
+ * @returns True while the game is in play
+ */
+export const isPlaying = (s: State): boolean => isRunning(s) && s.delay === 0;
+
+/**
+ * Brings a new tetromino into play, resetting everything tracked per piece.
+ * @param s The current game state
+ * @param block The tetromino to bring in
+ * @returns The game state with the new tetromino falling
+ */
+const spawnPiece = (s: State, block: Block): State => ({
+  ...emit(s, { type: "spawn", piece: block }),
+  currentTetromino: block,
+  lastKick: null,
+  lockTimer: 0,
+  lockResets: 0,
+  lowestRow: block.y,
+});
+
+/**
+ * Restarts the lock delay after a grounded tetromino moves or rotates, as long
+ * as it has resets left. Resets are given back when the piece falls to a new
+ * lowest row (see moveDown).
+ * @param s The game state after the successful move or rotation
+ * @returns The game state with the lock delay reset
+ */
+const resetLockDelay = (s: State): State =>
+  s.lockTimer > 0 && s.lockResets < s.config.MAX_LOCK_RESETS
+    ? { ...s, lockTimer: 0, lockResets: s.lockResets + 1 }
+    : s;
+
+/**
+ * Calculates the coordinates of the current tetromino's cubes.
+ * @param s The current game state
+ * @returns an array of x, y coordinate pairs
+ */
+export const pieceCoordinates = (s: State): number[][] =>
+  getCoordinates([s.currentTetromino.x, s.currentTetromino.y], s.currentTetromino.shapesArray);
+
+/**
+ * Places a piece's cubes on a game board, in the piece's colour.
+ * @param grid The game board
+ * @param piece The piece
+ * @returns The game board with the piece's cubes added
+ */
+export const placePiece = (grid: Grid<string | null>, piece: Block): Grid<string | null> => {
+  // calculates the coordinates of the piece's cubes.
+  const coordinates = getCoordinates([piece.x, piece.y], piece.shapesArray);
+
+  // update the game board by placing the piece's color at its coordinates.
+  return grid.map((row, rowIndex) =>
+    row.map((cell, colIndex) => {
+      if (coordinates.some(([x, y]) => x === colIndex && y === rowIndex)) {
+        return piece.colour;
+      }
+      return cell;
+    })
+  );
+};
+
+/**
+ * Adds the current tetromino's cubes to the state of the game board.
+ * @param state The current game state
+ * @returns An updated game state with the current tetromino's cubes added.
+ */
+const addCubesToState = (state: State): State => ({
+  ...state,
+  gameBoard: placePiece(state.gameBoard, state.currentTetromino),
+});
+
+/**
+ * Checks if the current tetromino collides with the floor of the game board.
+ * @param state The current game state.
+ * @returns True if collision with the floor is detected, false otherwise.
+ */
+export const newCollisionWithFloor = (state: State): boolean => {
+  // check if any block's y-coordinate is greater than or equal to the game board's height.
+  return pieceCoordinates(state).some(([_, y]) => y >= state.gameBoard.length);
+};
+
+/**
+ * Checks if a piece collides with blocks on a game board.
+ * @param grid The game board
+ * @param piece The piece
+ * @returns True if the piece overlaps a filled cell, a side or the floor
+ */
+export const pieceCollides = (grid: Grid<string | null>, piece: Block): boolean => {
+  // gets the coordinates of the piece's cubes.
+  const cubeCoords = getCoordinates([piece.x, piece.y], piece.shapesArray)
+    .filter(([_, y]) => y >= 0); // filters out blocks above the game board.
+
+  // checks if any block's position is below the floor, past a side, or overlaps
+  // a non-null cell on the game board.
+  return cubeCoords.some(([x, y]) => y >= grid.length || x < 0 || x >= grid[y].length || grid[y][x] !== null);
+};
+
+/**
+ * Checks if the current tetromino collides with other blocks on the game board.
+ * @param s The current game state.
+ * @returns True if collision with other blocks is detected, false otherwise.
+ */
+export const blockCollision = (s: State): boolean => pieceCollides(s.gameBoard, s.currentTetromino);
+
+/**
+ * Checks if a piece can be where it is: clear of the blocks on the board, the
+ * floor and the sides, even above the board.
+ * @param grid The game board
+ * @param piece The piece
+ * @returns True if the piece fits
+ */
+export const pieceFits = (grid: Grid<string | null>, piece: Block): boolean =>
+  !pieceCollides(grid, piece) &&
+  getCoordinates([piece.x, piece.y], piece.shapesArray).every(([x]) => x >= 0 && x < grid[0].length);
+
+/**
+ * Rotates a piece, following the Super Rotation System: each kick in the
+ * piece's kick table (see srs.ts) is tried in order and the first position
+ * that fits is used.
+ * @param pieces The piece set
+ * @param grid The game board
+ * @param piece The piece
+ * @param turns Quarter turns to rotate by
+ * @returns The rotated piece and the index of the kick that placed it, or null if none fits
+ */
+export const rotatePiece = (
+  pieces: PieceSet,
+  grid: Grid<string | null>,
+  piece: Block,
+  turns: number
+): readonly [Block, number] | null => {
+  const { rotations, kicks } = pieces[piece.name];
+
+  // calculate the new rotation value by cycling through possible rotations
+  const rotation = (piece.rotation + turns + rotations.length) % rotations.length;
+
+  // move the rotated piece by a kick, flipping the kick's y axis to match the board
+  const offsets = kickOffsets(kicks ?? "jlstz", piece.rotation, rotation);
+  const kicked = ([dx, dy]: readonly [number, number]): Block => ({
+    ...piece,
+    rotation,
+    shapesArray: rotations[rotation],
+    x: piece.x + dx,
+    y: piece.y - dy,
+  });
+  const kick = offsets.findIndex(offset => pieceFits(grid, kicked(offset)));
+  return kick === -1 ? null : [kicked(offsets[kick]), kick];
+};
+
+/**
+ * checks if the current tetromino collides with the sides of the game board.
+ * @param s The current game state.
+ * @returns True if collision with the sides is detected, false otherwise.
+ */
+export const sideCollision = (s: State): boolean => {
+  // check if any active block's x-coordinate is outside the game board boundaries.
+  return pieceCoordinates(s).some(([x, _]) => x < 0 || x >= s.gameBoard[0].length);
+};
+
+/**
+ * Checks if the current tetromino has exceeded the ceiling of the game board,
+ * thus ending the game.
+ *
+ * @param s The game state
+ * @returns True if there is a collision with the top boundary, false otherwise
+ */
+const gameEnd = (s: State): boolean => {
+  // check if any block in the current tetromino has a y-coordinate less than 0
+  return pieceCoordinates(s).some(([_, y]) => y < 0);
+};
+
+/**
+ * Finds the indices of full rows in the game board.
+ *
+ * @param gameBoard The game board represented as a 2D grid
+ * @returns An array of row indices completely filled with cubes
+ */
+export const fullRowIndices = (gameBoard: Grid<string | null>): number[] => {
+  return gameBoard
+    .map((row, index) => (row.every(value => value !== null) ? index : -1))
+    .filter(index => index !== -1);
+};
+
+/**
+ * Removes rows with specified indices from the game board.
+ *
+ * @param gameBoard The game board represented as a 2D grid
+ * @param rowIndices An array of row indices to be removed
+ * @returns A new game board with specified rows removed
+ */
+const removeLines = (gameBoard: Grid<string | null>, rowIndices: number[]): Grid<string | null> => {
+  return gameBoard.filter((_, index) => !rowIndices.includes(index));
+};
+
+/**
+ * Adds empty rows to the top of the game board so cubes don't float if line
+ * below is cleared.
+ *
+ * @param rowCount The number of empty rows to add
+ * @param width The width of the game board (number of columns)
+ * @returns A new game board with empty rows added to the top
+ */
+const addEmptyRows = (rowCount: number, width: number): Grid<string | null> => {
+  return createEmptyBoard(width, rowCount);
+};
+
+/**
+ * Clears full rows from a game board, dropping the rows above them.
+ *
+ * @param gameBoard The game board
+ * @returns The game board after clearing full rows
+ */
+export const clearFullRows = (gameBoard: Grid<string | null>): Grid<string | null> => {
+  const fullLines = fullRowIndices(gameBoard);
+  const gameBoardWithoutLines = removeLines(gameBoard, fullLines);
+  const rowCountToAdd = gameBoard.length - gameBoardWithoutLines.length;
+  const newRows = addEmptyRows(rowCountToAdd, gameBoard[0].length);
+
+  // add empty rows to the top
+  return newRows.concat(gameBoardWithoutLines);
+};
+
+/**
+ * Clears full rows from the game board and updates the game state.
+ *
+ * @param s The game state
+ * @returns The updated game state after clearing full rows
+ */
+export const clearRows = (s: State): State => ({ ...s, gameBoard: clearFullRows(s.gameBoard) });
+
+/**
+ * The engine's own board, a grid of cell colours, as a BoardModel.
+ */
+export const GridModel: BoardModel<Grid<string | null>> = {
+  fromGrid: grid => grid,
+  toGrid: grid => grid,
+  collides: pieceCollides,
+  lock: placePiece,
+  fullRows: fullRowIndices,
+  clearRows: clearFullRows,
+};
+
+/**
+ * Points awarded for every row a piece is dropped through by the player.
+ */
+export const DropScore = {
+  SOFT: 1,
+  HARD: 2,
+} as const;
+
+/**
+ * Moves the current tetromino down by one row, ignoring collisions.
+ * @param s The current game state
+ * @returns The game state with the tetromino one row lower
+ */
+export const moveDown = (s: State): State => {
+  const y = s.currentTetromino.y + 1;
+  return {
+    ...s,
+    currentTetromino: { ...s.currentTetromino, y },
+    lastKick: null, // falling means the last move was no longer a rotation
+    // reaching a new lowest row gives the piece its lock delay resets back
+    lowestRow: Math.max(y, s.lowestRow),
+    lockResets: y > s.lowestRow ? 0 : s.lockResets,
+  };
+};
+
+/**
+ * Checks if the current tetromino is resting on the floor or the stack.
+ * @param s The current game state
+ * @returns True if the tetromino cannot move down any further
+ */
+export const isGrounded = (s: State): boolean => blockCollision(moveDown(s)); // the floor counts as filled
+
+/**
+ * Drops the current tetromino straight down to where it would land.
+ * @param s The current game state
+ * @returns The game state with the tetromino on its landing row
+ */
+export const dropPiece = (s: State): State => (isGrounded(s) ? s : dropPiece(moveDown(s)));
+
+/**
+ * Brings in the next tetromino from the queue and tops the queue back up.
+ *
+ * @param s The game state once the current tetromino is done with
+ * @returns The game state with the next tetromino falling
+ */
+const advanceQueue = (s: State): State => {
+  const [queue, generator] = fillQueue(s.config, s.queue.slice(1), s.generator);
+  return { ...spawnPiece(s, s.queue[0]), generator, queue };
+};
+
+/**
+ * Brings in the next tetromino after one locks. A new piece may be held again.
+ * Once a puzzle's queue runs dry the held piece comes out as its last, and
+ * after that the puzzle is over, solved or not.
+ *
+ * @param s The game state once the current tetromino is done with
+ * @returns The game state with the next tetromino falling
+ */
+const nextPiece = (s: State): State => {
+  if (s.queue.length > 0) {
+    return { ...advanceQueue(s), canHold: true };
+  }
+  return s.holdTetromino
+    ? { ...spawnPiece(s, s.holdTetromino), holdTetromino: null, canHold: false }
+    : { ...s, gameEnd: true, goalReached: modeOf(s).goal(s) };
+};
+
+/**
+ * Tops the player out: the game ends, unless the mode can't be topped out,
+ * when the board is cleared and play carries on with the next tetromino.
+ *
+ * @param s The game state as the player tops out
+ * @returns The game state after topping out
+ */
+const topOut = (s: State): State => {
+  const toppedOut = emit(s, { type: "topOut" });
+  return modeOf(s).topsOut
+    ? { ...toppedOut, gameEnd: true, highscore: Math.max(s.score, s.highscore) }
+    : nextPiece({ ...toppedOut, gameBoard: createEmptyBoard(s.config.GRID_WIDTH, s.config.GRID_HEIGHT) });
+};
+
+/**
+ * Locks the current tetromino into the game board, clears full rows and brings
+ * in the next tetromino. The player tops out instead if the tetromino locks
+ * while poking out above the board, or if rising garbage pushes the stack off
+ * the top.
+ *
+ * @param s The current game state
+ * @returns The game state after the tetromino has locked
+ */
+export const lockPiece = (s: State): State => {
+  if (gameEnd(s)) {
+    return topOut(s);
+  }
+
+  // T-spins are judged on the board before the T is added to it
+  const tSpin = detectTSpin(s);
+
+  // add cubes to the game state, then clear full rows and score them
+  const addedCubes = addCubesToState(emit(s, { type: "lock", piece: s.currentTetromino }));
+  const rows = fullRowIndices(addedCubes.gameBoard);
+  const lines = rows.length;
+  const cleared = clearRows(addedCubes);
+  const perfectClear = lines > 0 && cleared.gameBoard.every(row => row.every(cell => cell === null));
+  const clear = { lines, tSpin, perfectClear };
+  const scored = scoreClear({ ...cleared, pieces: s.pieces + 1, lastLock: s.currentTetromino }, clear);
+  const announced = emit(
+    scored,
+    ...(scored.lastClear === cleared.lastClear ? [] : [{ type: "clear" as const, rows, ...clear }]),
+    ...(scored.level > s.level ? [{ type: "levelUp" as const, level: scored.level }] : [])
+  );
+
+  // the clear's attack cancels incoming garbage before any is sent on, and
+  // whatever garbage is left rises if no lines were cleared
+  const sent = attackLines(clear, s.backToBack, scored.combo);
+  const [incoming, attack] = cancelGarbage(s.incoming, sent);
+  const attacked = { ...announced, incoming, attack: s.attack + attack };
+  const [raised, pushedOff] = lines === 0 ? raiseGarbage(attacked) : ([attacked, false] as const);
+  if (pushedOff) {
+    return topOut(raised);
+  }
+  const highscore = Math.max(raised.score, raised.highscore);
+
+  // the next piece enters straight away, or once the ruleset's delays are over
+  const lineClearMs = lines > 0 ? framesToMs(s.config.LINE_CLEAR_FRAMES) : 0;
+  const delay = lineClearMs + framesToMs(s.config.ARE_FRAMES);
+  return raised.gameEnd
+    ? { ...raised, highscore }
+    : delay > 0
+    ? { ...raised, highscore, delay, lineClear: lineClearMs > 0 ? { rows, board: addedCubes.gameBoard } : null }
+    : { ...nextPiece(raised), highscore };
+};
+
+/**
+ * Runs the line clear and entry delays for the time that has passed. The
+ * cleared rows stop being drawn once the line clear delay is over, and the
+ * next piece enters once the entry delay is.
+ *
+ * @param s The game state while the next piece waits to enter
+ * @param ms The time that has passed
+ * @returns The game state, with the next piece falling if the wait is over
+ */
+export const waitOut = (s: State, ms: number): State => {
+  const delay = s.delay - ms;
+  return delay > 0
+    ? { ...s, delay, lineClear: delay > framesToMs(s.config.ARE_FRAMES) ? s.lineClear : null }
+    : nextPiece({ ...s, delay: 0, lineClear: null });
+};
+
+/**
+ * A class representing an actions that advance the game state in one tick.
+ */
+export class Tick implements Action {
+  /**
+   * Applies the tick action to the game state.
+   *
+   * @param s The current game state
+   * @returns The updated game state after a tick
+   */
+  apply = (s: State): State => {
+    // game has ended, no need for further movement
+    if (!isRunning(s)) {
+      return s;
+    }
+
+    // a tick ends any wait for the next piece, a grounded tetromino locks,
+    // otherwise it moves down one row
+    return s.delay > 0 ? waitOut(s, s.delay) : isGrounded(s) ? lockPiece(s) : moveDown(s);
+  };
+}
+
+/**
+ * An action class for soft dropping: a player-driven Tick that scores a point
+ * for every row the tetromino moves down.
+ */
+export class SoftDrop implements Action {
+  apply = (s: State): State => {
+    if (!isPlaying(s) || isGrounded(s)) {
+      return new Tick().apply(s);
+    }
+
+    const moved = moveDown(s);
+    return { ...moved, score: moved.score + DropScore.SOFT };
+  };
+}
+
+/**
+ * An action class for hard dropping: the tetromino moves straight to its
+ * landing row and locks immediately, scoring points for every row dropped.
+ */
+export class HardDrop implements Action {
+  apply = (s: State): State => {
+    if (!isPlaying(s)) {
+      return s;
+    }
+
+    const landed = dropPiece(s);
+    const rows = landed.currentTetromino.y - s.currentTetromino.y;
+    const dropped = emit(landed, { type: "hardDrop", piece: landed.currentTetromino, rows });
+    return lockPiece({ ...dropped, score: landed.score + rows * DropScore.HARD });
+  };
+}
+
+/**
+ * Represents an action to move the current tetromino by a specified position (x and y offsets).
+ */
+export class Move implements Action {
+  /**
+   * Constructs a Move action with the given position offsets, as apply requires specific
+   * position offsets (x and y) to determine how the tetromino should be moved.
+   *
+   * @param pos The position offsets (x and y) to apply to the tetromino
+   */
+  constructor(public readonly pos: { x: number; y: number }) {}
+
+  /**
+   * Applies the move action to the game state.
+   *
+   * @param s The current game state
+   * @returns The updated game state after applying the move
+   */
+  apply = (s: State): State => {
+    // game has ended, no more movement should be possible
+    if (!isPlaying(s)) {
+      return s;
+    }
+
+    const currentTetromino = s.currentTetromino;
+
+    // create a new tetromino with its x position updated based on horizontal movement
+    const newTetromino = {
+      ...currentTetromino,
+      x: currentTetromino.x + this.pos.x,
+    };
+
+    // new state contains this moved tetromino, which is no longer mid-spin
+    if (pieceFits(s.gameBoard, newTetromino)) {
+      // if no collision is detected, update the tetromino's position; it's no longer mid-spin
+      const newState = { ...s, currentTetromino: newTetromino, lastKick: null };
+      return resetLockDelay(emit(newState, { type: "move", piece: newTetromino, ...this.pos }));
+    }
+
+    // if a collision is detected, position will not be updated, preventing movement outside the canvas
+    return s;
+  };
+}
+
+/**
+ * An action class for rotating the current tetromino in the game, following the
+ * Super Rotation System: each kick in the piece's kick table (see srs.ts) is
+ * tried in order and the first position that doesn't collide is used.
+ */
+export class Rotate implements Action {
+  /**
+   * @param turns Quarter turns to rotate by: 1 is clockwise, -1 is
+   * counter-clockwise and 2 is a 180° rotation
+   */
+  constructor(public readonly turns: 1 | -1 | 2 = 1) {}
+
+  apply = (s: State): State => {
+    if (!isPlaying(s)) {
+      return s;
+    }
+
+    const kicked = rotatePiece(s.config.PIECES, s.gameBoard, s.currentTetromino, this.turns);
+    if (!kicked) {
+      return s;
+    }
+    const [piece, kick] = kicked;
+    const rotated = { ...s, currentTetromino: piece, lastKick: kick }; // the kick is remembered for T-spin detection
+    const turned = { type: "rotate" as const, piece, turns: this.turns, kick };
+    return resetLockDelay(emit(rotated, turned));
+  };
+}
+
+/**
+ * An action class for holding the current tetromino. The held tetromino is
+ * swapped back in, or the next one is brought in when nothing is held yet.
+ * Holding is only allowed once per piece, until that piece locks.
+ */
+export class Hold implements Action {
+  apply = (s: State): State => {
+    // a puzzle may not allow holding, and the last piece of one has nothing to swap with
+    const puzzleHold = s.config.PUZZLE?.hold !== false && (s.holdTetromino !== null || s.queue.length > 0);
+    if (!isPlaying(s) || !s.canHold || !puzzleHold) {
+      return s;
+    }
+
+    // the outgoing tetromino goes back to its spawn position and rotation
+    const held = spawnTetromino(s.currentTetromino.name, s.config);
+    const holding = emit(s, { type: "hold", piece: held });
+
+    if (s.holdTetromino) {
+      return {
+        ...spawnPiece(holding, spawnTetromino(s.holdTetromino.name, s.config)),
+        holdTetromino: held,
+        canHold: false,
+      };
+    }
+
+    // nothing held yet, so the queue moves along
+    return {
+      ...advanceQueue(holding),
+      holdTetromino: held,
+      canHold: false,
+    };
+  };
+}
+
+/**
+ * An action class for pausing and resuming the game. Gravity, timers and moves
+ * are all frozen while paused.
+ */
+export class Pause implements Action {
+  /**
+   * @param paused True to pause, false to resume; toggles when left out
+   */
+  constructor(public readonly paused?: boolean) {}
+
+  apply = (s: State): State => {
+    if (s.gameEnd) {
+      return s;
+    }
+
+    return { ...s, paused: this.paused ?? !s.paused };
+  };
+}
+
+/**
+ * Action class for restarting the game.
+ */
+export class Restart implements Action {
+  /**
+   * @param seed The seed of the new game. Defaults to one derived from the
+   * current game's seed, so a sequence of restarts is reproducible too.
+   */
+  constructor(public readonly seed?: number) {}
+
+  apply = (s: State): State => {
+    // reset the game state to the initial state, carrying the high score across
+    return {
+      ...createInitialState(this.seed ?? RNG.hash(s.seed), s.config),
+      highscore: Math.max(s.score, s.highscore),
+      input: s.input, // keys held across the restart stay held
+    };
+  };
+}
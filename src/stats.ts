@@ -0,0 +1,284 @@
+/**
+ * Live performance statistics: pieces per second, lines and attack per minute,
+ * keys per piece and finesse, along with counts of each piece and each kind of
+ * clear. Stats sit beside the game rather than in it: recordStats is fed each
+ * action with the states before and after it, and reads the locks from those.
+ *
+ * Finesse compares the moves and rotations a piece took with the fewest that
+ * reach its placement from spawn on an empty board, where holding a direction
+ * until the wall (DAS) counts as a single input. Soft dropped pieces aren't
+ * judged, as tucks and spins can need any number of inputs.
+ */
+
+import { Action, Block, ClearType, State } from "./types";
+import {
+  HardDrop,
+  Hold,
+  Move,
+  Restart,
+  Rotate,
+  SoftDrop,
+  createEmptyBoard,
+  isPlaying,
+  pieceCoordinates,
+  spawnTetromino,
+} from "./state";
+import { Press } from "./handling";
+import { attackLines } from "./garbage";
+import { ModeResult } from "./modes";
+import { PIECE_LETTERS } from "./puzzle";
+
+/**
+ * The statistics of a game so far.
+ */
+export type Stats = Readonly<{
+  time: number; // ms played
+  inputs: number; // keys pressed while in play
+  pieces: number; // pieces locked
+  lines: number;
+  attack: number; // garbage sent, counting what went to cancel incoming garbage
+  maxCombo: number;
+  faults: number; // inputs beyond the fewest each placement needed
+  pieceCounts: Readonly<Record<string, number>>; // pieces locked, by name
+  clears: Readonly<Record<string, number>>; // clears, by name (see clearName)
+  pieceInputs: number; // moves and rotations of the falling piece
+  softDropped: boolean; // true once the falling piece has been soft dropped
+}>;
+
+/**
+ * @returns The statistics of a game that has just started
+ */
+export const createStats = (): Stats => ({
+  time: 0,
+  inputs: 0,
+  pieces: 0,
+  lines: 0,
+  attack: 0,
+  maxCombo: 0,
+  faults: 0,
+  pieceCounts: {},
+  clears: {},
+  pieceInputs: 0,
+  softDropped: false,
+});
+
+/** Names of clears of 0-4 lines without a T-spin. */
+const LINE_CLEARS = ["", "Single", "Double", "Triple", "Tetris"];
+
+/**
+ * Names a clear the way the stats count it: "Tetris", "T-spin double",
+ * "T-spin mini" and so on.
+ *
+ * @param clear The clear
+ * @returns The clear's name, or null if it's no clear at all
+ */
+export const clearName = (clear: ClearType): string | null => {
+  const lines = LINE_CLEARS[clear.lines] ?? `${clear.lines} lines`;
+  return clear.tSpin === "none"
+    ? clear.lines > 0
+      ? lines
+      : null
+    : ["T-spin", clear.tSpin === "mini" ? "mini" : "", lines.toLowerCase()].filter(Boolean).join(" ");
+};
+
+const increment = (counts: Readonly<Record<string, number>>, name: string) => ({
+  ...counts,
+  [name]: (counts[name] ?? 0) + 1,
+});
+
+/** The cells a piece covers, lowered to the top row so placements compare by shape and columns. */
+const footprint = (s: State, piece: Block): string => {
+  const cells = pieceCoordinates({ ...s, currentTetromino: piece });
+  const top = Math.min(...cells.map(([_, y]) => y));
+  return cells
+    .map(([x, y]) => `${x},${y - top}`)
+    .sort()
+    .join(" ");
+};
+
+const positionKey = (piece: Block) => `${piece.x},${piece.y},${piece.rotation}`;
+
+/**
+ * Moves the falling piece as far as it goes, as holding a direction does once
+ * DAS has charged.
+ */
+const shiftToWall = (s: State, direction: number): State => {
+  const moved = new Move({ x: direction, y: 0 }).apply(s);
+  return moved === s ? s : shiftToWall(moved, direction);
+};
+
+/** Each single input finesse allows. */
+const INPUTS: ReadonlyArray<(s: State) => State> = [
+  new Move({ x: -1, y: 0 }).apply,
+  new Move({ x: 1, y: 0 }).apply,
+  s => shiftToWall(s, -1),
+  s => shiftToWall(s, 1),
+  new Rotate(1).apply,
+  new Rotate(-1).apply,
+  new Rotate(2).apply,
+];
+
+/**
+ * Searches the positions reachable from spawn, breadth first, for one that
+ * covers the target's columns in the target's shape.
+ *
+ * @param frontier The positions first reached with the given number of inputs
+ * @param seen The positions reached so far
+ * @param target The target's footprint
+ * @param inputs The inputs taken to reach the frontier
+ * @returns The fewest inputs that reach the target, or null if none do
+ */
+const search = (
+  frontier: ReadonlyArray<State>,
+  seen: ReadonlySet<string>,
+  target: string,
+  inputs: number
+): number | null => {
+  if (frontier.length === 0) {
+    return null;
+  }
+  if (frontier.some(s => footprint(s, s.currentTetromino) === target)) {
+    return inputs;
+  }
+
+  const next = frontier
+    .flatMap(s => INPUTS.map(input => input(s)))
+    .filter(s => !seen.has(positionKey(s.currentTetromino)));
+  const fresh = Array.from(new Map(next.map(s => [positionKey(s.currentTetromino), s])).values());
+  return search(fresh, new Set([...seen, ...fresh.map(s => positionKey(s.currentTetromino))]), target, inputs + 1);
+};
+
+/**
+ * Finds the fewest moves and rotations that take a piece from spawn to where
+ * it locked, as if the board were empty.
+ *
+ * @param piece The piece where it locked
+ * @param s The game state, for the board's size and the piece set
+ * @returns The fewest inputs, or null if the placement can't be reached that way
+ */
+export const finesseInputs = (piece: Block, s: State): number | null => {
+  if (!(piece.name in s.config.PIECES)) {
+    return null;
+  }
+  const spawn: State = {
+    ...s,
+    gameBoard: createEmptyBoard(s.config.GRID_WIDTH, s.config.GRID_HEIGHT),
+    currentTetromino: spawnTetromino(piece.name, s.config),
+    gameEnd: false,
+    paused: false,
+  };
+  return search([spawn], new Set([positionKey(spawn.currentTetromino)]), footprint(s, piece), 0);
+};
+
+/** True for the actions a player makes by pressing a key or button. */
+const isInput = (action: Action): boolean =>
+  action instanceof Press ||
+  action instanceof Move ||
+  action instanceof Rotate ||
+  action instanceof HardDrop ||
+  action instanceof SoftDrop ||
+  action instanceof Hold;
+
+/** True for the inputs finesse counts: moves and rotations. */
+const isPieceInput = (action: Action): boolean =>
+  (action instanceof Press && action.control !== "softDrop") ||
+  (action instanceof Move && action.pos.x !== 0) ||
+  action instanceof Rotate;
+
+/** True for the inputs that soft drop the falling piece. */
+const isSoftDrop = (action: Action): boolean =>
+  (action instanceof Press && action.control === "softDrop") ||
+  (action instanceof Move && action.pos.y > 0) ||
+  action instanceof SoftDrop;
+
+/**
+ * Counts a lock: the piece, its clear, the attack it made and any finesse
+ * faults.
+ */
+const recordLock = (stats: Stats, before: State, after: State, piece: Block): Stats => {
+  const clear = after.lastClear !== before.lastClear ? after.lastClear : null;
+  const name = clear && clearName(clear);
+  const clears = name ? increment(stats.clears, name) : stats.clears;
+  const minimum = stats.softDropped ? null : finesseInputs(piece, after);
+  return {
+    ...stats,
+    pieces: stats.pieces + 1,
+    lines: stats.lines + after.lines - before.lines,
+    attack: stats.attack + (clear ? attackLines(clear, before.backToBack, after.combo) : 0),
+    maxCombo: Math.max(stats.maxCombo, after.combo),
+    faults: stats.faults + (minimum === null ? 0 : Math.max(0, stats.pieceInputs - minimum)),
+    pieceCounts: increment(stats.pieceCounts, piece.name),
+    clears: clear?.perfectClear ? increment(clears, "Perfect clear") : clears,
+    pieceInputs: 0,
+    softDropped: false,
+  };
+};
+
+/**
+ * Updates the stats for an action. Keys only count while the game is in play,
+ * and a restart starts the stats over.
+ *
+ * @param stats The stats before the action
+ * @param before The game state before the action
+ * @param after The game state after it
+ * @param action The action
+ * @returns The updated stats
+ */
+export const recordStats = (stats: Stats, before: State, after: State, action: Action): Stats => {
+  if (action instanceof Restart) {
+    return createStats();
+  }
+
+  const input = isPlaying(before) && isInput(action);
+  const pressed = {
+    ...stats,
+    time: stats.time + Math.max(0, after.time - before.time),
+    inputs: stats.inputs + (input ? 1 : 0),
+    pieceInputs: stats.pieceInputs + (input && isPieceInput(action) ? 1 : 0),
+    softDropped: stats.softDropped || (input && isSoftDrop(action)),
+  };
+
+  // a held piece starts over from spawn, and so does its count of inputs
+  const held =
+    after.holdTetromino !== before.holdTetromino ? { ...pressed, pieceInputs: 0, softDropped: false } : pressed;
+  return after.pieces > before.pieces && after.lastLock ? recordLock(held, before, after, after.lastLock) : held;
+};
+
+/** A rate over the time played, or 0 before any time has passed. */
+const perMinute = (count: number, stats: Stats) => (stats.time > 0 ? count / (stats.time / 60000) : 0);
+
+/** The letter a piece is known by, J and L for the tetrominoes named LL and LR. */
+const pieceLetter = (name: string) => Object.keys(PIECE_LETTERS).find(letter => PIECE_LETTERS[letter] === name) ?? name;
+
+/**
+ * The headline stats, for the end of game summary.
+ *
+ * @param stats The game's stats
+ * @returns Pieces per second, attack per minute, keys per piece and finesse faults
+ */
+export const statsSummary = (stats: Stats): ReadonlyArray<ModeResult> => [
+  { label: "PPS", value: (perMinute(stats.pieces, stats) / 60).toFixed(2) },
+  { label: "APM", value: perMinute(stats.attack, stats).toFixed(1) },
+  { label: "KPP", value: stats.pieces > 0 ? (stats.inputs / stats.pieces).toFixed(2) : "0.00" },
+  { label: "Finesse", value: `${stats.faults}` },
+];
+
+/**
+ * Every stat, for the stats panel: the headline stats, then each piece and
+ * each kind of clear made.
+ *
+ * @param stats The game's stats
+ * @param s The game state, for the pieces it's played with
+ * @returns The stats, labelled
+ */
+export const statsResults = (stats: Stats, s: State): ReadonlyArray<ModeResult> => [
+  { label: "Pieces", value: `${stats.pieces}` },
+  ...statsSummary(stats),
+  { label: "LPM", value: perMinute(stats.lines, stats).toFixed(1) },
+  { label: "Max combo", value: `${Math.max(0, stats.maxCombo)}` },
+  ...Object.keys(s.config.PIECES).map(name => ({
+    label: pieceLetter(name),
+    value: `${stats.pieceCounts[name] ?? 0}`,
+  })),
+  ...Object.entries(stats.clears).map(([label, count]) => ({ label, value: `${count}` })),
+];
@@ -0,0 +1,72 @@
+/**
+ * A minimal key-value storage interface. The browser's localStorage satisfies
+ * it directly, and createMemoryStore provides an in-memory stand-in for tests
+ * and environments without one.
+ */
+
+/**
+ * Somewhere to keep strings between sessions.
+ */
+export interface KeyValueStore {
+  /**
+   * @param key The key to look up
+   * @returns The stored value, or null if nothing is stored under the key
+   */
+  getItem(key: string): string | null;
+  /**
+   * @param key The key to store under
+   * @param value The value to store
+   */
+  setItem(key: string, value: string): void;
+  /**
+   * @param key The key to remove
+   */
+  removeItem(key: string): void;
+}
+
+/**
+ * Creates a store that keeps its values in memory only.
+ *
+ * @param initial Values to start with
+ * @returns An in-memory store
+ */
+export const createMemoryStore = (initial: Record<string, string> = {}): KeyValueStore => {
+  const values = new Map(Object.entries(initial));
+  return {
+    getItem: key => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: key => {
+      values.delete(key);
+    },
+  };
+};
+
+/**
+ * Reads a JSON value from a store, falling back when it's missing or corrupt.
+ *
+ * @param store The store to read from
+ * @param key The key the value is stored under
+ * @param fallback The value to use when nothing valid is stored
+ * @returns The stored value or the fallback
+ */
+export const readJson = <T>(store: KeyValueStore, key: string, fallback: T): T => {
+  const raw = store.getItem(key);
+  if (raw === null) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Writes a value to a store as JSON.
+ *
+ * @param store The store to write to
+ * @param key The key to store the value under
+ * @param value The value to store
+ */
+export const writeJson = <T>(store: KeyValueStore, key: string, value: T): void =>
+  store.setItem(key, JSON.stringify(value));
@@ -0,0 +1,147 @@
+/**
+ * Touch input. A finger on the board is tracked from the moment it touches
+ * down until it lifts, and the gesture it makes is turned into actions: a tap
+ * rotates, dragging sideways moves a column for every column dragged, a fast
+ * flick down hard drops and a slow drag down soft drops until the finger lifts.
+ *
+ * Touches are measured in cells of the board rather than pixels, so the same
+ * thresholds work however large the board is drawn on screen.
+ */
+
+import { Action } from "./types";
+import { HardDrop, Move, Rotate } from "./state";
+import { Press, Release } from "./handling";
+
+/**
+ * How far and fast a finger has to move for each gesture.
+ */
+export type TouchThresholds = Readonly<{
+  TAP_MS: number; // the longest a touch can last and still be a tap
+  TAP_DISTANCE: number; // the furthest, in cells, a tap can wander
+  SWIPE_SPEED: number; // the speed, in cells per second, of a flick down that hard drops
+  SOFT_DROP_DISTANCE: number; // how far, in cells, a finger is dragged down before soft dropping
+}>;
+
+/**
+ * The thresholds of a first visit, and of resetting the settings.
+ */
+export const DEFAULT_TOUCH: TouchThresholds = {
+  TAP_MS: 200,
+  TAP_DISTANCE: 0.5,
+  SWIPE_SPEED: 40,
+  SOFT_DROP_DISTANCE: 1.5,
+};
+
+/**
+ * Where a finger is on the board, in cells from its top left, and when it was
+ * there, in milliseconds.
+ */
+export type TouchPoint = Readonly<{ x: number; y: number; time: number }>;
+
+/**
+ * A finger touching down, moving or lifting.
+ */
+export type Touch = Readonly<{ phase: "start" | "move" | "end" } & TouchPoint>;
+
+/**
+ * A gesture in progress.
+ */
+export type Gesture = Readonly<{
+  start: TouchPoint;
+  last: TouchPoint;
+  column: number; // where the finger was when the piece last moved a column
+  dragged: boolean; // the piece has been moved or soft dropped, so it's no tap
+  softDropping: boolean;
+}>;
+
+/**
+ * Follows a finger moving on the board.
+ *
+ * @param gesture The gesture so far
+ * @param point Where the finger is now
+ * @param thresholds The thresholds of the gestures
+ * @returns The gesture and the actions the move makes
+ */
+const moveGesture = (
+  gesture: Gesture,
+  point: TouchPoint,
+  thresholds: TouchThresholds
+): readonly [Gesture, ReadonlyArray<Action>] => {
+  const columns = Math.trunc(point.x - gesture.column);
+  const moves = Array.from({ length: Math.abs(columns) }, () => new Move({ x: Math.sign(columns), y: 0 }));
+
+  const elapsed = point.time - gesture.last.time;
+  const speed = elapsed > 0 ? ((point.y - gesture.last.y) / elapsed) * 1000 : Infinity;
+  const softDrop =
+    !gesture.softDropping &&
+    point.y - gesture.start.y >= thresholds.SOFT_DROP_DISTANCE &&
+    speed < thresholds.SWIPE_SPEED;
+
+  return [
+    {
+      ...gesture,
+      last: point,
+      column: gesture.column + columns,
+      dragged: gesture.dragged || columns !== 0 || softDrop,
+      softDropping: gesture.softDropping || softDrop,
+    },
+    softDrop ? [...moves, new Press("softDrop")] : moves,
+  ];
+};
+
+/**
+ * Finishes a gesture as the finger lifts.
+ *
+ * @param gesture The gesture so far
+ * @param point Where the finger lifted
+ * @param thresholds The thresholds of the gestures
+ * @returns The actions the gesture ends with
+ */
+const endGesture = (gesture: Gesture, point: TouchPoint, thresholds: TouchThresholds): ReadonlyArray<Action> => {
+  const { start } = gesture;
+  const elapsed = point.time - start.time;
+  const dropped = point.y - start.y;
+
+  if (gesture.softDropping) {
+    return [new Release("softDrop")];
+  }
+  if (
+    dropped >= thresholds.SOFT_DROP_DISTANCE &&
+    (elapsed <= 0 || (dropped / elapsed) * 1000 >= thresholds.SWIPE_SPEED)
+  ) {
+    return [new HardDrop()];
+  }
+  const tapped =
+    !gesture.dragged &&
+    elapsed <= thresholds.TAP_MS &&
+    Math.hypot(point.x - start.x, point.y - start.y) <= thresholds.TAP_DISTANCE;
+  return tapped ? [new Rotate(1)] : [];
+};
+
+/**
+ * Follows a finger through a gesture. Touches that aren't part of a gesture,
+ * such as moves before a finger touched down, are ignored.
+ *
+ * @param gesture The gesture in progress, or null between gestures
+ * @param touch What the finger did
+ * @param thresholds The thresholds of the gestures
+ * @returns The gesture in progress after the touch, and the actions it makes
+ */
+export const touchGesture = (
+  gesture: Gesture | null,
+  touch: Touch,
+  thresholds: TouchThresholds
+): readonly [Gesture | null, ReadonlyArray<Action>] => {
+  const point = { x: touch.x, y: touch.y, time: touch.time };
+  if (touch.phase === "start") {
+    return [{ start: point, last: point, column: point.x, dragged: false, softDropping: false }, []];
+  }
+  if (!gesture) {
+    return [null, []];
+  }
+  if (touch.phase === "move") {
+    return moveGesture(gesture, point, thresholds);
+  }
+  const [moved, actions] = moveGesture(gesture, point, thresholds);
+  return [null, [...actions, ...endGesture(moved, point, thresholds)]];
+};
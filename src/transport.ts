@@ -0,0 +1,135 @@
+/**
+ * Transports carry protocol messages (see protocol.ts) between a player and
+ * the relay. The game only sees the Transport type, so it plays the same over
+ * a WebSocket as over the in-memory transports the tests use.
+ */
+
+import { ClientMessage, Message, parseMessage, serializeMessage } from "./protocol";
+import { Outgoing, Relay, createRelay, relayDisconnect, relayMessage } from "./relay";
+
+/**
+ * A connection that sends and receives protocol messages.
+ */
+export type Transport = Readonly<{
+  send: (message: Message) => void;
+  listen: (listener: (message: Message) => void) => () => void; // returns a function that stops listening
+  close: () => void;
+}>;
+
+/**
+ * An in-memory relay server, for playing and testing without a network.
+ */
+export type MemoryRelay = Readonly<{
+  connect: () => Transport;
+  relay: () => Relay; // the relay's current rooms
+}>;
+
+/**
+ * Connects to a relay server over a WebSocket. Messages sent before the
+ * socket opens are held until it does, and a dropped connection is reported
+ * as a disconnected message.
+ *
+ * @param url The relay server's address, such as ws://localhost:8787
+ * @param socket The socket to use, made from the url by default
+ * @returns The transport
+ */
+export const createWebSocketTransport = (url: string, socket: WebSocket = new WebSocket(url)): Transport => {
+  const pending: string[] = [];
+  socket.addEventListener("open", () => pending.splice(0).forEach(data => socket.send(data)));
+
+  return {
+    send: message =>
+      socket.readyState === WebSocket.OPEN
+        ? socket.send(serializeMessage(message))
+        : void pending.push(serializeMessage(message)),
+    listen: listener => {
+      const onMessage = (event: MessageEvent) => {
+        try {
+          listener(parseMessage(String(event.data)));
+        } catch {
+          // anything that isn't a protocol message is ignored
+        }
+      };
+      const onClose = () => listener({ type: "disconnected" });
+      socket.addEventListener("message", onMessage);
+      socket.addEventListener("close", onClose);
+      return () => {
+        socket.removeEventListener("message", onMessage);
+        socket.removeEventListener("close", onClose);
+      };
+    },
+    close: () => socket.close(),
+  };
+};
+
+/**
+ * Creates a connection whose sends are handled by the given function, and
+ * which delivers whatever is pushed to it to its listeners.
+ */
+const createEndpoint = (
+  onSend: (message: Message) => void,
+  onClose: () => void
+): readonly [Transport, (message: Message) => void] => {
+  const listeners = new Set<(message: Message) => void>();
+  const deliver = (message: Message) => listeners.forEach(listener => listener(message));
+  const transport: Transport = {
+    send: message => onSend(JSON.parse(serializeMessage(message))), // copied, as if sent over the wire
+    listen: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: onClose,
+  };
+  return [transport, deliver];
+};
+
+/**
+ * Creates two transports connected straight to each other, with no relay in
+ * between. Messages are delivered synchronously.
+ *
+ * @returns The two ends of the connection
+ */
+export const createMemoryTransports = (): readonly [Transport, Transport] => {
+  const close = () => {
+    deliverA({ type: "disconnected" });
+    deliverB({ type: "disconnected" });
+  };
+  const [a, deliverA] = createEndpoint(message => deliverB(message), close);
+  const [b, deliverB] = createEndpoint(message => deliverA(message), close);
+  return [a, b];
+};
+
+/**
+ * Creates a relay server that lives in memory, following the same rules as
+ * the Node server. Messages are delivered synchronously.
+ *
+ * @returns The relay, ready for transports to connect to
+ */
+export const createMemoryRelay = (): MemoryRelay => {
+  let relay = createRelay();
+  let nextId = 0;
+  const clients = new Map<number, (message: Message) => void>();
+
+  const dispatch = ([next, outgoing]: [Relay, Outgoing[]]) => {
+    relay = next;
+    outgoing.forEach(({ to, message }) => clients.get(to)?.(message));
+  };
+
+  return {
+    connect: () => {
+      const id = nextId++;
+      const [transport, deliver] = createEndpoint(
+        message => dispatch(relayMessage(relay, id, message as ClientMessage)),
+        () => {
+          if (clients.delete(id)) {
+            deliver({ type: "disconnected" });
+            dispatch(relayDisconnect(relay, id));
+          }
+        }
+      );
+      clients.set(id, deliver);
+      return transport;
+    },
+    relay: () => relay,
+  };
+};
@@ -0,0 +1,257 @@
+/**
+ * Shared types used by the game engine and its front-ends.
+ */
+
+/**
+ * A keyboard key, named by its KeyboardEvent.code such as "KeyA" or "ArrowLeft".
+ * Any key can be bound to a control (see input.ts).
+ */
+export type Key = string;
+
+/**
+ * A 2D grid of cells, where each cell can contain either a string or null. This
+ * type is used to represent the game board.
+ */
+export type Grid<T> = T[][];
+
+/**
+ * Names of the available piece generators (see generators.ts).
+ */
+export type GeneratorName = "bag7" | "random" | "nes" | "tgm";
+
+/**
+ * A piece in one rotation state: a square grid where 1 marks a filled cell.
+ */
+export type Shape = ReadonlyArray<ReadonlyArray<number>>;
+
+/**
+ * The wall kicks a piece rotates with (see srs.ts): the SRS J, L, S, T, Z
+ * table, the SRS I table, or none at all.
+ */
+export type KickTable = "jlstz" | "i" | "none";
+
+/**
+ * A piece of a piece set.
+ */
+export type PieceDefinition = Readonly<{
+  colour: string; // any CSS colour
+  rotations: ReadonlyArray<Shape>; // spawn state first, then clockwise
+  kicks?: KickTable; // defaults to "jlstz"
+}>;
+
+/**
+ * The pieces a game is played with, keyed by name. Board cells hold the name
+ * of the piece that filled them.
+ */
+export type PieceSet = Readonly<Record<string, PieceDefinition>>;
+
+/**
+ * Names of the available game modes (see modes.ts).
+ */
+export type ModeName = "endless" | "sprint" | "ultra" | "marathon" | "zen" | "puzzle";
+
+/**
+ * Names of the rulesets whose timings a game can follow (see Rulesets in state.ts).
+ */
+export type RulesetName = "instant" | "guideline" | "classic";
+
+/**
+ * The serialisable state of a piece generator. Every generator advances the
+ * seed through RNG; `bag` and `history` are only used by the generators that
+ * need them.
+ */
+export type GeneratorState = Readonly<{
+  seed: number;
+  bag: ReadonlyArray<string>; // pieces left in the current bag
+  history: ReadonlyArray<string>; // most recently drawn pieces, newest first
+}>;
+
+/**
+ * What a puzzle asks for (see puzzle.ts).
+ */
+export type Objective =
+  | Readonly<{ type: "lines"; lines: number }> // clear this many lines in total
+  | Readonly<{ type: "perfectClear" }> // clear every cell off the board
+  | Readonly<{ type: "tSpin"; tSpin: "mini" | "full"; lines: number }> // a T-spin clearing this many lines
+  | Readonly<{ type: "survive"; pieces: number }>; // lock this many pieces without topping out
+
+/**
+ * A puzzle: a starting board, the fixed sequence of pieces to solve it with
+ * and what it asks for.
+ */
+export type Puzzle = Readonly<{
+  name: string;
+  board: Grid<string | null>; // the whole board, top row first
+  pieces: ReadonlyArray<string>; // the pieces dealt, in order
+  hold: boolean; // whether pieces may be held
+  objective: Objective;
+  solution?: string; // moves that solve it (see solutionActions)
+}>;
+
+/**
+ * Tunable properties of a game, supplied when a game is created.
+ */
+export type GameConfig = Readonly<{
+  MODE: ModeName;
+  START_LEVEL: number;
+  GRID_WIDTH: number;
+  GRID_HEIGHT: number;
+  PIECES: PieceSet;
+  NEXT_PIECES: number; // upcoming pieces shown in the preview, 0 to 6
+  GENERATOR: GeneratorName;
+  DAS_MS: number; // delayed auto shift: how long left/right must be held before repeating
+  ARR_MS: number; // auto repeat rate: time between repeated moves, 0 moves straight to the wall
+  SOFT_DROP_FACTOR: number; // how many times faster than gravity a soft drop falls
+  LOCK_DELAY_MS: number; // how long a grounded piece waits before locking
+  MAX_LOCK_RESETS: number; // moves or rotations that may restart the lock delay, per piece
+  ARE_FRAMES: number; // entry delay: 60 Hz frames between a piece locking and the next one entering
+  LINE_CLEAR_FRAMES: number; // frames full rows stay on the board, flagged, before they're removed
+  PUZZLE: Puzzle | null; // the puzzle being solved, if any
+}>;
+
+/**
+ * The held inputs that the engine turns into movement over time.
+ */
+export type Control = "left" | "right" | "softDrop";
+
+/**
+ * The state of the player's held controls and the auto shift timers.
+ */
+export type InputState = Readonly<{
+  left: boolean;
+  right: boolean;
+  softDrop: boolean;
+  shift: -1 | 0 | 1; // the direction being auto shifted, 0 when neither is held
+  shiftTimer: number; // ms the shift direction has been held
+}>;
+
+/**
+ * The kinds of T-spin recognised by the scoring rules.
+ */
+export type TSpin = "none" | "mini" | "full";
+
+/**
+ * Describes the line clear caused by a piece locking.
+ */
+export type ClearType = Readonly<{
+  lines: number;
+  tSpin: TSpin;
+  perfectClear: boolean; // true if the clear left the board empty
+}>;
+
+/**
+ * Something that happened during an action, for sound, effects and add-ons to
+ * react to without comparing states.
+ */
+export type GameEvent = Readonly<
+  | { type: "spawn"; piece: Block }
+  | { type: "move"; piece: Block; x: number; y: number } // a move by the player, not by gravity
+  | { type: "rotate"; piece: Block; turns: number; kick: number } // kick is the index of the kick used
+  | { type: "hardDrop"; piece: Block; rows: number } // piece is where it landed, rows how far it fell
+  | { type: "lock"; piece: Block }
+  | ({ type: "clear"; rows: ReadonlyArray<number> } & ClearType) // rows are those cleared, top first
+  | { type: "levelUp"; level: number }
+  | { type: "hold"; piece: Block } // piece is the one put in hold
+  | { type: "topOut" }
+  | { type: "gameOver"; goalReached: boolean }
+>;
+
+/**
+ * Full rows waiting out the line clear delay. They're already gone from the
+ * game board; the board they were cleared from is kept for drawing them.
+ */
+export type LineClear = Readonly<{
+  rows: ReadonlyArray<number>; // the full rows, top first
+  board: Grid<string | null>; // the board with the rows still in it
+}>;
+
+/**
+ * Garbage lines sent by an opponent, waiting to rise (see garbage.ts).
+ */
+export type GarbageBatch = Readonly<{
+  lines: number;
+  hole: number; // the column left empty in every line of the batch
+}>;
+
+/**
+ * Represents the state of the current game board.
+ */
+export type State = Readonly<{
+  gameEnd: boolean;
+  goalReached: boolean; // true if the game ended by meeting its mode's goal rather than topping out
+  paused: boolean;
+  score: number;
+  highscore: number;
+  level: number;
+  lines: number; // total lines cleared
+  pieces: number; // pieces locked
+  combo: number; // consecutive line-clearing locks minus one, -1 when not in a combo
+  backToBack: boolean; // true if the last line clear was a tetris or T-spin
+  lastClear: ClearType | null; // the most recent line clear or T-spin
+  lastLock: Block | null; // the most recent piece to lock, where it locked
+  events: ReadonlyArray<GameEvent>; // what happened during the action that led to this state, in order
+  delay: number; // ms left of the line clear and entry delays, 0 while a piece is falling
+  lineClear: LineClear | null; // the rows being cleared, during the line clear delay
+  incoming: ReadonlyArray<GarbageBatch>; // garbage waiting to rise, oldest first
+  attack: number; // garbage lines sent by clears, waiting to be delivered to an opponent
+  lastKick: number | null; // kick used by the last rotation, null once the piece moves
+  time: number; // ms of game clock that have passed (see Advance)
+  gravityTimer: number; // ms accumulated towards the next gravity drop
+  lockTimer: number; // ms the current piece has spent grounded
+  lockResets: number; // lock delay resets used by the current piece
+  lowestRow: number; // lowest y the current piece has reached
+  input: InputState;
+  spawn: boolean;
+  seed: number;
+  config: GameConfig;
+  generator: GeneratorState;
+  currentTetromino: Block;
+  queue: ReadonlyArray<Block>; // upcoming pieces drawn from the generator, next first
+  holdTetromino: Block | null; // the held tetromino, if one has been held yet
+  canHold: boolean; // false once a hold has been used, until the next piece locks
+  gameBoard: Grid<string | null>; // a 2d array visualisation of the game board
+}>;
+
+/**
+ * A substructure type representing a tetromino block and its properties.
+ */
+export type Block = Readonly<{
+  name: string;
+  colour: string;
+  x: number;
+  y: number;
+  rotation: number;
+  // dictates what shape the tetromino block is (see GameConfig.PIECES)
+  shapesArray: Shape;
+}>;
+
+/**
+ * The operations the engine needs from a board, so other representations of
+ * one can be tested and benchmarked against the engine's grid (see
+ * GridModel and BitboardModel).
+ */
+export type BoardModel<B> = Readonly<{
+  fromGrid: (grid: Grid<string | null>) => B;
+  toGrid: (board: B) => Grid<string | null>;
+  collides: (board: B, piece: Block) => boolean; // overlaps a filled cell, a side or the floor; above the top is free
+  lock: (board: B, piece: Block) => B; // with the piece's cells filled in its colour
+  fullRows: (board: B) => number[]; // indices of the full rows, top first
+  clearRows: (board: B) => B; // with the full rows gone and the rows above dropped
+}>;
+
+/**
+ * An interface representing an action that can be applied to the game state,
+ * updating it. Children of Action are used to perform specific operations in
+ * response to user input.
+ *
+ * NOTE: Concept of using the Action interface and apply() method was inspired
+ * by Asteroids code bundle.
+ */
+export interface Action {
+  /**
+   * Applies the action to the current game state and returns the updated state.
+   * @param s The current game state.
+   * @return updated game state
+   */
+  apply(s: State): State;
+}
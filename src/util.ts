@@ -0,0 +1,57 @@
+/** Util */
+
+/**
+ * A random number generator providing two pure functions 'hash' and 'scale' and
+ * 'generateRandomValue'.
+ *
+ * NOTE: This RNG class was based off the Week 4 Applied code bundle and modified
+ * to suit this assignment.
+ */
+export abstract class RNG {
+  // LCG using GCC's constants
+  private static m = 0x80000000; // 2**31
+  private static a = 1103515245;
+  private static c = 12345;
+
+  /**
+   * Call `hash` repeatedly to generate the sequence of hashes. The product is
+   * taken with Math.imul so it stays exact; a plain multiplication overflows
+   * the 53 bits of a double and collapses the sequence into short cycles.
+   * @param seed
+   * @returns a hash of the seed
+   */
+  public static hash = (seed: number) => (Math.imul(RNG.a, seed) + RNG.c) & (RNG.m - 1);
+
+  /**
+   * Takes hash value and scales it to the range
+   */
+  public static scale = (hash: number, max: number) =>
+    Math.floor((max * hash) / RNG.m);
+
+  public static generateRandomValue = (seed: number, max: number) =>
+    RNG.scale(RNG.hash(seed), max);
+}
+
+/**
+ * Retrieves the coordinates of cubes within a tetromino shape on the canvas.
+ *
+ * @param coords the initial coordinates of the tetromino.
+ * @param shapesArray the array representing the tetromino's shape.
+ * @returns an array of x, y coordinate pairs for non-null cubes.
+ */
+export const getCoordinates = (
+  coords: number[],
+  shapesArray: ReadonlyArray<ReadonlyArray<number>>
+): number[][] => {
+  // collect the coordinate pairs of the shape's cubes row by row. This is the
+  // engine's hottest function, and reduce is far quicker than map, flat and filter.
+  return shapesArray.reduce<number[][]>(
+    (cubes, row, rowIndex) =>
+      row.reduce(
+        // checks if the value is 1 in the shape array and calculates its coordinates.
+        (acc, value, colIndex) => (value === 1 ? [...acc, [coords[0] + colIndex, coords[1] + rowIndex]] : acc),
+        cubes
+      ),
+    []
+  );
+};
@@ -0,0 +1,166 @@
+/**
+ * Checks on data from outside the game: messages from an opponent and saved
+ * games. Either may come from another build or have been tampered with, so
+ * it's narrowed from unknown and rejected as it arrives, rather than trusted
+ * as engine types and left to break the game once it's in play.
+ */
+
+import { Block, GameConfig, GarbageBatch, Grid, PieceSet, Puzzle } from "./types";
+import { Generators } from "./generators";
+import { Modes } from "./modes";
+import { PieceSets, parsePieceSet } from "./pieces";
+
+/** The narrowest and widest boards a game may have. */
+export const MIN_GRID_WIDTH = 4;
+export const MAX_GRID_WIDTH = 20;
+
+/** The shortest and tallest boards a game may have. */
+export const MIN_GRID_HEIGHT = 4;
+export const MAX_GRID_HEIGHT = 40;
+
+/** The most upcoming pieces a game may show, and so keep in its queue. */
+export const MAX_NEXT_PIECES = 6;
+
+/** The most garbage lines one batch may hold: a whole board's worth. */
+export const MAX_GARBAGE_LINES = MAX_GRID_HEIGHT;
+
+/** Checks a value is a plain object, and lets its fields be read. */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Checks a value is a whole number from min to max. */
+export const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+
+/** Checks a value is a number that isn't negative, infinite or NaN. */
+const isAmount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/**
+ * Checks a value is a board of the given size, its cells empty or named.
+ *
+ * @param value The value to check
+ * @param width The board's width
+ * @param height The board's height
+ * @returns True if it's a board of that size
+ */
+export const isGrid = (value: unknown, width: number, height: number): value is Grid<string | null> =>
+  Array.isArray(value) &&
+  value.length === height &&
+  value.every(
+    row => Array.isArray(row) && row.length === width && row.every(cell => cell === null || typeof cell === "string")
+  );
+
+/**
+ * Checks a value is a piece, and if a piece set is given, one of its pieces.
+ *
+ * @param value The value to check
+ * @param pieces The piece set it must come from, if any
+ * @returns True if it's a piece
+ */
+export const isBlock = (value: unknown, pieces: PieceSet | null = null): value is Block => {
+  if (!isRecord(value)) {
+    return false;
+  }
+  const { name, colour, x, y, rotation, shapesArray } = value;
+  return (
+    typeof name === "string" &&
+    typeof colour === "string" &&
+    [x, y].every(position => isInteger(position, -MAX_GRID_HEIGHT, MAX_GRID_HEIGHT)) &&
+    isInteger(rotation, 0, 3) &&
+    Array.isArray(shapesArray) &&
+    shapesArray.length <= MAX_GRID_WIDTH &&
+    shapesArray.every(row => Array.isArray(row) && row.every(cell => cell === 0 || cell === 1)) &&
+    (pieces === null || Object.prototype.hasOwnProperty.call(pieces, name))
+  );
+};
+
+/**
+ * Checks a value is a batch of garbage that fits a board.
+ *
+ * @param value The value to check
+ * @param width The width of the board it rises on
+ * @returns True if it's a batch of garbage
+ */
+export const isGarbageBatch = (value: unknown, width: number = MAX_GRID_WIDTH): value is GarbageBatch =>
+  isRecord(value) && isInteger(value.lines, 0, MAX_GARBAGE_LINES) && isInteger(value.hole, 0, width - 1);
+
+/** Checks a config's puzzle is one that can be played on its board with its pieces. */
+const isPuzzle = (value: unknown, config: Record<string, unknown>, pieces: PieceSet): value is Puzzle => {
+  if (!isRecord(value)) {
+    return false;
+  }
+  const { name, board, pieces: dealt, hold, objective } = value;
+  return (
+    typeof name === "string" &&
+    isGrid(board, config.GRID_WIDTH as number, config.GRID_HEIGHT as number) &&
+    Array.isArray(dealt) &&
+    dealt.length > 0 &&
+    dealt.every(piece => typeof piece === "string" && Object.prototype.hasOwnProperty.call(pieces, piece)) &&
+    typeof hold === "boolean" &&
+    isRecord(objective) &&
+    typeof objective.type === "string"
+  );
+};
+
+/**
+ * Reads a config's piece set: one of the built-in sets, whose shapes needn't be
+ * square as a user's must (the O piece is three rows by four), or one that
+ * parsePieceSet accepts.
+ */
+const readPieceSet = (value: unknown): PieceSet => {
+  const json = JSON.stringify(value ?? null);
+  return Object.values(PieceSets).find(set => JSON.stringify(set) === json) ?? parsePieceSet(json);
+};
+
+/**
+ * Reads a game config: a known mode and generator, a board within the size
+ * limits, a built-in or valid piece set (see parsePieceSet), and timings
+ * that are numbers.
+ *
+ * @param value The config, as parsed from JSON
+ * @returns The config
+ * @throws Error naming the first setting that isn't valid
+ */
+export const readConfig = (value: unknown): GameConfig => {
+  if (!isRecord(value)) {
+    throw new Error("Not a game config");
+  }
+  const invalid = (setting: string) => new Error(`Invalid config ${setting}`);
+  if (typeof value.MODE !== "string" || !Object.keys(Modes).includes(value.MODE)) {
+    throw invalid("MODE");
+  }
+  if (typeof value.GENERATOR !== "string" || !Object.keys(Generators).includes(value.GENERATOR)) {
+    throw invalid("GENERATOR");
+  }
+  if (!isInteger(value.GRID_WIDTH, MIN_GRID_WIDTH, MAX_GRID_WIDTH)) {
+    throw invalid("GRID_WIDTH");
+  }
+  if (!isInteger(value.GRID_HEIGHT, MIN_GRID_HEIGHT, MAX_GRID_HEIGHT)) {
+    throw invalid("GRID_HEIGHT");
+  }
+  if (!isInteger(value.START_LEVEL, 1, 30)) {
+    throw invalid("START_LEVEL");
+  }
+  if (!isInteger(value.NEXT_PIECES, 0, MAX_NEXT_PIECES)) {
+    throw invalid("NEXT_PIECES");
+  }
+  const timing = ["DAS_MS", "ARR_MS", "SOFT_DROP_FACTOR", "LOCK_DELAY_MS", "MAX_LOCK_RESETS"].find(
+    setting => !isAmount(value[setting])
+  );
+  if (timing !== undefined) {
+    throw invalid(timing);
+  }
+  // the delays may be negative, which counts as none
+  const delay = ["ARE_FRAMES", "LINE_CLEAR_FRAMES"].find(
+    setting => typeof value[setting] !== "number" || !Number.isFinite(value[setting])
+  );
+  if (delay !== undefined) {
+    throw invalid(delay);
+  }
+  const pieces = readPieceSet(value.PIECES);
+  if (value.PUZZLE === null ? value.MODE === "puzzle" : !isPuzzle(value.PUZZLE, value, pieces)) {
+    throw invalid("PUZZLE");
+  }
+  return { ...(value as GameConfig), PIECES: pieces };
+};
@@ -0,0 +1,143 @@
+/**
+ * Two-player versus. Both players get a game from the same seed, so they are
+ * dealt the same pieces, and each player's clears send garbage to the other.
+ * The first player to top out loses.
+ */
+
+import { Action, GameConfig, State } from "./types";
+import { ReceiveGarbage, createGarbage } from "./garbage";
+import { Constants, Restart, createInitialState, reduceState } from "./state";
+import { RNG } from "./util";
+
+/**
+ * A player of a versus match: 0 for player one, 1 for player two.
+ */
+export type Player = 0 | 1;
+
+/**
+ * The state of a versus match.
+ */
+export type Versus = Readonly<{
+  seed: number;
+  players: readonly [State, State];
+  garbageSeed: number; // the seed choosing the next garbage hole
+  winner: Player | null; // null until a player wins, and for a draw
+}>;
+
+/**
+ * An action for one player of a match, or for both when player is null (the
+ * game clock, pausing and restarting).
+ */
+export type VersusAction = Readonly<{
+  player: Player | null;
+  action: Action;
+}>;
+
+/**
+ * Creates a versus match.
+ *
+ * @param seed The seed both players' games are created from
+ * @param config The game configuration both players play with
+ * @returns The initial state of the match
+ */
+export const createVersus = (seed: number, config: GameConfig = Constants): Versus => {
+  const s = createInitialState(seed, config);
+  return { seed, players: [s, s], garbageSeed: seed, winner: null };
+};
+
+/**
+ * An action class for a match ending from the other side: the opponent topped
+ * out or left, or met the mode's goal first. A game that has already ended
+ * keeps its result.
+ */
+export class EndMatch implements Action {
+  /**
+   * @param won True if this player won the match
+   */
+  constructor(public readonly won: boolean) {}
+
+  apply = (s: State): State => (s.gameEnd ? s : { ...s, gameEnd: true, goalReached: this.won });
+}
+
+/**
+ * @param player A player
+ * @returns The player's opponent
+ */
+export const opponent = (player: Player): Player => (player === 0 ? 1 : 0);
+
+/**
+ * Replaces one player's game.
+ */
+const withPlayer = (v: Versus, player: Player, s: State): Versus => ({
+  ...v,
+  players: player === 0 ? [s, v.players[1]] : [v.players[0], s],
+});
+
+/**
+ * Delivers the garbage a player has sent to their opponent, as one batch.
+ *
+ * @param v The match
+ * @param from The player sending garbage
+ * @returns The match with the garbage waiting in the opponent's game
+ */
+const sendGarbage = (v: Versus, from: Player): Versus => {
+  const attacker = v.players[from];
+  if (attacker.attack === 0) {
+    return v;
+  }
+
+  const to = opponent(from);
+  const defender = v.players[to];
+  const [batch, garbageSeed] = createGarbage(attacker.attack, v.garbageSeed, defender.config.GRID_WIDTH);
+  const sent = withPlayer(v, from, { ...attacker, attack: 0 });
+  return { ...withPlayer(sent, to, new ReceiveGarbage(batch).apply(defender)), garbageSeed };
+};
+
+/**
+ * Settles the match once either game has ended: a player who tops out loses,
+ * and a player who meets their mode's goal wins. The other game ends there
+ * too. Games that end together are a draw, unless just one met the goal.
+ *
+ * @param v The match
+ * @returns The match, with its winner decided if it is over
+ */
+const settle = (v: Versus): Versus => {
+  const [one, two] = v.players;
+  if (v.winner !== null || (!one.gameEnd && !two.gameEnd)) {
+    return v;
+  }
+
+  if (one.gameEnd && two.gameEnd) {
+    return one.goalReached === two.goalReached ? v : { ...v, winner: one.goalReached ? 0 : 1 };
+  }
+
+  const ended: Player = one.gameEnd ? 0 : 1;
+  const winner = v.players[ended].goalReached ? ended : opponent(ended);
+  const other = v.players[opponent(ended)];
+  return { ...withPlayer(v, opponent(ended), new EndMatch(winner !== ended).apply(other)), winner };
+};
+
+/**
+ * Applies an action to a match: to one or both players' games, then delivers
+ * any garbage sent and settles the match if a game ended. Restarting starts a
+ * new match, seeded from the last one.
+ *
+ * @param v The match
+ * @param a The action and who it's for
+ * @returns The updated match
+ */
+export const reduceVersus = (v: Versus, { player, action }: VersusAction): Versus => {
+  if (action instanceof Restart) {
+    return createVersus(action.seed ?? RNG.hash(v.seed), v.players[0].config);
+  }
+
+  const players = v.players.map((s, p) => (player === null || player === p ? reduceState(s, action) : s));
+  const acted = { ...v, players: [players[0], players[1]] as const };
+  return settle(sendGarbage(sendGarbage(acted, 0), 1));
+};
+
+/**
+ * @param v The match
+ * @returns True once both players' games have ended
+ */
+export const isVersusOver = (v: Versus): boolean => v.players.every(s => s.gameEnd);
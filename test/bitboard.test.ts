@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  BitboardModel,
+  Block,
+  BoardModel,
+  Grid,
+  GridModel,
+  PieceSets,
+  benchmarkBoards,
+  createGame,
+  getBoard,
+  getGhostPiece,
+  pieceMask,
+  pieceMasks,
+  toBitboard,
+} from "../src/engine";
+
+/** An upright I piece at a position. */
+const upright = (x: number, y: number): Block => ({
+  name: "I",
+  colour: "I",
+  x,
+  y,
+  rotation: 1,
+  shapesArray: [[1], [1], [1], [1]],
+});
+
+/** A T piece, flat side down, at a position. */
+const tee = (x: number, y: number): Block => ({
+  name: "T",
+  colour: "T",
+  x,
+  y,
+  rotation: 0,
+  shapesArray: PieceSets.tetrominoes.T.rotations[0],
+});
+
+/** A 4 by 6 board with its bottom row filled but for its right cell. */
+const gapped = (): Grid<string | null> =>
+  Array.from({ length: 6 }, (_, y) => (y === 5 ? ["Z", "Z", "Z", null] : [null, null, null, null]));
+
+// every board representation must play the same as the engine's grid
+describe.each<[string, BoardModel<unknown>]>([
+  ["the grid", GridModel as BoardModel<unknown>],
+  ["the bitboard", BitboardModel as BoardModel<unknown>],
+])("%s", (_, model) => {
+  it("reads and writes the same cells", () => {
+    expect(model.toGrid(model.fromGrid(gapped()))).toEqual(gapped());
+  });
+
+  it("collides with filled cells, the floor and the sides", () => {
+    const board = model.fromGrid(gapped());
+    expect(model.collides(board, upright(3, 2))).toBe(false);
+    expect(model.collides(board, upright(2, 2))).toBe(true); // the filled row
+    expect(model.collides(board, upright(3, 3))).toBe(true); // the floor
+    expect(model.collides(board, upright(-1, 0))).toBe(true);
+    expect(model.collides(board, upright(4, 0))).toBe(true);
+    expect(model.collides(board, tee(-1, 0))).toBe(true);
+    expect(model.collides(board, tee(0, 3))).toBe(false);
+  });
+
+  it("leaves the rows above the board free", () => {
+    const board = model.fromGrid(gapped());
+    expect(model.collides(board, upright(0, -4))).toBe(false);
+    expect(model.collides(board, upright(-1, -4))).toBe(false); // past the side, but above the board
+    expect(model.collides(board, upright(-1, -3))).toBe(true);
+  });
+
+  it("locks a piece in its colour, leaving out cells above the board", () => {
+    const locked = model.toGrid(model.lock(model.fromGrid(gapped()), upright(3, -2)));
+    expect(locked.map(row => row[3])).toEqual(["I", "I", null, null, null, null]);
+    expect(locked[5]).toEqual(["Z", "Z", "Z", null]);
+  });
+
+  it("finds and clears full rows, dropping the rows above", () => {
+    const locked = model.lock(model.lock(model.fromGrid(gapped()), upright(3, 2)), tee(0, 3));
+    expect(model.fullRows(locked)).toEqual([4, 5]);
+    const cleared = model.toGrid(model.clearRows(locked));
+    expect(cleared[5]).toEqual([null, "T", null, "I"]);
+    expect(cleared[4]).toEqual([null, null, null, "I"]);
+    expect(cleared.slice(0, 4).flat().every(cell => cell === null)).toBe(true);
+    expect(model.fullRows(model.clearRows(locked))).toEqual([]);
+  });
+
+  it("lands pieces where the engine does", () => {
+    const s = createGame(1);
+    const board = model.fromGrid(getBoard(s));
+    const land = (piece: Block): Block =>
+      model.collides(board, { ...piece, y: piece.y + 1 }) ? piece : land({ ...piece, y: piece.y + 1 });
+    expect(land(s.currentTetromino)).toEqual(getGhostPiece(s));
+  });
+});
+
+describe("bitboards", () => {
+  it("keep a row of bits per row", () => {
+    expect(toBitboard(gapped()).rows).toEqual([0, 0, 0, 0, 0, 0b0111]);
+  });
+
+  it("work out a mask for every rotation of every piece", () => {
+    const masks = pieceMasks(PieceSets.tetrominoes);
+    expect(masks.I).toHaveLength(4);
+    expect(pieceMask(PieceSets.tetrominoes.T.rotations[0])).toEqual({
+      rows: [0b010, 0b111, 0],
+      top: 0,
+      left: 0,
+      right: 2,
+    });
+  });
+
+  it("refuse boards too wide for their bits", () => {
+    expect(() => toBitboard([Array(40).fill(null)])).toThrow();
+  });
+
+  it("end up with the same boards as the grid", () => {
+    const result = benchmarkBoards({ pieces: 30 });
+    expect(result.same).toBe(true);
+    expect(result.checks).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  BotMove,
+  DEFAULT_WEIGHTS,
+  Grid,
+  Hold,
+  Move,
+  Rotate,
+  State,
+  Tick,
+  applyAction,
+  bestPlacement,
+  boardFeatures,
+  columnHeights,
+  createGame,
+  createReplay,
+  decodeAction,
+  encodeAction,
+  evaluate,
+  getBoard,
+  getPiece,
+  placements,
+  recordAction,
+  runBenchmark,
+  runReplay,
+} from "../src/engine";
+
+// builds a board from rows of "X" (filled) and "." (empty), top row first
+const board = (rows: string[]): Grid<string | null> =>
+  rows.map(row => Array.from(row, cell => (cell === "X" ? "Z" : null)));
+
+const filledCells = (s: State) => getBoard(s).flat().filter(cell => cell !== null).length;
+
+describe("board features", () => {
+  it("measure column heights", () => {
+    expect(columnHeights(board(["....", ".X..", ".XX.", "XXX."]))).toEqual([1, 3, 2, 0]);
+  });
+
+  it("count holes under the stack", () => {
+    expect(boardFeatures(board(["X..", "...", "X.X"]), 0).holes).toBe(1);
+    expect(boardFeatures(board([".X.", "...", ".X."]), 0).holes).toBe(1);
+  });
+
+  it("measure bumpiness and wells, with the walls as high sides", () => {
+    const features = boardFeatures(board(["X..X", "X..X", "XX.X"]), 2);
+    expect(features).toEqual({ height: 7, holes: 0, bumpiness: 6, wells: 1, lines: 2 });
+    expect(boardFeatures(board(["...", ".XX", ".XX"]), 0).wells).toBe(2);
+  });
+
+  it("score flat, clean boards above bumpy, holey ones", () => {
+    const flat = boardFeatures(board(["....", "....", "XXX."]), 0);
+    const holey = boardFeatures(board(["....", "XXX.", "X.X."]), 0);
+    expect(evaluate(flat, DEFAULT_WEIGHTS)).toBeGreaterThan(evaluate(holey, DEFAULT_WEIGHTS));
+  });
+});
+
+describe("placements", () => {
+  const s = createGame(1);
+  const found = placements(s);
+
+  it("are listed once per set of cells", () => {
+    const keys = found.map(p => `${p.actions[0] instanceof Hold} ${JSON.stringify(p.state.gameBoard)}`);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it("reach across the board, for the current piece and the hold piece", () => {
+    const lefts = (held: boolean) =>
+      new Set(
+        found
+          .filter(p => p.actions[0] instanceof Hold === held)
+          .map(p => p.state.gameBoard.flat().findIndex(cell => cell !== null) % 10)
+      );
+    expect(lefts(false).size).toBeGreaterThan(6);
+    expect(lefts(true).size).toBeGreaterThan(6);
+  });
+
+  it("are reached by playing their actions", () => {
+    found.forEach(p => expect(p.actions.reduce(applyAction, s).gameBoard).toEqual(p.state.gameBoard));
+  });
+
+  it("only use moves, rotations, ticks and hold", () => {
+    found.forEach(p =>
+      p.actions.forEach(a => expect([Move, Rotate, Tick, Hold].some(type => a instanceof type)).toBe(true))
+    );
+  });
+
+  it("are none once the game is over", () => {
+    expect(placements({ ...s, gameEnd: true })).toHaveLength(0);
+    expect(bestPlacement({ ...s, paused: true })).toBeNull();
+  });
+});
+
+describe("the bot", () => {
+  it("locks one piece per move, where the hint said it would", () => {
+    const s = createGame(4);
+    const hint = bestPlacement(s)!;
+    const next = applyAction(s, new BotMove());
+    expect(filledCells(next)).toBe(filledCells(s) + 4);
+    expect(next.gameBoard).toEqual(hint.state.gameBoard);
+    expect(getPiece(next).name).toBe(getPiece(hint.state).name);
+  });
+
+  it("reuses the hint's search while the piece hasn't moved, for the game as it is now", () => {
+    const s = createGame(5);
+    const hint = bestPlacement(s)!;
+    const later = { ...s, time: s.time + 100, score: s.score + 50 };
+    const searched = bestPlacement({ ...later, currentTetromino: { ...later.currentTetromino } })!;
+    const reused = bestPlacement(later)!;
+    expect(reused.actions).toBe(hint.actions);
+    expect(reused.state).toEqual(searched.state);
+    expect(reused.state.time).toBe(later.time);
+  });
+
+  it("is recorded in replays", () => {
+    expect(encodeAction(new BotMove())).toEqual({ type: "bot" });
+    const weights = { ...DEFAULT_WEIGHTS, holes: -1 };
+    expect(encodeAction(decodeAction(encodeAction(new BotMove(weights))))).toEqual({ type: "bot", weights });
+
+    const s = createGame(2);
+    const replay = [new BotMove(), new BotMove()].reduce(recordAction, createReplay(s));
+    expect(runReplay(JSON.parse(JSON.stringify(replay)))).toEqual(
+      applyAction(applyAction(s, new BotMove()), new BotMove())
+    );
+  });
+});
+
+describe("benchmark", () => {
+  it("plays seeded games the same way every time", () => {
+    const result = runBenchmark(2, { seed: 3, maxPieces: 8 });
+    expect(result.games).toHaveLength(2);
+    expect(result.games.map(g => g.pieces)).toEqual([8, 8]);
+    expect(result.games[0].seed).toBe(3);
+    expect(result.games[1].seed).not.toBe(3);
+    expect(result.averageLines).toBe((result.games[0].lines + result.games[1].lines) / 2);
+    expect(runBenchmark(2, { seed: 3, maxPieces: 8 })).toEqual(result);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  Advance,
+  FRAME_MS,
+  LOCK_FLASH_MS,
+  HardDrop,
+  Move,
+  Rulesets,
+  State,
+  Tetromino,
+  Tick,
+  ageEffects,
+  applyAction,
+  applyActions,
+  clearProgress,
+  clearingCell,
+  createGame,
+  effectOpacity,
+  eventEffects,
+  getBoard,
+  playBotGame,
+} from "../src/engine";
+
+/** A game with an I piece falling over a row filled but for its right four cells, and a cell on top. */
+const singleReady = (config = Rulesets.guideline): State => {
+  const s = createGame(1, config);
+  return {
+    ...s,
+    gameBoard: getBoard(s).map((row, y) => row.map((_, x) => ((y === 19 ? x < 6 : y === 18 && x === 0) ? "Z" : null))),
+    currentTetromino: { ...s.currentTetromino, name: "I", colour: "I", rotation: 0, shapesArray: Tetromino.I[0] },
+  };
+};
+
+const tetrisRight = [...Array(3).fill(new Move({ x: 1, y: 0 })), new HardDrop()];
+
+describe("entry and line clear delays", () => {
+  it("are off by default", () => {
+    const s = applyAction(createGame(1), new HardDrop());
+    expect(s.delay).toBe(0);
+    expect(s.pieces).toBe(1);
+    expect(s.events.map(event => event.type)).toContain("spawn");
+  });
+
+  it("hold the next piece back for the entry delay", () => {
+    const s = createGame(1, Rulesets.guideline);
+    const locked = applyAction(s, new HardDrop());
+    expect(locked.delay).toBeCloseTo(6 * FRAME_MS);
+    expect(locked.lineClear).toBeNull();
+    expect(locked.currentTetromino).toBe(locked.lastLock); // nothing falls until the next piece enters
+    expect(applyAction(locked, new Move({ x: -1, y: 0 }))).toBe(locked);
+
+    const waiting = applyAction(locked, new Advance(3 * FRAME_MS));
+    expect(waiting.delay).toBeCloseTo(3 * FRAME_MS);
+    expect(waiting.time).toBeCloseTo(3 * FRAME_MS);
+
+    const entered = applyAction(waiting, new Advance(3 * FRAME_MS));
+    expect(entered.delay).toBe(0);
+    expect(entered.currentTetromino).toEqual(s.queue[0]);
+    expect(entered.events.map(event => event.type)).toEqual(["spawn"]);
+  });
+
+  it("flag full rows for the line clear delay, then wait out the entry delay", () => {
+    const cleared = applyActions(singleReady(), tetrisRight);
+    expect(cleared.lines).toBe(1);
+    expect(getBoard(cleared)[19][0]).toBe("Z"); // the game board has already dropped
+    expect(cleared.lineClear?.rows).toEqual([19]);
+    expect(cleared.lineClear?.board[19].every(cell => cell !== null)).toBe(true);
+    expect(cleared.delay).toBeCloseTo(36 * FRAME_MS);
+
+    const entering = applyAction(cleared, new Advance(31 * FRAME_MS));
+    expect(entering.lineClear).toBeNull();
+    expect(entering.delay).toBeGreaterThan(0);
+    expect(applyAction(entering, new Advance(5 * FRAME_MS)).delay).toBe(0);
+  });
+
+  it("follow the ruleset's timings", () => {
+    const cleared = applyActions(singleReady(Rulesets.classic), tetrisRight);
+    expect(cleared.delay).toBeCloseTo(30 * FRAME_MS);
+    expect(applyActions(singleReady(Rulesets.instant), tetrisRight).lineClear).toBeNull();
+  });
+
+  it("end at a tick", () => {
+    const s = applyActions(singleReady(), [...tetrisRight, new Tick()]);
+    expect(s.delay).toBe(0);
+    expect(s.lineClear).toBeNull();
+    expect(s.events.map(event => event.type)).toEqual(["spawn"]);
+  });
+
+  it("don't hold up the bot", () => {
+    expect(playBotGame(1, { maxPieces: 20, config: Rulesets.guideline }).pieces).toBe(20);
+  });
+});
+
+describe("animations", () => {
+  it("flash where a piece locks, and trail behind a hard drop", () => {
+    const dropped = applyAction(createGame(1), new HardDrop());
+    const effects = dropped.events.flatMap(eventEffects);
+    expect(effects.map(effect => effect.kind)).toEqual(["trail", "lockFlash"]);
+    expect(effects[1].cells).toHaveLength(4);
+    expect(effects[0].cells.every(([, y]) => y < 20 && y >= 0)).toBe(true);
+    expect(effects[0].cells.some(([, y]) => y === 0)).toBe(true); // all the way up to where it fell from
+  });
+
+  it("fade out and finish", () => {
+    const [flash] = applyAction(createGame(1), new HardDrop()).events.flatMap(eventEffects).slice(1);
+    const [faded] = ageEffects([flash], LOCK_FLASH_MS / 2);
+    expect(effectOpacity(faded)).toBeLessThan(effectOpacity(flash));
+    expect(ageEffects([flash], LOCK_FLASH_MS)).toEqual([]);
+  });
+
+  it("flash and dissolve clearing rows through the line clear delay", () => {
+    const cleared = applyActions(singleReady(), tetrisRight);
+    expect(clearProgress(cleared)).toBeCloseTo(0);
+    expect(clearingCell(cleared, 0)).toMatchObject({ flash: true, opacity: 1 });
+
+    const later = applyAction(cleared, new Advance(24 * FRAME_MS));
+    expect(clearProgress(later)).toBeCloseTo(0.8);
+    expect(clearingCell(later, 4)?.opacity).toBeLessThan(clearingCell(later, 0)!.opacity); // from the middle out
+    expect(clearingCell(later, 0)?.flash).toBe(false);
+
+    expect(clearProgress(applyAction(later, new Advance(6 * FRAME_MS)))).toBeNull();
+    expect(clearProgress(createGame(1))).toBeNull();
+  });
+});
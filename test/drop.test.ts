@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  DropScore,
+  HardDrop,
+  SoftDrop,
+  Tick,
+  applyAction,
+  applyActions,
+  createGame,
+  getBoard,
+  getGhostPiece,
+  getNextPiece,
+  getPiece,
+  getPieceCells,
+  getScore,
+} from "../src/engine";
+
+describe("getGhostPiece", () => {
+  it("shows the piece resting on the floor of an empty board", () => {
+    const s = createGame(4);
+    const ghost = getGhostPiece(s);
+    const cells = getPieceCells({ ...s, currentTetromino: ghost });
+    expect(Math.max(...cells.map(([_, y]) => y))).toBe(19);
+    expect(ghost.x).toBe(getPiece(s).x);
+  });
+
+  it("lands on top of the stack", () => {
+    const s = createGame(4);
+    const stacked = { ...s, gameBoard: getBoard(s).map((row, y) => (y >= 15 ? row.map(() => "Z") : row)) };
+    const cells = getPieceCells({ ...stacked, currentTetromino: getGhostPiece(stacked) });
+    expect(Math.max(...cells.map(([_, y]) => y))).toBe(14);
+  });
+});
+
+describe("HardDrop", () => {
+  it("locks the piece on its landing row and spawns the next one", () => {
+    const s = createGame(4);
+    const dropped = applyAction(s, new HardDrop());
+    const ghostCells = getPieceCells({ ...s, currentTetromino: getGhostPiece(s) });
+    ghostCells.forEach(([x, y]) => expect(getBoard(dropped)[y][x]).toBe(getPiece(s).name));
+    expect(getPiece(dropped)).toEqual(getNextPiece(s));
+  });
+
+  it("scores points for every row dropped", () => {
+    const s = createGame(4);
+    const rows = getGhostPiece(s).y - getPiece(s).y;
+    expect(getScore(applyAction(s, new HardDrop()))).toBe(rows * DropScore.HARD);
+  });
+});
+
+describe("SoftDrop", () => {
+  it("moves the piece down a row and scores a point", () => {
+    const s = createGame(4);
+    const dropped = applyActions(s, [new SoftDrop(), new SoftDrop()]);
+    expect(getPiece(dropped).y).toBe(getPiece(s).y + 2);
+    expect(getScore(dropped)).toBe(2 * DropScore.SOFT);
+  });
+
+  it("locks a grounded piece like a tick, without scoring", () => {
+    const s = createGame(4);
+    const grounded = { ...s, currentTetromino: getGhostPiece(s) };
+    expect(applyAction(grounded, new SoftDrop())).toEqual(applyAction(grounded, new Tick()));
+  });
+});
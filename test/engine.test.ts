@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  Move,
+  Restart,
+  Rotate,
+  Tick,
+  applyAction,
+  applyActions,
+  createGame,
+  getBoard,
+  getNextPiece,
+  getPiece,
+  getPieceCells,
+  getScore,
+  isGameOver,
+} from "../src/engine";
+
+describe("createGame", () => {
+  it("runs without a document", () => {
+    expect(typeof document).toBe("undefined");
+    expect(createGame(1)).toBeDefined();
+  });
+
+  it("builds an empty board from the config", () => {
+    const board = getBoard(createGame(1, { GRID_WIDTH: 6, GRID_HEIGHT: 12 }));
+    expect(board).toHaveLength(12);
+    expect(board.every(row => row.length === 6)).toBe(true);
+    expect(board.flat().every(cell => cell === null)).toBe(true);
+  });
+
+  it("is deterministic for a given seed", () => {
+    expect(getPiece(createGame(42)).name).toBe(getPiece(createGame(42)).name);
+    expect(getNextPiece(createGame(42)).name).toBe(getNextPiece(createGame(42)).name);
+  });
+
+  it("starts with no score", () => {
+    const s = createGame(7);
+    expect(getScore(s)).toBe(0);
+    expect(isGameOver(s)).toBe(false);
+  });
+});
+
+describe("actions", () => {
+  it("moves the piece down one row per tick", () => {
+    const s = createGame(3);
+    expect(getPiece(applyAction(s, new Tick())).y).toBe(getPiece(s).y + 1);
+  });
+
+  it("stops the piece at the walls", () => {
+    const s = applyActions(createGame(3), Array.from({ length: 20 }, () => new Move({ x: -1, y: 0 })));
+    expect(Math.min(...getPieceCells(s).map(([x]) => x))).toBe(0);
+  });
+
+  it("does not rotate pieces into the wall", () => {
+    const s = createGame(3);
+    const rotated = applyAction(s, new Rotate());
+    expect(getPieceCells(rotated).every(([x]) => x >= 0 && x < 10)).toBe(true);
+  });
+
+  it("locks the piece on the floor and spawns the next one", () => {
+    const s = createGame(5);
+    const landed = applyActions(s, Array.from({ length: 25 }, () => new Tick()));
+    expect(getBoard(landed).flat().filter(cell => cell !== null)).toHaveLength(4);
+    expect(getPiece(landed).name).toBe(getNextPiece(s).name);
+  });
+
+  it("clears full rows and scores them", () => {
+    const s = createGame(5, { GRID_WIDTH: 4, GRID_HEIGHT: 6 });
+    const board = getBoard(s).map((row, y) => (y === 5 ? ["T", "T", "T", null] : row));
+    const upright = { ...getPiece(s), name: "I", colour: "I", x: 3, y: 2, shapesArray: [[1], [1], [1], [1]] };
+    const withGap = { ...s, gameBoard: board, currentTetromino: upright };
+    const cleared = applyActions(withGap, [new Tick(), new Tick()]);
+    expect(getScore(cleared)).toBe(100);
+    expect(getBoard(cleared)[5]).toEqual([null, null, null, "I"]);
+  });
+
+  it("keeps the high score across restarts", () => {
+    const s = { ...createGame(1), score: 12 };
+    const restarted = applyAction(s, new Restart(2));
+    expect(restarted.highscore).toBe(12);
+    expect(getScore(restarted)).toBe(0);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { from } from "rxjs";
+import { toArray } from "rxjs/operators";
+import {
+  GameEvent,
+  HardDrop,
+  Hold,
+  Move,
+  Rotate,
+  State,
+  Tetromino,
+  applyAction,
+  applyActions,
+  createGame,
+  eventTones,
+  gameEvents,
+  getBoard,
+  ofType,
+} from "../src/engine";
+
+const types = (s: State) => s.events.map(event => event.type);
+
+/**
+ * A game a line short of level 2, with an I piece falling over a row filled but
+ * for its right four cells, and a cell on top.
+ */
+const singleReady = (): State => {
+  const s = createGame(1, { START_LEVEL: 1 });
+  return {
+    ...s,
+    lines: 9,
+    gameBoard: getBoard(s).map((row, y) => row.map((_, x) => (y === 19 ? x < 6 : y === 18 && x === 0) ? "Z" : null)),
+    currentTetromino: { ...s.currentTetromino, name: "I", colour: "I", rotation: 0, shapesArray: Tetromino.I[0] },
+  };
+};
+
+/** Collects the events of a stream of states. */
+const collect = (states: ReadonlyArray<State>) =>
+  new Promise<ReadonlyArray<GameEvent>>(resolve => gameEvents(from(states)).pipe(toArray()).subscribe(resolve));
+
+describe("game events", () => {
+  it("announce a move, and nothing for a move that's blocked", () => {
+    const moved = applyAction(createGame(1), new Move({ x: -1, y: 0 }));
+    expect(moved.events).toEqual([{ type: "move", piece: moved.currentTetromino, x: -1, y: 0 }]);
+
+    const atWall = applyActions(moved, Array(9).fill(new Move({ x: -1, y: 0 })));
+    expect(applyAction(atWall, new Move({ x: -1, y: 0 }))).toBe(atWall);
+  });
+
+  it("announce a rotation with the kick it used", () => {
+    const rotated = applyAction(createGame(1), new Rotate(1));
+    expect(rotated.events).toEqual([{ type: "rotate", piece: rotated.currentTetromino, turns: 1, kick: 0 }]);
+  });
+
+  it("announce a lock, its clear and the level it reaches, then the next piece", () => {
+    const s = singleReady();
+    const dropped = applyActions(s, [...Array(3).fill(new Move({ x: 1, y: 0 })), new HardDrop()]);
+    expect(types(dropped)).toEqual(["hardDrop", "lock", "clear", "levelUp", "spawn"]);
+    expect(dropped.events[0]).toMatchObject({ type: "hardDrop", rows: 20 });
+    expect(dropped.events[2]).toEqual({ type: "clear", rows: [19], lines: 1, tSpin: "none", perfectClear: false });
+    expect(dropped.events[3]).toEqual({ type: "levelUp", level: 2 });
+    expect(dropped.events[4]).toEqual({ type: "spawn", piece: dropped.currentTetromino });
+  });
+
+  it("keep only the events of the latest action", () => {
+    const s = applyActions(createGame(1), [new Move({ x: 1, y: 0 }), new HardDrop()]);
+    expect(types(s)).toEqual(["hardDrop", "lock", "spawn"]);
+  });
+
+  it("announce a hold, with the piece put away", () => {
+    const s = createGame(1);
+    const held = applyAction(s, new Hold());
+    expect(types(held)).toEqual(["hold", "spawn"]);
+    expect(held.events[0]).toEqual({ type: "hold", piece: held.holdTetromino });
+  });
+
+  it("announce topping out and the end of the game", () => {
+    const s = createGame(1);
+    const full = { ...s, gameBoard: getBoard(s).map(row => row.map((_, x) => (x === 0 ? null : "Z"))) };
+    const ended = applyAction(full, new HardDrop());
+    expect(types(ended)).toEqual(["hardDrop", "topOut", "gameOver"]);
+    expect(ended.events[2]).toEqual({ type: "gameOver", goalReached: false });
+  });
+
+  it("stream the events of each new state once", async () => {
+    const s = createGame(1);
+    const moved = applyAction(s, new Move({ x: 1, y: 0 }));
+    const dropped = applyAction(moved, new HardDrop());
+    const events = await collect([s, moved, moved, dropped]);
+    expect(events.map(event => event.type)).toEqual(["move", "hardDrop", "lock", "spawn"]);
+  });
+
+  it("filter the stream by type", async () => {
+    const s = createGame(1);
+    const dropped = applyAction(s, new HardDrop());
+    const locks = await new Promise(resolve =>
+      gameEvents(from([s, dropped])).pipe(ofType("lock"), toArray()).subscribe(resolve)
+    );
+    expect(locks).toEqual([dropped.events[1]]);
+  });
+});
+
+describe("sound effects", () => {
+  it("play a note for each line cleared", () => {
+    const clear = (lines: number, perfectClear = false): GameEvent => ({
+      type: "clear",
+      rows: [],
+      lines,
+      tSpin: "none",
+      perfectClear,
+    });
+    expect(eventTones(clear(1))).toHaveLength(1);
+    expect(eventTones(clear(4))).toHaveLength(4);
+    expect(eventTones(clear(2, true)).length).toBeGreaterThan(2);
+  });
+
+  it("leave quiet events silent", () => {
+    expect(eventTones({ type: "spawn", piece: createGame(1).currentTetromino })).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  FUMEN_HEIGHT,
+  FumenPage,
+  HardDrop,
+  Hold,
+  Rotate,
+  Tetromino,
+  applyActions,
+  createGame,
+  decodeFumen,
+  decodePosition,
+  encodeFumen,
+  encodePosition,
+  getBoard,
+  positionGame,
+  positionOf,
+  positionPage,
+} from "../src/engine";
+
+/** An empty board of fumen's size, with the given rows at its bottom. */
+const fumenBoard = (...rows: Array<Array<string | null>>) => [
+  ...Array.from({ length: FUMEN_HEIGHT - rows.length }, () => Array(10).fill(null)),
+  ...rows,
+];
+
+const page = (fields: Partial<FumenPage> = {}): FumenPage => ({
+  board: fumenBoard(),
+  garbage: Array(10).fill(null),
+  piece: null,
+  comment: "",
+  lock: true,
+  rise: false,
+  mirror: false,
+  ...fields,
+});
+
+/** A piece on a fumen page. */
+const piece = (name: string, rotation: number, x: number, y: number) => ({
+  name,
+  colour: name,
+  x,
+  y,
+  rotation,
+  shapesArray: Tetromino[name][rotation],
+});
+
+const greyRow = () => Array(10).fill("garbage");
+
+describe("fumen diagrams", () => {
+  it("read and write the empty field as fumen does", () => {
+    expect(decodeFumen("v115@vhAAgH")).toEqual([page()]);
+    expect(encodeFumen([page()])).toBe("v115@vhAAgH");
+  });
+
+  it("write a field as runs of changed cells", () => {
+    const grey = page({ board: fumenBoard(greyRow()) });
+    expect(encodeFumen([grey])).toBe("v115@bhJ8JeAgH");
+    expect(decodeFumen("https://fumen.zui.jp/?v115@bhJ8JeAgH")).toEqual([grey]);
+  });
+
+  it("place every tetromino in every rotation state", () => {
+    Object.keys(Tetromino).forEach(name =>
+      [0, 1, 2, 3].forEach(rotation => {
+        const placed = piece(name, rotation, 3, 18);
+        expect(decodeFumen(encodeFumen([page({ piece: placed, lock: false })]))[0].piece).toEqual(placed);
+      })
+    );
+  });
+
+  it("carry each page on from the piece before it locking and clearing", () => {
+    const first = page({
+      board: fumenBoard(["I", "I", "I", "I", null, "T", "T", "T", "T", "T"]),
+      piece: piece("O", 0, 3, 21),
+    });
+    const cleared = fumenBoard([null, null, null, null, "O", "O", null, null, null, null]);
+    const text = encodeFumen([first, page({ board: cleared })]);
+    expect(text).toMatch(/vhAAAA$/); // the second page's field is written as unchanged
+    expect(decodeFumen(text)[1].board).toEqual(cleared);
+  });
+
+  it("rise the garbage row and mirror the board between pages", () => {
+    const board = fumenBoard(["S", ...Array(9).fill(null)]);
+    const rising = page({ board, garbage: greyRow(), rise: true, mirror: true });
+    const risen = page({ board: fumenBoard([...Array(9).fill(null), "S"], greyRow()) });
+    const text = encodeFumen([rising, risen]);
+    expect(text).toMatch(/vhAAAA$/);
+    expect(decodeFumen(text)).toEqual([rising, risen]);
+  });
+
+  it("count pages that leave the field unchanged", () => {
+    const pages = Array.from({ length: 70 }, (_, index) => page({ comment: `${index % 3 ? "" : index}` }));
+    expect(decodeFumen(encodeFumen(pages))).toEqual(pages);
+  });
+
+  it("keep comments of any characters, inherited until they change", () => {
+    const pages = [page({ comment: "Ready? 100% 日本語" }), page({ comment: "Ready? 100% 日本語" }), page()];
+    const text = encodeFumen(pages);
+    expect(decodeFumen(text)).toEqual(pages);
+    expect(text.replace(/\?/g, "").length).toBeGreaterThan(41);
+  });
+
+  it("break long diagrams as fumen does", () => {
+    const text = encodeFumen([page({ comment: "A".repeat(100) })]);
+    const lines = text.slice("v115@".length).split("?");
+    expect(lines[0]).toHaveLength(42);
+    expect(lines.slice(1, -1).every(line => line.length === 47)).toBe(true);
+  });
+
+  it("say what's wrong with ones that can't be read", () => {
+    expect(() => decodeFumen("hello")).toThrow("Not a fumen diagram");
+    expect(() => decodeFumen("v110@7eEfYaAFLDmClcJSAVDEHBEooRBMoAVB")).toThrow("version 110");
+    expect(() => decodeFumen("v115@vhAA")).toThrow("ends too soon");
+    expect(() => encodeFumen([page({ board: [[null]] })])).toThrow("10 by 23");
+  });
+});
+
+describe("positions", () => {
+  it("survive being shared", () => {
+    const s = applyActions(createGame(3), [new Rotate(1), new HardDrop(), new Hold(), new HardDrop()]);
+    const position = positionOf(s);
+    expect(decodePosition(encodePosition(position))).toEqual(position);
+  });
+
+  it("write their pieces as a fumen quiz", () => {
+    const position = { board: fumenBoard().slice(3), current: "T", hold: "LL", queue: ["LR", "I"] };
+    expect(decodeFumen(encodePosition(position))[0].comment).toBe("#Q=[J](T)LI");
+  });
+
+  it("keep a board taller than the standard one", () => {
+    const board = fumenBoard(...Array.from({ length: 22 }, greyRow));
+    const position = decodePosition(encodePosition({ board, current: null, hold: null, queue: [] }));
+    expect(position.board).toEqual(board.slice(1));
+  });
+
+  it("read the first page of a diagram, with its piece placed", () => {
+    const position = decodePosition(encodeFumen([page({ piece: piece("I", 0, 0, 21) }), page()]));
+    expect(position.board).toHaveLength(20);
+    expect(position.board[19]).toEqual(["I", "I", "I", "I", null, null, null, null, null, null]);
+    expect(position.current).toBeNull();
+  });
+
+  it("refuse pieces and boards fumen has no room for", () => {
+    const board = fumenBoard().slice(3);
+    expect(() => positionPage({ board, current: "X", hold: null, queue: [] })).toThrow("no piece X");
+    expect(() => positionPage({ board: [[null]], current: null, hold: null, queue: [] })).toThrow("10 cells wide");
+  });
+
+  it("start a practice game with their pieces first", () => {
+    const board = fumenBoard(greyRow().fill(null, 4, 5)).slice(3);
+    const s = positionGame({ board, current: "I", hold: "O", queue: ["T", "S"] }, 5);
+    expect(s.currentTetromino.name).toBe("I");
+    expect(s.holdTetromino?.name).toBe("O");
+    expect(s.queue.slice(0, 3).map(p => p.name)).toEqual(["T", "S", createGame(5).currentTetromino.name]);
+    expect(getBoard(s)).toEqual(board);
+    expect(getBoard(s)).not.toBe(board);
+  });
+});
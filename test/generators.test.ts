@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  GeneratorName,
+  Generators,
+  Restart,
+  Tetromino,
+  Tick,
+  applyAction,
+  createGame,
+  getNextPiece,
+  getPiece,
+} from "../src/engine";
+
+const pieces = Object.keys(Tetromino);
+
+/**
+ * Draws `count` pieces from a freshly seeded generator.
+ */
+const draw = (name: GeneratorName, seed: number, count: number): string[] =>
+  Array.from({ length: count }).reduce<[string[], ReturnType<typeof Generators.bag7.init>]>(
+    ([drawn, g]) => {
+      const [piece, next] = Generators[name].next(g, pieces);
+      return [[...drawn, piece], next];
+    },
+    [[], Generators[name].init(seed)]
+  )[0];
+
+/**
+ * Counts how often a piece is immediately followed by the same piece.
+ */
+const repeats = (sequence: string[]) =>
+  sequence.filter((piece, i) => i > 0 && piece === sequence[i - 1]).length;
+
+describe.each(Object.keys(Generators) as GeneratorName[])("%s generator", name => {
+  it("gives the same sequence for the same seed", () => {
+    expect(draw(name, 99, 50)).toEqual(draw(name, 99, 50));
+  });
+
+  it("gives different sequences for different seeds", () => {
+    expect(draw(name, 1, 50)).not.toEqual(draw(name, 2, 50));
+  });
+
+  it("only deals pieces from the piece set, eventually all of them", () => {
+    const sequence = draw(name, 7, 700);
+    expect(sequence.every(p => pieces.includes(p))).toBe(true);
+    expect(new Set(sequence).size).toBe(pieces.length);
+  });
+});
+
+describe("bag7", () => {
+  it("deals every piece exactly once per bag", () => {
+    const sequence = draw("bag7", 2023, 70);
+    Array.from({ length: 10 }, (_, i) => sequence.slice(i * 7, i * 7 + 7)).forEach(bag =>
+      expect([...bag].sort()).toEqual([...pieces].sort())
+    );
+  });
+});
+
+describe("nes", () => {
+  it("repeats pieces less often than pure random", () => {
+    expect(repeats(draw("nes", 5, 7000))).toBeLessThan(repeats(draw("random", 5, 7000)));
+  });
+});
+
+describe("tgm", () => {
+  it("never starts with an S, Z or O", () => {
+    Array.from({ length: 50 }, (_, seed) => draw("tgm", seed, 1)[0]).forEach(first =>
+      expect(["S", "Z", "O"]).not.toContain(first)
+    );
+  });
+
+  it("remembers the last four pieces", () => {
+    const [piece, g] = Generators.tgm.next(Generators.tgm.init(3), pieces);
+    expect(g.history).toEqual([piece, "Z", "Z", "Z"]);
+  });
+
+  it("repeats pieces less often than pure random", () => {
+    expect(repeats(draw("tgm", 5, 7000))).toBeLessThan(repeats(draw("random", 5, 7000)));
+  });
+});
+
+describe("games", () => {
+  /**
+   * Ticks a game on a tall board, recording each piece as it spawns.
+   */
+  const sequence = (seed: number, ticks: number) =>
+    Array.from({ length: ticks })
+      .reduce<ReturnType<typeof createGame>[]>(
+        states => [...states, applyAction(states[states.length - 1], new Tick())],
+        [createGame(seed, { GRID_HEIGHT: 40 })]
+      )
+      .filter(s => getPiece(s).y === -2)
+      .map(s => getPiece(s).name);
+
+  it("deal the same pieces to games with the same seed", () => {
+    const dealt = sequence(314, 300);
+    expect(dealt.length).toBeGreaterThan(7);
+    expect(dealt).toEqual(sequence(314, 300));
+    expect(dealt).toEqual(draw("bag7", 314, dealt.length));
+  });
+
+  it("use the configured generator", () => {
+    const s = createGame(8, { GENERATOR: "tgm" });
+    expect([getPiece(s).name, getNextPiece(s).name]).toEqual(draw("tgm", 8, 2));
+  });
+
+  it("restart into a reproducible game", () => {
+    const s = createGame(10);
+    expect(applyAction(s, new Restart())).toEqual(applyAction(s, new Restart()));
+    expect(getPiece(applyAction(s, new Restart(8)))).toEqual(getPiece(createGame(8)));
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  Advance,
+  Move,
+  Press,
+  Release,
+  State,
+  applyAction,
+  applyActions,
+  createGame,
+  getGhostPiece,
+  getNextPiece,
+  getPiece,
+  getScore,
+} from "../src/engine";
+
+/** A game with gravity effectively switched off, for testing sideways movement. */
+const floating = (config = {}): State => ({ ...createGame(1, config), level: 1, gravityTimer: -1e9 });
+
+/** Advances the clock in 1 ms steps. */
+const wait = (s: State, ms: number): State =>
+  applyActions(s, Array.from({ length: ms }, () => new Advance(1)));
+
+describe("auto shift", () => {
+  it("moves once as soon as a direction is pressed", () => {
+    const s = floating();
+    expect(getPiece(applyAction(s, new Press("left"))).x).toBe(getPiece(s).x - 1);
+  });
+
+  it("waits for DAS before repeating, then repeats every ARR", () => {
+    const s = applyAction(floating({ DAS_MS: 100, ARR_MS: 20 }), new Press("right"));
+    const x = getPiece(s).x;
+    expect(getPiece(wait(s, 99)).x).toBe(x);
+    expect(getPiece(wait(s, 100)).x).toBe(x + 1);
+    expect(getPiece(wait(s, 139)).x).toBe(x + 2);
+    expect(getPiece(wait(s, 140)).x).toBe(x + 3);
+  });
+
+  it("handles frames longer than the repeat rate", () => {
+    const s = applyAction(floating({ DAS_MS: 100, ARR_MS: 40 }), new Press("left"));
+    expect(getPiece(applyAction(s, new Advance(140))).x).toBe(getPiece(s).x - 2);
+  });
+
+  it("goes straight to the wall with an ARR of 0", () => {
+    const s = applyActions(floating({ DAS_MS: 100, ARR_MS: 0 }), [new Press("left"), new Advance(100)]);
+    expect(getPiece(s).x).toBe(0);
+  });
+
+  it("stops when the direction is released", () => {
+    const s = applyActions(floating({ DAS_MS: 100, ARR_MS: 20 }), [new Press("left"), new Release("left")]);
+    expect(getPiece(wait(s, 200)).x).toBe(getPiece(s).x);
+  });
+
+  it("hands over to the other direction when both are held", () => {
+    const s = applyActions(floating({ DAS_MS: 100, ARR_MS: 20 }), [new Press("left"), new Press("right")]);
+    expect(s.input.shift).toBe(1);
+    const released = applyAction(s, new Release("right"));
+    expect(released.input).toMatchObject({ shift: -1, shiftTimer: 0 });
+    expect(getPiece(applyAction(released, new Advance(100))).x).toBe(getPiece(released).x - 1);
+  });
+});
+
+describe("gravity", () => {
+  it("drops one row per gravity interval", () => {
+    const s = createGame(1);
+    expect(getPiece(applyAction(s, new Advance(999))).y).toBe(getPiece(s).y);
+    expect(getPiece(applyAction(s, new Advance(1000))).y).toBe(getPiece(s).y + 1);
+  });
+
+  it("speeds up by the soft drop factor and scores each row", () => {
+    const s = applyAction(createGame(1, { SOFT_DROP_FACTOR: 20 }), new Press("softDrop"));
+    const dropped = applyAction(s, new Advance(150));
+    expect(getPiece(dropped).y).toBe(getPiece(s).y + 3);
+    expect(getScore(dropped)).toBe(3);
+    expect(getPiece(applyActions(dropped, [new Release("softDrop"), new Advance(50)])).y).toBe(getPiece(s).y + 3);
+  });
+});
+
+describe("lock delay", () => {
+  const grounded = (config = {}): State => {
+    const s = createGame(1, config);
+    return { ...s, currentTetromino: getGhostPiece(s), lowestRow: getGhostPiece(s).y };
+  };
+
+  it("waits before locking a grounded piece", () => {
+    const s = grounded();
+    expect(getPiece(applyAction(s, new Advance(499)))).toEqual(getPiece(s));
+    expect(getPiece(applyAction(s, new Advance(500)))).toEqual(getNextPiece(s));
+  });
+
+  it("restarts when the piece moves", () => {
+    const s = applyActions(grounded(), [new Advance(400), new Move({ x: 1, y: 0 }), new Advance(400)]);
+    expect(getPiece(s).name).toBe(getPiece(grounded()).name);
+    expect(s.lockResets).toBe(1);
+  });
+
+  it("stops restarting after the maximum number of resets", () => {
+    const shuffle = Array.from({ length: 4 }, (_, i) => [new Advance(100), new Move({ x: i % 2 === 0 ? 1 : -1, y: 0 })]).flat();
+    const s = applyActions(grounded({ MAX_LOCK_RESETS: 4 }), shuffle);
+    expect(s.lockResets).toBe(4);
+    expect(getPiece(applyAction(s, new Advance(1)))).toEqual(getNextPiece(s));
+  });
+
+  it("gives resets back when the piece reaches a new lowest row", () => {
+    const s = createGame(1);
+    const spent = { ...s, lockResets: 10, lowestRow: getPiece(s).y };
+    expect(applyAction(spent, new Advance(1000)).lockResets).toBe(0);
+  });
+});
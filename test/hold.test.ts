@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  Hold,
+  Move,
+  Rotate,
+  Tick,
+  applyAction,
+  applyActions,
+  canHold,
+  createGame,
+  getHeldPiece,
+  getNextPiece,
+  getPiece,
+} from "../src/engine";
+
+/** Enough ticks to drop a piece onto an empty 20-row board and lock it. */
+const dropToFloor = Array.from({ length: 22 }, () => new Tick());
+
+describe("Hold", () => {
+  it("starts with an empty hold slot", () => {
+    const s = createGame(1);
+    expect(getHeldPiece(s)).toBeNull();
+    expect(canHold(s)).toBe(true);
+  });
+
+  it("pulls the next piece from the queue when the slot is empty", () => {
+    const s = createGame(1);
+    const held = applyAction(s, new Hold());
+    expect(getHeldPiece(held)?.name).toBe(getPiece(s).name);
+    expect(getPiece(held)).toEqual(getNextPiece(s));
+    expect(getNextPiece(held).name).not.toBeUndefined();
+  });
+
+  it("resets the held piece to its spawn position and rotation", () => {
+    const s = applyActions(createGame(1), [new Tick(), new Tick(), new Move({ x: 1, y: 0 }), new Rotate(1)]);
+    expect(getHeldPiece(applyAction(s, new Hold()))).toMatchObject({ x: 3, y: -2, rotation: 0 });
+  });
+
+  it("can only be used once per piece", () => {
+    const s = applyAction(createGame(1), new Hold());
+    expect(canHold(s)).toBe(false);
+    expect(applyAction(s, new Hold())).toBe(s);
+  });
+
+  it("is unlocked again once the piece locks, and swaps with the held piece", () => {
+    const s = applyAction(createGame(1), new Hold());
+    const locked = applyActions(s, dropToFloor);
+    expect(canHold(locked)).toBe(true);
+
+    const swapped = applyActions(locked, [new Tick(), new Hold()]);
+    expect(getPiece(swapped)).toMatchObject({ name: getHeldPiece(s)?.name, x: 3, y: -2, rotation: 0 });
+    expect(getHeldPiece(swapped)?.name).toBe(getPiece(locked).name);
+    expect(getNextPiece(swapped)).toEqual(getNextPiece(locked));
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  GAMEPAD_BUTTONS,
+  PLAYER_ONE_KEYS,
+  PLAYER_TWO_KEYS,
+  bindingsOf,
+  buttonName,
+  encodeAction,
+  exclusiveBindings,
+  gamepadActions,
+  keyName,
+  pressAction,
+  readGamepad,
+  rebind,
+  releaseAction,
+} from "../src/engine";
+
+/**
+ * Stands in for a connected pad with the given buttons held.
+ */
+const pad = (held: number[], connected = true) =>
+  ({
+    connected,
+    buttons: Array.from({ length: 17 }, (_, button) => ({ pressed: held.includes(button), touched: false, value: 0 })),
+  } as unknown as Gamepad);
+
+/** Mocks the Gamepad API with the given pads plugged in. */
+const plugIn = (...pads: Array<Gamepad | null>) => vi.stubGlobal("navigator", { getGamepads: () => pads });
+
+describe("bindings", () => {
+  it("find what a key does", () => {
+    expect(bindingsOf(PLAYER_ONE_KEYS, "KeyA")).toEqual(["left"]);
+    expect(bindingsOf(PLAYER_ONE_KEYS, "ArrowUp")).toEqual(["rotateCw"]);
+    expect(bindingsOf(PLAYER_ONE_KEYS, "KeyM")).toEqual([]);
+  });
+
+  it("rebind a key, taking it from anything else it did", () => {
+    const keys = rebind(PLAYER_ONE_KEYS, "hardDrop", "KeyA");
+    expect(keys.hardDrop).toEqual(["KeyA"]);
+    expect(keys.left).toEqual(["ArrowLeft"]);
+    expect(bindingsOf(keys, "Space")).toEqual([]);
+  });
+
+  it("give player two's keys to player two alone", () => {
+    const one = exclusiveBindings(PLAYER_ONE_KEYS, PLAYER_TWO_KEYS);
+    expect(one.left).toEqual(["KeyA"]);
+    expect(one.rotateCw).toEqual(["KeyW", "KeyX"]);
+    expect(one.pause).toEqual(PLAYER_ONE_KEYS.pause);
+  });
+
+  it("make an action for each binding", () => {
+    expect(encodeAction(pressAction("left"))).toEqual({ type: "press", control: "left" });
+    expect(encodeAction(pressAction("hardDrop"))).toEqual({ type: "hardDrop" });
+    expect(encodeAction(pressAction("rotateCcw"))).toEqual({ type: "rotate", turns: -1 });
+    expect(encodeAction(pressAction("pause"))).toEqual({ type: "pause" });
+    expect(encodeAction(releaseAction("softDrop")!)).toEqual({ type: "release", control: "softDrop" });
+    expect(releaseAction("hold")).toBeNull();
+  });
+
+  it("name keys and buttons", () => {
+    expect(keyName("KeyA")).toBe("A");
+    expect(keyName("ArrowLeft")).toBe("Left");
+    expect(keyName("ShiftRight")).toBe("Shift Right");
+    expect(keyName("Digit1")).toBe("1");
+    expect(buttonName(12)).toBe("Up");
+    expect(buttonName(20)).toBe("Button 20");
+  });
+});
+
+describe("gamepads", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("read the held buttons of a connected pad", () => {
+    plugIn(null, pad([0, 14]));
+    expect(readGamepad(0).flatMap((held, button) => (held ? [button] : []))).toEqual([0, 14]);
+    expect(readGamepad(1)).toEqual([]);
+  });
+
+  it("skip pads that have been disconnected", () => {
+    plugIn(pad([0], false), pad([1]));
+    expect(readGamepad(0)[1]).toBe(true);
+  });
+
+  it("read as nothing held without the Gamepad API", () => {
+    vi.stubGlobal("navigator", {});
+    expect(readGamepad(0)).toEqual([]);
+  });
+
+  it("press and release through the bindings", () => {
+    plugIn(pad([]));
+    const idle = readGamepad(0);
+    plugIn(pad([14, 0]));
+    const pressed = readGamepad(0);
+    plugIn(pad([0]));
+    const released = readGamepad(0);
+
+    expect(gamepadActions(idle, pressed, GAMEPAD_BUTTONS).map(encodeAction)).toEqual([
+      { type: "rotate", turns: 1 },
+      { type: "press", control: "left" },
+    ]);
+    expect(gamepadActions(pressed, pressed, GAMEPAD_BUTTONS)).toEqual([]);
+    expect(gamepadActions(pressed, released, GAMEPAD_BUTTONS).map(encodeAction)).toEqual([
+      { type: "release", control: "left" },
+    ]);
+  });
+
+  it("release everything held when the pad is unplugged", () => {
+    plugIn(pad([13, 15]));
+    const held = readGamepad(0);
+    plugIn();
+    expect(gamepadActions(held, readGamepad(0), GAMEPAD_BUTTONS).map(encodeAction)).toEqual([
+      { type: "release", control: "softDrop" },
+      { type: "release", control: "right" },
+    ]);
+  });
+
+  it("follow rebound buttons", () => {
+    const buttons = rebind(GAMEPAD_BUTTONS, "hardDrop", 0);
+    expect(gamepadActions([], [true], buttons).map(encodeAction)).toEqual([{ type: "hardDrop" }]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  LeaderboardEntry,
+  addEntry,
+  createGame,
+  createMemoryStore,
+  entryFromState,
+  loadLeaderboard,
+  qualifies,
+  saveLeaderboard,
+  topEntries,
+} from "../src/engine";
+
+const entry = (name: string, score: number, duration = 60000): LeaderboardEntry => ({
+  name,
+  score,
+  lines: 10,
+  level: 2,
+  duration,
+  date: "2023-09-01T00:00:00.000Z",
+});
+
+describe("leaderboard tables", () => {
+  it("keep entries best first", () => {
+    const board = [entry("a", 100), entry("b", 300), entry("c", 200)].reduce(
+      (b, e) => addEntry(b, "endless", e),
+      {}
+    );
+    expect(topEntries(board, "endless").map(e => e.name)).toEqual(["b", "c", "a"]);
+  });
+
+  it("rank a tied score by the shorter run", () => {
+    const board = addEntry(addEntry({}, "endless", entry("slow", 100, 90000)), "endless", entry("fast", 100, 30000));
+    expect(topEntries(board, "endless")[0].name).toBe("fast");
+  });
+
+  it("keep only the top N entries", () => {
+    const board = [1, 2, 3, 4, 5].reduce((b, n) => addEntry(b, "endless", entry(`${n}`, n * 100), 3), {});
+    expect(topEntries(board, "endless").map(e => e.score)).toEqual([500, 400, 300]);
+  });
+
+  it("are kept separately per mode", () => {
+    const board = addEntry(addEntry({}, "endless", entry("a", 100)), "sprint", entry("b", 50));
+    expect(topEntries(board, "endless")).toHaveLength(1);
+    expect(topEntries(board, "sprint")[0].name).toBe("b");
+    expect(topEntries(board, "ultra")).toEqual([]);
+  });
+});
+
+describe("qualifies", () => {
+  const full = [1, 2, 3].reduce((b, n) => addEntry(b, "endless", entry(`${n}`, n * 100), 3), {});
+
+  it("accepts any scoring run while the table has room", () => {
+    expect(qualifies({}, "endless", entry("a", 1))).toBe(true);
+    expect(qualifies({}, "endless", entry("a", 0))).toBe(false);
+  });
+
+  it("needs to beat the last entry of a full table", () => {
+    expect(qualifies(full, "endless", entry("a", 150), 3)).toBe(true);
+    expect(qualifies(full, "endless", entry("a", 100), 3)).toBe(false);
+  });
+});
+
+describe("entryFromState", () => {
+  it("records the run's stats", () => {
+    const s = { ...createGame(1), score: 1200, lines: 14, level: 2, time: 83000 };
+    expect(entryFromState(s, "  Ada ", new Date("2023-09-01T00:00:00Z"))).toEqual({
+      name: "Ada",
+      score: 1200,
+      lines: 14,
+      level: 2,
+      duration: 83000,
+      date: "2023-09-01T00:00:00.000Z",
+    });
+    expect(entryFromState(s, " ", new Date()).name).toBe("Anonymous");
+  });
+});
+
+describe("storage", () => {
+  it("round trips through a store", () => {
+    const store = createMemoryStore();
+    const board = addEntry({}, "endless", entry("a", 100));
+    saveLeaderboard(store, board);
+    expect(loadLeaderboard(store)).toEqual(board);
+  });
+
+  it("reads a missing or corrupt leaderboard as empty", () => {
+    expect(loadLeaderboard(createMemoryStore())).toEqual({});
+    expect(loadLeaderboard(createMemoryStore({ "tetris.leaderboard": "{oops" }))).toEqual({});
+    expect(loadLeaderboard(createMemoryStore({ "tetris.leaderboard": "[1]" }))).toEqual({});
+  });
+
+  it("drops tables and entries that are corrupt", () => {
+    const stored = {
+      sprint: 5,
+      marathon: [null, entry("a", 100), { name: "b" }, { ...entry("c", 50), score: "50" }],
+    };
+    const store = createMemoryStore({ "tetris.leaderboard": JSON.stringify(stored) });
+    expect(loadLeaderboard(store)).toEqual({ marathon: [entry("a", 100)] });
+    expect(topEntries(loadLeaderboard(store), "sprint")).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import {
+  Advance,
+  HardDrop,
+  MARATHON_LINES,
+  ModeName,
+  Modes,
+  Restart,
+  SPRINT_LINES,
+  State,
+  Tetromino,
+  ULTRA_TIME_MS,
+  addEntry,
+  applyAction,
+  byTime,
+  createGame,
+  createReplay,
+  entryFromState,
+  formatTime,
+  isGameOver,
+  isGoalReached,
+  modeClock,
+  recordAction,
+  runReplay,
+  topEntries,
+} from "../src/engine";
+
+const game = (mode: ModeName, overrides: Partial<State> = {}): State => ({
+  ...createGame(1, { MODE: mode }),
+  ...overrides,
+});
+
+// a board stacked to the ceiling everywhere but the left column, so the next
+// piece locks above it
+const stacked = (s: State): State => ({
+  ...s,
+  gameBoard: s.gameBoard.map(row => row.map((_, x) => (x === 0 ? null : "Z"))),
+});
+
+describe("sprint", () => {
+  it("is won by clearing the target lines", () => {
+    const s = applyAction(game("sprint", { lines: SPRINT_LINES, time: 61234 }), new Advance(16));
+    expect(isGameOver(s)).toBe(true);
+    expect(isGoalReached(s)).toBe(true);
+    expect(s.time).toBe(61250);
+  });
+
+  it("keeps going until then", () => {
+    const s = applyAction(game("sprint", { lines: SPRINT_LINES - 1 }), new Advance(16));
+    expect(isGameOver(s)).toBe(false);
+  });
+
+  it("only ranks finished sprints, fastest first", () => {
+    expect(Modes.sprint.ranked(game("sprint", { gameEnd: true }))).toBe(false);
+    expect(Modes.sprint.ranked(game("sprint", { gameEnd: true, goalReached: true }))).toBe(true);
+
+    const entry = (name: string, time: number) => entryFromState(game("sprint", { score: 100, time }), name, new Date());
+    const board = addEntry(addEntry({}, "sprint", entry("slow", 90000), 10, byTime), "sprint", entry("fast", 60000), 10, byTime);
+    expect(topEntries(board, "sprint").map(e => e.name)).toEqual(["fast", "slow"]);
+  });
+});
+
+describe("ultra", () => {
+  it("counts down and ends when time is up", () => {
+    const s = game("ultra", { time: ULTRA_TIME_MS - 10, score: 5000 });
+    expect(modeClock(s)).toBe(10);
+
+    const ended = applyAction(s, new Advance(16));
+    expect(isGoalReached(ended)).toBe(true);
+    expect(ended.time).toBe(ULTRA_TIME_MS);
+    expect(modeClock(ended)).toBe(0);
+  });
+
+  it("can still be topped out early", () => {
+    const s = applyAction(stacked(game("ultra")), new HardDrop());
+    expect(isGameOver(s)).toBe(true);
+    expect(isGoalReached(s)).toBe(false);
+  });
+});
+
+describe("marathon", () => {
+  // an I piece over a bottom row filled but for the four cells under it
+  const lineAway = (lines: number): State => {
+    const s = game("marathon", { lines, level: 1 + Math.floor(lines / 10) });
+    return {
+      ...s,
+      gameBoard: s.gameBoard.map((row, y) => row.map((_, x) => (y === 19 && (x < 3 || x > 6) ? "Z" : null))),
+      currentTetromino: {
+        ...s.currentTetromino,
+        name: "I",
+        colour: "I",
+        x: 3,
+        rotation: 0,
+        shapesArray: Tetromino.I[0],
+      },
+    };
+  };
+
+  it("ends with the line that reaches the target", () => {
+    const s = applyAction(lineAway(MARATHON_LINES - 1), new HardDrop());
+    expect(s.lines).toBe(MARATHON_LINES);
+    expect(isGameOver(s)).toBe(true);
+    expect(isGoalReached(s)).toBe(true);
+  });
+
+  it("keeps going a line short of it, whatever the level", () => {
+    const s = applyAction(lineAway(MARATHON_LINES - 2), new HardDrop());
+    expect(s.lines).toBe(MARATHON_LINES - 1);
+    expect(s.level).toBeGreaterThanOrEqual(15);
+    expect(isGameOver(s)).toBe(false);
+  });
+});
+
+describe("zen", () => {
+  it("clears the board instead of topping out", () => {
+    const s = stacked(game("zen"));
+    const next = applyAction(s, new HardDrop());
+    expect(isGameOver(next)).toBe(false);
+    expect(next.gameBoard.flat().every(cell => cell === null)).toBe(true);
+    expect(next.currentTetromino.name).toBe(s.queue[0].name);
+  });
+
+  it("is never ranked", () => {
+    expect(Modes.zen.ranked(game("zen", { score: 1000 }))).toBe(false);
+  });
+});
+
+describe("endless", () => {
+  it("tops out", () => {
+    expect(isGameOver(applyAction(stacked(game("endless")), new HardDrop()))).toBe(true);
+  });
+
+  it("counts the clock up", () => {
+    expect(modeClock(game("endless", { time: 1500 }))).toBe(1500);
+  });
+});
+
+describe("modes", () => {
+  it("carry over a restart", () => {
+    expect(applyAction(game("sprint"), new Restart()).config.MODE).toBe("sprint");
+  });
+
+  it("are replayed with the game", () => {
+    const s = game("sprint");
+    const replay = [new Advance(16), new HardDrop()].reduce(recordAction, createReplay(s));
+    expect(runReplay(replay).config.MODE).toBe("sprint");
+  });
+
+  it("list results for every mode", () => {
+    const s = { ...createGame(1), score: 1200, lines: 14, time: 83456 };
+    Object.values(Modes).forEach(mode => expect(mode.results(s).length).toBeGreaterThan(0));
+    expect(Modes.sprint.results(s)[0]).toEqual({ label: "Time", value: "1:23.45" });
+  });
+});
+
+describe("formatTime", () => {
+  it("shows minutes, seconds and hundredths", () => {
+    expect(formatTime(0)).toBe("0:00.00");
+    expect(formatTime(61250)).toBe("1:01.25");
+  });
+});
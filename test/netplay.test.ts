@@ -0,0 +1,258 @@
+import { describe, expect, it } from "vitest";
+import {
+  ClientMessage,
+  Constants,
+  EndMatch,
+  HardDrop,
+  Message,
+  NetMatch,
+  PROTOCOL_VERSION,
+  PieceSets,
+  ReceiveGarbage,
+  applyAction,
+  createGame,
+  createMemoryRelay,
+  createMemoryTransports,
+  createNetMatch,
+  createRelay,
+  messageAction,
+  opponentState,
+  parseMessage,
+  readyUp,
+  receiveMessage,
+  relayDisconnect,
+  relayMessage,
+  sameSnapshot,
+  serializeMessage,
+  snapshotOf,
+} from "../src/engine";
+
+const join = (room: string, name: string): ClientMessage => ({ type: "join", version: PROTOCOL_VERSION, room, name });
+
+/**
+ * Connects to a relay and keeps every message the connection receives.
+ */
+const connect = (relay: ReturnType<typeof createMemoryRelay>) => {
+  const transport = relay.connect();
+  const received: Message[] = [];
+  transport.listen(message => received.push(message));
+  return { transport, received };
+};
+
+/**
+ * Plays a session through the messages it receives.
+ */
+const receiveAll = (m: NetMatch, messages: Message[]): NetMatch => messages.reduce(receiveMessage, m);
+
+describe("protocol", () => {
+  it("round trips messages through JSON", () => {
+    const message: Message = { type: "garbage", batch: { lines: 2, hole: 3 } };
+    expect(parseMessage(serializeMessage(message))).toEqual(message);
+  });
+
+  it("rejects anything that isn't a message", () => {
+    expect(() => parseMessage('{"type":"launch"}')).toThrow("Not a protocol message");
+    expect(() => parseMessage("42")).toThrow("Not a protocol message");
+  });
+
+  it("round trips a match's config and a board", () => {
+    const ready: Message = { type: "ready", seed: 7, config: { ...Constants, PIECES: PieceSets.pentominoes } };
+    expect(parseMessage(serializeMessage(ready))).toEqual(ready);
+    const tetrominoes: Message = { type: "ready", seed: 7, config: Constants };
+    expect(parseMessage(serializeMessage(tetrominoes))).toEqual(tetrominoes);
+    const state: Message = { type: "state", snapshot: snapshotOf(applyAction(createGame(1), new HardDrop())) };
+    expect(parseMessage(serializeMessage(state))).toEqual(state);
+  });
+
+  it("rejects payloads that aren't valid", () => {
+    const ready = (config: object) => JSON.stringify({ type: "ready", seed: 7, config: { ...Constants, ...config } });
+    expect(() => parseMessage(ready({ MODE: "chaos" }))).toThrow("Invalid ready message");
+    expect(() => parseMessage(ready({ GRID_WIDTH: 5000 }))).toThrow("Invalid ready message");
+    expect(() => parseMessage(ready({ GRID_HEIGHT: 2 }))).toThrow("Invalid ready message");
+    expect(() => parseMessage(ready({ PIECES: { A: { colour: "red" } } }))).toThrow("Invalid ready message");
+    const puzzle = { name: "p", board: [], pieces: ["T"], hold: true, objective: { type: "lines", lines: 1 } };
+    expect(() => parseMessage(ready({ MODE: "puzzle", PUZZLE: puzzle }))).toThrow("Invalid ready message");
+
+    const garbage = (batch: object) => JSON.stringify({ type: "garbage", batch });
+    expect(() => parseMessage(garbage({ lines: 1e9, hole: 0 }))).toThrow("Invalid garbage message");
+    expect(() => parseMessage(garbage({ lines: 2, hole: -1 }))).toThrow("Invalid garbage message");
+    expect(() => parseMessage(garbage({ lines: 1.5, hole: 0 }))).toThrow("Invalid garbage message");
+
+    const join = (room: unknown, name: unknown) => JSON.stringify({ type: "join", version: 1, room, name });
+    expect(() => parseMessage(join(5, "bob"))).toThrow("Invalid join message");
+    expect(() => parseMessage(join("lobby", ""))).toThrow("Invalid join message");
+    expect(() => parseMessage(join("x".repeat(100), "bob"))).toThrow("Invalid join message");
+    expect(() => parseMessage('{"type":"state","snapshot":{"gameBoard":[[1]]}}')).toThrow("Invalid state message");
+  });
+
+  it("only sees a new snapshot when the board changes", () => {
+    const s = createGame(1);
+    expect(sameSnapshot(s, { ...s, time: 100 })).toBe(true);
+    expect(sameSnapshot(s, applyAction(s, new HardDrop()))).toBe(false);
+  });
+});
+
+describe("relay", () => {
+  it("seats two players in a room and tells the first about the second", () => {
+    const [first, joined] = relayMessage(createRelay(), 1, join("room", "alice"));
+    expect(joined).toEqual([{ to: 1, message: { type: "joined", player: 0, opponent: null } }]);
+
+    const [relay, outgoing] = relayMessage(first, 2, join("room", "bob"));
+    expect(outgoing).toEqual([
+      { to: 2, message: { type: "joined", player: 1, opponent: "alice" } },
+      { to: 1, message: { type: "opponentJoined", name: "bob" } },
+    ]);
+    expect(relay.rooms.get("room")!.map(seat => seat.name)).toEqual(["alice", "bob"]);
+  });
+
+  it("turns away a third player and old clients", () => {
+    const [one] = relayMessage(createRelay(), 1, join("room", "alice"));
+    const [two] = relayMessage(one, 2, join("room", "bob"));
+    expect(relayMessage(two, 3, join("room", "carol"))[1]).toEqual([
+      { to: 3, message: { type: "error", reason: "Room is full" } },
+    ]);
+    expect(relayMessage(two, 3, { type: "join", version: 0, room: "other", name: "dave" })[1]).toEqual([
+      { to: 3, message: { type: "error", reason: "Unsupported protocol version 0" } },
+    ]);
+  });
+
+  it("passes messages to the opponent and reports them leaving", () => {
+    const [one] = relayMessage(createRelay(), 1, join("room", "alice"));
+    const [two] = relayMessage(one, 2, join("room", "bob"));
+    expect(relayMessage(two, 1, { type: "gameOver", goalReached: false })[1]).toEqual([
+      { to: 2, message: { type: "gameOver", goalReached: false } },
+    ]);
+
+    const [left, outgoing] = relayDisconnect(two, 2);
+    expect(outgoing).toEqual([{ to: 1, message: { type: "opponentLeft" } }]);
+    const [empty] = relayDisconnect(left, 1);
+    expect(empty.rooms.size).toBe(0);
+  });
+
+  it("seats players in rooms named like object properties", () => {
+    const [one] = relayMessage(createRelay(), 1, join("__proto__", "alice"));
+    const [two, outgoing] = relayMessage(one, 2, join("__proto__", "bob"));
+    expect(outgoing[0]).toEqual({ to: 2, message: { type: "joined", player: 1, opponent: "alice" } });
+    expect(relayMessage(two, 3, join("constructor", "carol"))[1]).toEqual([
+      { to: 3, message: { type: "joined", player: 0, opponent: null } },
+    ]);
+  });
+
+  it("turns away names that aren't short strings", () => {
+    const named = (room: unknown, name: unknown) => ({ ...join("room", "alice"), room, name } as ClientMessage);
+    expect(relayMessage(createRelay(), 1, named("", "alice"))[1]).toEqual([
+      { to: 1, message: { type: "error", reason: "Invalid room name" } },
+    ]);
+    expect(relayMessage(createRelay(), 1, named("room", { evil: true }))[1]).toEqual([
+      { to: 1, message: { type: "error", reason: "Invalid player name" } },
+    ]);
+    expect(relayMessage(createRelay(), 1, named("room", "x".repeat(100)))[1]).toEqual([
+      { to: 1, message: { type: "error", reason: "Invalid player name" } },
+    ]);
+  });
+
+  it("needs a room before anything else", () => {
+    expect(relayMessage(createRelay(), 1, { type: "gameOver", goalReached: false })[1]).toEqual([
+      { to: 1, message: { type: "error", reason: "Join a room first" } },
+    ]);
+  });
+});
+
+describe("transports", () => {
+  it("connects two memory transports directly", () => {
+    const [a, b] = createMemoryTransports();
+    const received: Message[] = [];
+    b.listen(message => received.push(message));
+    a.send({ type: "garbage", batch: { lines: 1, hole: 0 } });
+    a.close();
+    expect(received).toEqual([{ type: "garbage", batch: { lines: 1, hole: 0 } }, { type: "disconnected" }]);
+  });
+
+  it("relays a match between two players in memory", () => {
+    const relay = createMemoryRelay();
+    const alice = connect(relay);
+    const bob = connect(relay);
+    alice.transport.send(join("room", "alice"));
+    bob.transport.send(join("room", "bob"));
+    bob.transport.send({ type: "garbage", batch: { lines: 4, hole: 2 } });
+
+    expect(alice.received).toEqual([
+      { type: "joined", player: 0, opponent: null },
+      { type: "opponentJoined", name: "bob" },
+      { type: "garbage", batch: { lines: 4, hole: 2 } },
+    ]);
+
+    bob.transport.close();
+    expect(alice.received.at(-1)).toEqual({ type: "opponentLeft" });
+    expect(bob.received.at(-1)).toEqual({ type: "disconnected" });
+    expect(relay.relay().rooms.get("room")).toHaveLength(1);
+  });
+});
+
+describe("netplay", () => {
+  const offer = (seed: number, width = 10) => ({ seed, config: { ...Constants, GRID_WIDTH: width } });
+  const lobby = receiveMessage(createNetMatch(), { type: "joined", player: 1, opponent: "alice" });
+
+  it("waits in the lobby until both players are ready", () => {
+    expect(lobby.phase).toBe("lobby");
+    const ready = readyUp(lobby, offer(5, 8));
+    expect(ready.phase).toBe("lobby");
+
+    const playing = receiveMessage(ready, { type: "ready", ...offer(9, 12) });
+    expect(playing.phase).toBe("playing");
+    expect(playing.start?.config.GRID_WIDTH).toBe(12); // player one's config
+  });
+
+  it("agrees the same seed on both sides", () => {
+    const alice = readyUp(
+      receiveAll(createNetMatch(), [
+        { type: "joined", player: 0, opponent: null },
+        { type: "opponentJoined", name: "bob" },
+        { type: "ready", ...offer(5) },
+      ]),
+      offer(9)
+    );
+    const bob = receiveMessage(readyUp(lobby, offer(5)), { type: "ready", ...offer(9) });
+    expect(alice.start).toEqual(bob.start);
+  });
+
+  it("can't ready up without an opponent", () => {
+    const waiting = receiveMessage(createNetMatch(), { type: "joined", player: 0, opponent: null });
+    expect(readyUp(waiting, offer(1))).toBe(waiting);
+  });
+
+  it("turns garbage and the opponent's game over into actions", () => {
+    const playing = receiveMessage(readyUp(lobby, offer(1)), { type: "ready", ...offer(2) });
+    const garbage = messageAction(playing, { type: "garbage", batch: { lines: 2, hole: 4 } });
+    expect(garbage).toBeInstanceOf(ReceiveGarbage);
+    expect(garbage?.apply(createGame(1)).incoming).toEqual([{ lines: 2, hole: 4 }]);
+
+    const toppedOut = messageAction(playing, { type: "gameOver", goalReached: false });
+    expect(toppedOut).toBeInstanceOf(EndMatch);
+    expect((toppedOut as EndMatch).won).toBe(true);
+    expect((messageAction(playing, { type: "gameOver", goalReached: true }) as EndMatch).won).toBe(false);
+    expect((messageAction(playing, { type: "opponentLeft" }) as EndMatch).won).toBe(true);
+    expect(receiveMessage(playing, { type: "gameOver", goalReached: false }).phase).toBe("over");
+    expect(messageAction(lobby, { type: "garbage", batch: { lines: 2, hole: 4 } })).toBeNull();
+    // the match's board is 10 wide
+    expect(messageAction(playing, { type: "garbage", batch: { lines: 2, hole: 15 } })).toBeNull();
+  });
+
+  it("draws the opponent's board from their snapshot", () => {
+    const playing = receiveMessage(readyUp(lobby, offer(1)), { type: "ready", ...offer(2) });
+    const theirs = applyAction(createGame(playing.start!.seed, playing.start!.config), new HardDrop());
+    const synced = receiveMessage(playing, { type: "state", snapshot: snapshotOf(theirs) });
+    const drawn = opponentState(synced.start!, synced.opponent!);
+    expect(drawn.gameBoard).toEqual(theirs.gameBoard);
+    expect(drawn.currentTetromino).toEqual(theirs.currentTetromino);
+
+    const narrow = applyAction(createGame(1, { ...Constants, GRID_WIDTH: 6 }), new HardDrop());
+    expect(receiveMessage(synced, { type: "state", snapshot: snapshotOf(narrow) })).toBe(synced);
+  });
+
+  it("closes when the connection drops", () => {
+    const closed = receiveMessage(lobby, { type: "disconnected" });
+    expect(closed.phase).toBe("closed");
+    expect(closed.error).toBe("Disconnected");
+  });
+});
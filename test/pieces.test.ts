@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  HardDrop,
+  Move,
+  PieceSets,
+  Rotate,
+  Tetromino,
+  applyActions,
+  createGame,
+  createReplay,
+  getBoard,
+  getPiece,
+  getPieceCells,
+  parsePieceSet,
+  parseShape,
+  pieceFromShape,
+  recordAction,
+  rotateShape,
+  runReplay,
+} from "../src/engine";
+
+const cellCount = (shape: ReadonlyArray<ReadonlyArray<number>>) => shape.flat().filter(cell => cell === 1).length;
+
+const moveRight = (n: number) => Array.from({ length: n }, () => new Move({ x: 1, y: 0 }));
+
+// a set of two dominoes, as a user might write one
+const dominoes = JSON.stringify({
+  D: { colour: "pink", rotations: [[[1, 1], [0, 0]], [[0, 1], [0, 1]]] },
+  M: { colour: "#123456", rotations: [[[1, 0], [0, 0]]], kicks: "none" },
+});
+
+describe("shapes", () => {
+  it("come back to the start after four quarter turns", () => {
+    const shape = parseShape([".X.", "XXX", "..."]);
+    expect([1, 2, 3, 4].reduce(rotateShape, shape)).toEqual(shape);
+    expect(rotateShape(shape)).toEqual(parseShape([".X.", ".XX", ".X."]));
+  });
+
+  it("are centred in a square when a piece is defined", () => {
+    const piece = pieceFromShape(parseShape(["XXX"]), "red");
+    expect(piece.rotations).toHaveLength(4);
+    expect(piece.rotations[0]).toEqual(parseShape(["...", "XXX", "..."]));
+    expect(piece.rotations[1]).toEqual(parseShape([".X.", ".X.", ".X."]));
+  });
+});
+
+describe("piece sets", () => {
+  it("default to the standard tetrominoes", () => {
+    expect(createGame(1).config.PIECES).toBe(PieceSets.tetrominoes);
+    expect(Object.keys(PieceSets.tetrominoes)).toEqual(Object.keys(Tetromino));
+    expect(PieceSets.tetrominoes.O.kicks).toBe("none");
+    expect(PieceSets.tetrominoes.I.kicks).toBe("i");
+  });
+
+  it("include the eighteen one-sided pentominoes", () => {
+    const pieces = Object.values(PieceSets.pentominoes);
+    expect(pieces).toHaveLength(18);
+    pieces.forEach(piece => piece.rotations.forEach(shape => expect(cellCount(shape)).toBe(5)));
+  });
+
+  it("supply the pieces a game draws", () => {
+    const s = applyActions(createGame(1, { PIECES: PieceSets.pentominoes }), [new HardDrop(), new HardDrop()]);
+    expect(Object.keys(PieceSets.pentominoes)).toContain(getPiece(s).name);
+    expect(getBoard(s).flat().filter(cell => cell !== null)).toHaveLength(10);
+  });
+
+  it("spawn centred, just above the board", () => {
+    const s = createGame(1, { PIECES: PieceSets.pentominoes });
+    expect(getPiece(s).x).toBe(Math.floor((10 - getPiece(s).shapesArray.length) / 2));
+    const cells = getPieceCells(s);
+    expect(Math.max(...cells.map(([_, y]) => y))).toBe(-1);
+  });
+
+  it("rotate with their own kick tables", () => {
+    const s = createGame(1, { PIECES: parsePieceSet(dominoes), GENERATOR: "random" });
+    const rotated = applyActions(s, [new Rotate(1), new Rotate(1)]);
+    expect(getPiece(rotated).rotation).toBe(0);
+  });
+
+  it("are carried by replays", () => {
+    const s = createGame(3, { PIECES: parsePieceSet(dominoes) });
+    const actions = [new HardDrop(), new Move({ x: 1, y: 0 }), new HardDrop()];
+    const replay = actions.reduce(recordAction, createReplay(s));
+    expect(runReplay(JSON.parse(JSON.stringify(replay)))).toEqual(applyActions(s, actions));
+  });
+});
+
+describe("parsePieceSet", () => {
+  it("reads a piece set", () => {
+    const set = parsePieceSet(dominoes);
+    expect(set.D.colour).toBe("pink");
+    expect(set.M.kicks).toBe("none");
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parsePieceSet("[]")).toThrow("Not a piece set");
+    expect(() => parsePieceSet("{}")).toThrow("Not a piece set");
+    expect(() => parsePieceSet(JSON.stringify({ A: { colour: "red", rotations: [] } }))).toThrow("Invalid piece A");
+    expect(() => parsePieceSet(JSON.stringify({ B: { colour: "red", rotations: [[[1, 1]]] } }))).toThrow(
+      "Invalid piece B"
+    );
+    expect(() =>
+      parsePieceSet(JSON.stringify({ C: { colour: "red", rotations: [[[1]]], kicks: "srs" } }))
+    ).toThrow("Invalid piece C");
+    expect(() => parsePieceSet(JSON.stringify({ D: null }))).toThrow("Invalid piece D");
+  });
+});
+
+describe("board size", () => {
+  it("sizes the board", () => {
+    const board = getBoard(createGame(1, { GRID_WIDTH: 4, GRID_HEIGHT: 12 }));
+    expect(board).toHaveLength(12);
+    board.forEach(row => expect(row).toHaveLength(4));
+  });
+
+  it("walls off a narrow well", () => {
+    const s = applyActions(createGame(1, { GRID_WIDTH: 4 }), moveRight(10));
+    const xs = getPieceCells(s).map(([x]) => x);
+    expect(Math.max(...xs)).toBe(3);
+  });
+
+  it("lets pieces travel across a wide well", () => {
+    const s = applyActions(createGame(1, { GRID_WIDTH: 20 }), moveRight(30));
+    const xs = getPieceCells(s).map(([x]) => x);
+    expect(getPiece(createGame(1, { GRID_WIDTH: 20 })).x).toBe(8);
+    expect(Math.max(...xs)).toBe(19);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  HardDrop,
+  Hold,
+  PUZZLES,
+  Restart,
+  applyActions,
+  createGame,
+  getBoard,
+  objectiveText,
+  parseObjective,
+  parsePuzzle,
+  puzzleConfig,
+  readPuzzle,
+  solutionActions,
+} from "../src/engine";
+
+const puzzle = (fields: Record<string, unknown> = {}) =>
+  readPuzzle({
+    name: "Test",
+    objective: "clear 4 lines",
+    pieces: "I",
+    board: ["XXXXXXXXX.", "XXXXXXXXX.", "XXXXXXXXX.", "XXXXXXXXX."],
+    ...fields,
+  });
+
+const play = (fields: Record<string, unknown> = {}) => createGame(1, puzzleConfig(puzzle(fields)));
+
+describe("puzzle files", () => {
+  it("set up the board from its bottom rows", () => {
+    const p = puzzle({ board: ["TT..", "JLX."], pieces: "JL" });
+    expect(p.board).toHaveLength(20);
+    expect(p.board[18]).toEqual(["T", "T", null, null]);
+    expect(p.board[19]).toEqual(["LL", "LR", "garbage", null]);
+    expect(p.board[0]).toEqual([null, null, null, null]);
+    expect(p.pieces).toEqual(["LL", "LR"]);
+  });
+
+  it("say what's wrong with them", () => {
+    expect(() => parsePuzzle("[]")).toThrow("Not a puzzle");
+    expect(() => puzzle({ objective: "win" })).toThrow("Unknown objective");
+    expect(() => puzzle({ pieces: "IQ" })).toThrow("Unknown piece Q");
+    expect(() => puzzle({ board: ["XXX.", "XX."] })).toThrow("Board row 2");
+    expect(() => puzzle({ board: ["XX?."] })).toThrow("Unknown cell ?");
+    expect(() => puzzle({ objective: "survive 3 pieces" })).toThrow("Only 1 pieces");
+  });
+
+  it("write objectives the way they're read", () => {
+    ["Clear 4 lines", "Perfect clear", "T-spin double", "T-spin mini single", "T-spin", "Survive 10 pieces"].forEach(
+      text => expect(objectiveText(parseObjective(text)!)).toBe(text)
+    );
+    expect(parseObjective("T-spin mini single")).toEqual({ type: "tSpin", tSpin: "mini", lines: 1 });
+    expect(parseObjective("clear 0 lines")).toBeNull();
+  });
+
+  it("read solutions, with repeated moves", () => {
+    expect(solutionActions("cw right*3 drop")).toHaveLength(5);
+    expect(() => solutionActions("left jump")).toThrow("Unknown move jump");
+  });
+});
+
+describe("puzzles", () => {
+  it("deal their board and sequence", () => {
+    const s = play({ pieces: "IOT" });
+    expect(getBoard(s)[19].filter(cell => cell !== null)).toHaveLength(9);
+    expect([s.currentTetromino.name, ...s.queue.map(piece => piece.name)]).toEqual(["I", "O", "T"]);
+  });
+
+  it("are solved by meeting the objective", () => {
+    const s = applyActions(play(), solutionActions("cw right*4 drop"));
+    expect(s.gameEnd).toBe(true);
+    expect(s.goalReached).toBe(true);
+  });
+
+  it("fail once the pieces run out", () => {
+    const s = applyActions(play(), [new HardDrop()]);
+    expect(s.gameEnd).toBe(true);
+    expect(s.goalReached).toBe(false);
+  });
+
+  it("bring out the held piece last", () => {
+    const held = applyActions(play({ pieces: "OI" }), [new Hold()]);
+    expect(held.queue).toEqual([]);
+    expect(applyActions(held, [new Hold()])).toEqual(held);
+
+    const last = applyActions(held, [new HardDrop()]);
+    expect(last.gameEnd).toBe(false);
+    expect(last.currentTetromino.name).toBe("O");
+    expect(last.holdTetromino).toBeNull();
+  });
+
+  it("may not allow holding", () => {
+    const s = play({ pieces: "OI", hold: false });
+    expect(applyActions(s, [new Hold()])).toEqual(s);
+  });
+
+  it("count pieces survived", () => {
+    const s = play({ objective: "survive 2 pieces", pieces: "OOO", board: [] });
+    expect(applyActions(s, [new HardDrop()]).gameEnd).toBe(false);
+    expect(applyActions(s, [new HardDrop(), new HardDrop()]).goalReached).toBe(true);
+  });
+
+  it("start over on a retry", () => {
+    const s = play({ pieces: "IO" });
+    const retried = applyActions(s, [new HardDrop(), new Restart()]);
+    expect(getBoard(retried)).toEqual(getBoard(s));
+    expect(retried.currentTetromino).toEqual(s.currentTetromino);
+  });
+
+  it.each(PUZZLES.map(p => [p.name, p] as const))("%s comes with a solution that solves it", (_, p) => {
+    expect(p.solution).toBeDefined();
+    const s = applyActions(createGame(1, puzzleConfig(p)), solutionActions(p.solution!));
+    expect(s.goalReached).toBe(true);
+  });
+});
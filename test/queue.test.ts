@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  HardDrop,
+  Hold,
+  PieceSets,
+  State,
+  applyAction,
+  createGame,
+  getNextPiece,
+  getPiece,
+  getQueue,
+  shapeBounds,
+} from "../src/engine";
+
+// the names of the pieces a game spawns over a number of hard drops
+const spawned = (s: State, drops: number): string[] =>
+  Array.from({ length: drops }).reduce<[State, string[]]>(
+    ([state, names]) => {
+      const next = applyAction(state, new HardDrop());
+      return [next, [...names, getPiece(next).name]];
+    },
+    [s, [getPiece(s).name]]
+  )[1];
+
+describe("next queue", () => {
+  it("previews five pieces by default", () => {
+    expect(getQueue(createGame(1))).toHaveLength(5);
+  });
+
+  it("previews as many pieces as configured", () => {
+    [0, 1, 3, 6].forEach(n => expect(getQueue(createGame(1, { NEXT_PIECES: n }))).toHaveLength(n));
+  });
+
+  it("still knows the next piece when none are previewed", () => {
+    const s = createGame(1, { NEXT_PIECES: 0 });
+    expect(getNextPiece(s)).toEqual(getNextPiece(createGame(1)));
+    expect(getPiece(applyAction(s, new HardDrop())).name).toBe(getNextPiece(s).name);
+  });
+
+  it("moves along as pieces lock", () => {
+    const s = createGame(4, { NEXT_PIECES: 6 });
+    const dropped = applyAction(s, new HardDrop());
+    expect(getPiece(dropped)).toEqual(getQueue(s)[0]);
+    expect(getQueue(dropped).slice(0, 5)).toEqual(getQueue(s).slice(1));
+  });
+
+  it("moves along when the first piece is held", () => {
+    const s = createGame(4);
+    const held = applyAction(s, new Hold());
+    expect(getPiece(held)).toEqual(getQueue(s)[0]);
+    expect(getQueue(held)).toHaveLength(5);
+  });
+
+  it("doesn't change the piece sequence, however long it is", () => {
+    expect(spawned(createGame(9, { NEXT_PIECES: 0 }), 20)).toEqual(spawned(createGame(9, { NEXT_PIECES: 6 }), 20));
+  });
+});
+
+describe("shapeBounds", () => {
+  it("measures the filled cells of a shape", () => {
+    expect(shapeBounds(PieceSets.tetrominoes.I.rotations[0])).toEqual({ left: 0, top: 1, width: 4, height: 1 });
+    expect(shapeBounds(PieceSets.tetrominoes.O.rotations[0])).toEqual({ left: 1, top: 0, width: 2, height: 2 });
+    expect(shapeBounds(PieceSets.tetrominoes.T.rotations[1])).toEqual({ left: 1, top: 0, width: 2, height: 3 });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  FRAME_MS,
+  HardDrop,
+  MAX_STEPS,
+  Move,
+  Rulesets,
+  Tick,
+  advanceClock,
+  applyAction,
+  benchmarkRendering,
+  boardScene,
+  createClock,
+  createGame,
+  interpolatePiece,
+  miniBoardScene,
+  mutationCount,
+  sceneChanges,
+} from "../src/engine";
+
+describe("scenes", () => {
+  it("keep a cell for every square of the board", () => {
+    const s = createGame(1);
+    const scene = boardScene(s);
+    expect(scene.size).toBe(200 + 8); // the board, and the ghost and falling piece
+    expect(scene.get("cell:0,0")).toEqual({ x: 0, y: 0, fill: "none", stroke: "none", opacity: 1 });
+    expect(Array.from(scene.keys()).filter(key => key.startsWith("ghost:"))).toHaveLength(4);
+  });
+
+  it("leave the piece out between pieces", () => {
+    const locked = applyAction(createGame(1, Rulesets.guideline), new HardDrop());
+    expect(Array.from(boardScene(locked).keys()).some(key => key.startsWith("piece:"))).toBe(false);
+  });
+
+  it("draw a falling piece between its last two steps", () => {
+    const s = createGame(1);
+    const fallen = applyAction(s, new Tick());
+    expect(interpolatePiece(s, fallen, 0.25)).toEqual({ x: s.currentTetromino.x, y: s.currentTetromino.y + 0.25 });
+    const { x, y } = fallen.currentTetromino;
+    expect(interpolatePiece(null, fallen, 0.25)).toEqual({ x, y });
+    const next = applyAction(fallen, new HardDrop());
+    expect(interpolatePiece(fallen, next, 0.5).y).toBe(next.currentTetromino.y); // a new piece isn't drawn moving
+  });
+
+  it("centre pieces in their mini-boards", () => {
+    const s = createGame(1);
+    const scene = miniBoardScene([[s.queue[0], "red"], [s.queue[1], "blue"]], 8, 4);
+    expect(scene.size).toBe(8);
+    const second = Array.from(scene.values()).filter(sprite => sprite.y >= 4);
+    expect(second.map(sprite => sprite.fill)).toEqual(Array(4).fill("blue"));
+  });
+});
+
+describe("retained rendering", () => {
+  it("changes nothing when nothing moved", () => {
+    const s = createGame(1);
+    expect(sceneChanges(boardScene(s), boardScene(s))).toEqual([]);
+  });
+
+  it("updates only the attributes that changed", () => {
+    const s = createGame(1);
+    const moved = applyAction(s, new Move({ x: 1, y: 0 }));
+    const changes = sceneChanges(boardScene(s), boardScene(moved));
+    expect(changes.every(change => change.type === "update")).toBe(true);
+    expect(mutationCount(changes)).toBe(8); // each cell of the ghost and the piece moves across
+  });
+
+  it("adds and removes the cells that come and go", () => {
+    const locked = applyAction(createGame(1, Rulesets.guideline), new HardDrop());
+    const changes = sceneChanges(boardScene(createGame(1, Rulesets.guideline)), boardScene(locked));
+    expect(changes.filter(change => change.type === "remove")).toHaveLength(8);
+    expect(changes.filter(change => change.type === "update")).toHaveLength(4); // the cells it locked into
+  });
+
+  it("takes far fewer mutations per frame than redrawing", () => {
+    const result = benchmarkRendering({ frames: 60 });
+    expect(result.frames).toBe(60);
+    expect(result.retained).toBeLessThan(result.recreated / 4);
+  });
+});
+
+describe("the game loop clock", () => {
+  it("runs the steps that have come due, carrying the rest", () => {
+    const [started, first] = advanceClock(createClock(), 1000);
+    expect(first).toEqual({ steps: 0, alpha: 0 });
+    const [clock, frame] = advanceClock(started, 1000 + 2.5 * FRAME_MS);
+    expect(frame.steps).toBe(2);
+    expect(frame.alpha).toBeCloseTo(0.5);
+    expect(advanceClock(clock, 1000 + 3 * FRAME_MS)[1]).toMatchObject({ steps: 1 });
+  });
+
+  it("drops time it can't catch up on", () => {
+    const [started] = advanceClock(createClock(), 0);
+    const [clock, frame] = advanceClock(started, 60000);
+    expect(frame.steps).toBe(MAX_STEPS);
+    expect(clock.lag).toBe(0);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+  Action,
+  Advance,
+  EndMatch,
+  HardDrop,
+  Hold,
+  Move,
+  Press,
+  RNG,
+  ReceiveGarbage,
+  Release,
+  Replay,
+  Restart,
+  Rotate,
+  SetHandling,
+  SoftDrop,
+  Tick,
+  advancePlayback,
+  applyAction,
+  createGame,
+  createPlayback,
+  createReplay,
+  decodeAction,
+  encodeAction,
+  exportReplay,
+  getBoard,
+  getScore,
+  importReplay,
+  isFinished,
+  positionGame,
+  recordAction,
+  runReplay,
+  seekPlayback,
+  setPaused,
+  setSpeed,
+  stepPlayback,
+} from "../src/engine";
+
+/** Every kind of action a player can dispatch. */
+const palette: ReadonlyArray<() => Action> = [
+  () => new Advance(16.7),
+  () => new Advance(16.7),
+  () => new Advance(16.7),
+  () => new Tick(),
+  () => new Move({ x: -1, y: 0 }),
+  () => new Move({ x: 1, y: 0 }),
+  () => new Rotate(1),
+  () => new Rotate(-1),
+  () => new Rotate(2),
+  () => new SoftDrop(),
+  () => new HardDrop(),
+  () => new Hold(),
+  () => new Press("left"),
+  () => new Release("left"),
+  () => new Press("right"),
+  () => new Release("right"),
+  () => new Press("softDrop"),
+  () => new Release("softDrop"),
+];
+
+/** A pseudo-random but repeatable list of actions. */
+const randomActions = (seed: number, count: number): Action[] =>
+  Array.from({ length: count }, (_, i) => palette[RNG.generateRandomValue(seed + i, palette.length)]());
+
+/**
+ * Plays a game live while recording it, returning the final state and the
+ * recording.
+ */
+const record = (seed: number, actions: ReadonlyArray<Action>) =>
+  actions.reduce(
+    ([s, r], a) => [applyAction(s, a), recordAction(r, a)] as const,
+    [createGame(seed), createReplay(createGame(seed))] as const
+  );
+
+describe("action records", () => {
+  it("round trip every action", () => {
+    [
+      ...palette.map(make => make()),
+      new Restart(),
+      new Restart(12),
+      new ReceiveGarbage({ lines: 3, hole: 1 }),
+      new EndMatch(true),
+      new SetHandling({ DAS_MS: 100, ARR_MS: 0, SOFT_DROP_FACTOR: 40 }),
+    ].forEach(a => {
+      const record = encodeAction(a);
+      expect(encodeAction(decodeAction(JSON.parse(JSON.stringify(record))))).toEqual(record);
+    });
+  });
+
+  it("reject actions that can't be recorded", () => {
+    expect(() => encodeAction({ apply: s => s })).toThrow();
+  });
+});
+
+describe("replays", () => {
+  it("stamp actions with the game clock", () => {
+    const [_, r] = record(1, [new Advance(10), new Rotate(1), new Advance(5)]);
+    expect(r.entries.map(e => e.time)).toEqual([10, 10, 15]);
+    expect(r.duration).toBe(15);
+  });
+
+  it("reproduce the exact final board and score after a JSON round trip", () => {
+    const [live, r] = record(2023, randomActions(7, 3000));
+    const replayed = runReplay(importReplay(exportReplay(r)));
+    expect(getScore(live)).toBeGreaterThan(0);
+    expect(getBoard(replayed)).toEqual(getBoard(live));
+    expect(getScore(replayed)).toBe(getScore(live));
+    expect(replayed).toEqual(live);
+  });
+
+  it("reproduce games spanning restarts", () => {
+    const actions = [...randomActions(3, 500), new Restart(), ...randomActions(4, 500)];
+    const [live, r] = record(9, actions);
+    expect(runReplay(r)).toEqual(live);
+  });
+
+  it("reproduce practice games set up from a position", () => {
+    const board = Array.from({ length: 20 }, (_, y) =>
+      Array.from({ length: 10 }, (_, x) => (y >= 17 && x !== 4 ? "garbage" : null))
+    );
+    const start = positionGame({ board, current: "I", hold: "T", queue: ["O", "S"] }, 5);
+    const actions = randomActions(11, 500);
+    const live = actions.reduce(applyAction, start);
+    const r = actions.reduce(recordAction, createReplay(start, true));
+    expect(runReplay(importReplay(exportReplay(r)))).toEqual(live);
+  });
+
+  it("refuse files that aren't replays", () => {
+    expect(() => importReplay("{}")).toThrow("Not a replay file");
+    const future: Replay = { ...createReplay(createGame(1)), version: 99 };
+    expect(() => importReplay(JSON.stringify(future))).toThrow("Unsupported replay version");
+  });
+});
+
+describe("playback", () => {
+  const [live, r] = record(5, randomActions(11, 1000));
+
+  it("plays entries as the clock passes them", () => {
+    const p = advancePlayback(createPlayback(r), 100);
+    expect(p.time).toBe(100);
+    expect(r.entries[p.cursor].time).toBeGreaterThan(100);
+    expect(r.entries[p.cursor - 1].time).toBeLessThanOrEqual(100);
+  });
+
+  it("reaches the recorded final state", () => {
+    const p = advancePlayback(createPlayback(r), r.duration);
+    expect(isFinished(p)).toBe(true);
+    expect(p.state).toEqual(live);
+  });
+
+  it("holds still while paused and steps one entry at a time", () => {
+    const paused = setPaused(createPlayback(r), true);
+    expect(advancePlayback(paused, 1000)).toBe(paused);
+    const stepped = stepPlayback(stepPlayback(paused));
+    expect(stepped.cursor).toBe(2);
+  });
+
+  it("scales time by the playback speed", () => {
+    expect(advancePlayback(setSpeed(createPlayback(r), 4), 100).time).toBe(400);
+  });
+
+  it("seeks forwards and backwards to the same states", () => {
+    const start = createPlayback(r);
+    const forward = seekPlayback(start, 1500);
+    const back = seekPlayback(seekPlayback(start, r.duration), 1500);
+    expect(back.state).toEqual(forward.state);
+    expect(back.cursor).toBe(forward.cursor);
+  });
+});
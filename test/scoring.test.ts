@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  ClearType,
+  HardDrop,
+  Rotate,
+  State,
+  Tetromino,
+  Tick,
+  applyAction,
+  clearPoints,
+  createGame,
+  detectTSpin,
+  getBoard,
+  getLevel,
+  getLines,
+  getScore,
+  gravityInterval,
+} from "../src/engine";
+import { scoreClear } from "../src/scoring";
+
+/**
+ * Builds a 10x20 game whose bottom rows are given as strings ("#" is filled)
+ * and whose falling piece is placed at the given position and rotation.
+ */
+const setup = (rows: string[], name: string, x: number, y: number, rotation = 0): State => {
+  const s = createGame(1);
+  const board = getBoard(s).map((row, rowIndex) => {
+    const line = rows[rowIndex - (20 - rows.length)];
+    return line === undefined ? row : [...line].map(c => (c === "#" ? "Z" : null));
+  });
+  const piece = { name, colour: name, x, y, rotation, shapesArray: Tetromino[name][rotation] };
+  return { ...s, gameBoard: board, currentTetromino: piece };
+};
+
+const clear = (lines: number, tSpin: ClearType["tSpin"] = "none", perfectClear = false): ClearType => ({
+  lines,
+  tSpin,
+  perfectClear,
+});
+
+describe("clearPoints", () => {
+  it("scores line clears times the level", () => {
+    expect([1, 2, 3, 4].map(n => clearPoints(clear(n), 1, false, 0))).toEqual([100, 300, 500, 800]);
+    expect(clearPoints(clear(4), 3, false, 0)).toBe(2400);
+  });
+
+  it("scores T-spins and minis", () => {
+    expect([0, 1, 2, 3].map(n => clearPoints(clear(n, "full"), 1, false, 0))).toEqual([400, 800, 1200, 1600]);
+    expect([0, 1, 2].map(n => clearPoints(clear(n, "mini"), 1, false, 0))).toEqual([100, 200, 400]);
+  });
+
+  it("gives difficult clears a back-to-back bonus", () => {
+    expect(clearPoints(clear(4), 1, true, 0)).toBe(1200);
+    expect(clearPoints(clear(2, "full"), 1, true, 0)).toBe(1800);
+    expect(clearPoints(clear(2), 1, true, 0)).toBe(300);
+  });
+
+  it("adds combo and perfect clear bonuses", () => {
+    expect(clearPoints(clear(1), 2, false, 3)).toBe((100 + 150) * 2);
+    expect(clearPoints(clear(4, "none", true), 1, false, 0)).toBe(800 + 2000);
+    expect(clearPoints(clear(4, "none", true), 1, true, 0)).toBe(1200 + 3200);
+  });
+});
+
+describe("scoreClear", () => {
+  it("levels up every 10 lines", () => {
+    const s = { ...createGame(1), lines: 9 };
+    expect(getLevel(s)).toBe(1);
+    const scored = scoreClear(s, clear(2));
+    expect(getLines(scored)).toBe(11);
+    expect(getLevel(scored)).toBe(2);
+  });
+
+  it("counts combos and breaks them on a lock without lines", () => {
+    const s = createGame(1);
+    const first = scoreClear(s, clear(1));
+    const second = scoreClear(first, clear(1));
+    expect([first.combo, second.combo]).toEqual([0, 1]);
+    expect(getScore(second) - getScore(first)).toBe(150);
+    expect(scoreClear(second, clear(0)).combo).toBe(-1);
+  });
+
+  it("keeps the back-to-back chain through T-spins without lines", () => {
+    const tetris = scoreClear(createGame(1), clear(4));
+    expect(tetris.backToBack).toBe(true);
+    expect(scoreClear(tetris, clear(0, "full")).backToBack).toBe(true);
+    expect(scoreClear(tetris, clear(0)).backToBack).toBe(true);
+    expect(scoreClear(tetris, clear(1)).backToBack).toBe(false);
+  });
+});
+
+describe("detectTSpin", () => {
+  const tsdSlot = ["..#.......", "...#######", "#.########"];
+
+  it("recognises a T-spin double", () => {
+    const s = applyAction(setup(tsdSlot, "T", 0, 17, 1), new Rotate(1));
+    expect(detectTSpin(s)).toBe("full");
+  });
+
+  it("recognises a mini when a front corner is open", () => {
+    // T pointing up on the floor, with only the top-left corner filled
+    const s = { ...setup(["#.........", ".........."], "T", 0, 18, 0), lastKick: 0 };
+    expect(detectTSpin(s)).toBe("mini");
+  });
+
+  it("needs the last move to be a rotation", () => {
+    const s = { ...applyAction(setup(tsdSlot, "T", 0, 17, 1), new Rotate(1)), lastKick: null };
+    expect(detectTSpin(s)).toBe("none");
+  });
+
+  it("upgrades a mini to a full T-spin after the fifth kick", () => {
+    const tstSlot = ["....#.....", "..........", "####.#####", "###..#####", "####.#####"];
+    const s = applyAction(setup(tstSlot, "T", 2, 15, 0), new Rotate(-1));
+    expect(s.lastKick).toBe(4);
+    expect(detectTSpin(s)).toBe("full");
+  });
+
+  it("scores a locked T-spin double", () => {
+    const s = applyAction(setup(tsdSlot, "T", 0, 17, 1), new Rotate(1));
+    const locked = applyAction(s, new Tick());
+    expect(getScore(locked)).toBe(1200);
+    expect(locked.lastClear).toEqual(clear(2, "full"));
+  });
+
+  it("forgets the rotation once the piece falls", () => {
+    const spun = applyAction(setup([], "T", 4, 5, 0), new Rotate(1));
+    expect(spun.lastKick).toBe(0);
+    expect(applyAction(spun, new Tick()).lastKick).toBeNull();
+    expect(applyAction(spun, new HardDrop()).lastClear).toBeNull();
+  });
+});
+
+describe("gravityInterval", () => {
+  it("follows the guideline curve", () => {
+    expect(gravityInterval(1)).toBe(1000);
+    expect(gravityInterval(2)).toBeCloseTo(793);
+    expect(gravityInterval(10)).toBeCloseTo(64.1, 0);
+  });
+
+  it("gets faster every level but never faster than a frame", () => {
+    const curve = Array.from({ length: 20 }, (_, i) => gravityInterval(i + 1));
+    curve.slice(1).forEach((ms, i) => expect(ms).toBeLessThanOrEqual(curve[i]));
+    expect(Math.min(...curve)).toBeCloseTo(1000 / 60);
+  });
+});
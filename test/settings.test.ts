@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  Constants,
+  DEFAULT_SETTINGS,
+  SETTINGS_KEY,
+  SetHandling,
+  applyAction,
+  clampHandling,
+  clampTouch,
+  createGame,
+  createMemoryStore,
+  loadSettings,
+  rebindButton,
+  rebindKey,
+  saveSettings,
+} from "../src/engine";
+
+describe("settings", () => {
+  it("are the defaults on a first visit", () => {
+    expect(loadSettings(createMemoryStore())).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it("survive a save and load", () => {
+    const store = createMemoryStore();
+    const settings = {
+      ...rebindButton(rebindKey(DEFAULT_SETTINGS, 1, "hold", "KeyH"), "hold", 2),
+      handling: { DAS_MS: 100, ARR_MS: 0, SOFT_DROP_FACTOR: 40 },
+      touch: { TAP_MS: 300, TAP_DISTANCE: 1, SWIPE_SPEED: 20, SOFT_DROP_DISTANCE: 2 },
+      buttonPad: true,
+      sound: false,
+    };
+    saveSettings(store, settings);
+    expect(loadSettings(store)).toEqual(settings);
+  });
+
+  it("rebind one player's keys only", () => {
+    const settings = rebindKey(DEFAULT_SETTINGS, 0, "hold", "KeyH");
+    expect(settings.keys[0].hold).toEqual(["KeyH"]);
+    expect(settings.keys[1]).toBe(DEFAULT_SETTINGS.keys[1]);
+  });
+
+  it("fall back to the defaults for anything corrupt", () => {
+    const store = createMemoryStore({
+      [SETTINGS_KEY]: JSON.stringify({
+        keys: [{ left: ["KeyJ"], right: "KeyL" }],
+        gamepad: { hardDrop: ["A"] },
+        handling: { DAS_MS: 90, ARR_MS: "fast" },
+        touch: { TAP_MS: 150, SWIPE_SPEED: null },
+        buttonPad: "yes",
+        sound: 0,
+      }),
+    });
+    const settings = loadSettings(store);
+    expect(settings.keys[0].left).toEqual(["KeyJ"]);
+    expect(settings.keys[0].right).toEqual(DEFAULT_SETTINGS.keys[0].right);
+    expect(settings.keys[1]).toEqual(DEFAULT_SETTINGS.keys[1]);
+    expect(settings.gamepad.hardDrop).toEqual(DEFAULT_SETTINGS.gamepad.hardDrop);
+    expect(settings.handling).toEqual({ ...DEFAULT_SETTINGS.handling, DAS_MS: 90 });
+    expect(settings.touch).toEqual({ ...DEFAULT_SETTINGS.touch, TAP_MS: 150 });
+    expect(settings.buttonPad).toBe(false);
+    expect(settings.sound).toBe(true);
+
+    expect(loadSettings(createMemoryStore({ [SETTINGS_KEY]: "{" }))).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it("keep handling within its limits", () => {
+    expect(clampHandling({ DAS_MS: -5, ARR_MS: 1000, SOFT_DROP_FACTOR: NaN })).toEqual({
+      DAS_MS: 0,
+      ARR_MS: 200,
+      SOFT_DROP_FACTOR: Constants.SOFT_DROP_FACTOR,
+    });
+  });
+
+  it("keep touch thresholds within their limits", () => {
+    expect(clampTouch({ TAP_MS: 0, TAP_DISTANCE: 1, SWIPE_SPEED: Infinity, SOFT_DROP_DISTANCE: 50 })).toEqual({
+      TAP_MS: 50,
+      TAP_DISTANCE: 1,
+      SWIPE_SPEED: DEFAULT_SETTINGS.touch.SWIPE_SPEED,
+      SOFT_DROP_DISTANCE: 10,
+    });
+  });
+
+  it("change the handling of a game in progress", () => {
+    const s = applyAction(createGame(1), new SetHandling({ DAS_MS: 50, ARR_MS: 0, SOFT_DROP_FACTOR: 5 }));
+    expect(s.config.DAS_MS).toBe(50);
+    expect(s.config.ARR_MS).toBe(0);
+    expect(s.config.LOCK_DELAY_MS).toBe(Constants.LOCK_DELAY_MS);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import {
+  Action,
+  Advance,
+  HardDrop,
+  Hold,
+  Move,
+  Pause,
+  Press,
+  Replay,
+  Rotate,
+  SAVE_KEY,
+  applyActions,
+  createGame,
+  createMemoryStore,
+  createReplay,
+  decodeAction,
+  deserializeState,
+  encodeAction,
+  getPiece,
+  isPaused,
+  loadGame,
+  recordAction,
+  runReplay,
+  saveGame,
+  serializeState,
+} from "../src/engine";
+
+const opening: Action[] = [
+  new Move({ x: -1, y: 0 }),
+  new HardDrop(),
+  new Rotate(1),
+  new Advance(400),
+  new Hold(),
+  new Move({ x: 1, y: 0 }),
+  new HardDrop(),
+  new Advance(250),
+];
+
+describe("pausing", () => {
+  it("toggles, or sets an explicit state", () => {
+    const s = createGame(1);
+    expect(isPaused(applyActions(s, [new Pause()]))).toBe(true);
+    expect(isPaused(applyActions(s, [new Pause(), new Pause()]))).toBe(false);
+    expect(isPaused(applyActions(s, [new Pause(true), new Pause(true)]))).toBe(true);
+    expect(isPaused(applyActions(s, [new Pause(false)]))).toBe(false);
+  });
+
+  it("freezes the clock, gravity and moves", () => {
+    const paused = applyActions(createGame(1), [new Pause()]);
+    const s = applyActions(paused, [new Advance(5000), new Move({ x: 1, y: 0 }), new HardDrop(), new Rotate(1)]);
+    expect(s).toEqual(paused);
+  });
+
+  it("keeps track of held controls without moving", () => {
+    const paused = applyActions(createGame(1), [new Pause()]);
+    const s = applyActions(paused, [new Press("left")]);
+    expect(s.input.left).toBe(true);
+    expect(getPiece(s)).toEqual(getPiece(paused));
+  });
+
+  it("resumes where the game left off", () => {
+    const s = applyActions(createGame(1), [new Pause(), new Advance(5000), new Pause(), new Advance(100)]);
+    expect(s.time).toBe(100);
+  });
+
+  it("can't pause a finished game", () => {
+    const s = { ...createGame(1), gameEnd: true };
+    expect(isPaused(applyActions(s, [new Pause()]))).toBe(false);
+  });
+});
+
+describe("snapshots", () => {
+  it("round trip the board, queue, generator and score", () => {
+    const s = applyActions(createGame(7), opening);
+    const loaded = deserializeState(serializeState(s));
+    expect(loaded.gameBoard).toEqual(s.gameBoard);
+    expect(getPiece(loaded)).toEqual(getPiece(s));
+    expect(loaded.queue).toEqual(s.queue);
+    expect(loaded.holdTetromino).toEqual(s.holdTetromino);
+    expect(loaded.generator).toEqual(s.generator);
+    expect(loaded.score).toBe(s.score);
+    expect(loaded.time).toBe(s.time);
+  });
+
+  it("load paused with no controls held", () => {
+    const s = applyActions(createGame(7), [new Press("left"), new Advance(50)]);
+    const loaded = deserializeState(serializeState(s));
+    expect(isPaused(loaded)).toBe(true);
+    expect(loaded.input.left).toBe(false);
+  });
+
+  it("continue exactly like the original game once resumed", () => {
+    const s = applyActions(createGame(7), opening);
+    const loaded = deserializeState(serializeState(s));
+    const resumed = applyActions(loaded, [new Pause(false), ...opening]);
+    expect(resumed).toEqual(applyActions(s, opening));
+  });
+
+  it("reject other JSON", () => {
+    expect(() => deserializeState(JSON.stringify({ version: 1 }))).toThrow("Not a saved game");
+    expect(() => deserializeState(JSON.stringify({ version: 99, state: createGame(1) }))).toThrow(
+      "Unsupported save version 99"
+    );
+  });
+
+  it("reject games that don't fit their config", () => {
+    const s = applyActions(createGame(1), opening);
+    const load = (state: object) => () =>
+      deserializeState(JSON.stringify({ version: 1, savedAt: new Date().toISOString(), state }));
+    const piece = getPiece(s);
+
+    expect(load({ ...s, gameBoard: s.gameBoard.slice(1) })).toThrow("Invalid saved game gameBoard");
+    expect(load({ ...s, gameBoard: s.gameBoard.map(row => [...row, null]) })).toThrow("Invalid saved game gameBoard");
+    expect(load({ ...s, currentTetromino: { ...piece, name: "Q" } })).toThrow("Invalid saved game currentTetromino");
+    expect(load({ ...s, holdTetromino: { ...piece, rotation: 7 } })).toThrow("Invalid saved game holdTetromino");
+    expect(load({ ...s, queue: [...s.queue, null] })).toThrow("Invalid saved game queue");
+    expect(load({ ...s, generator: { ...s.generator, bag: ["Q"] } })).toThrow("Invalid saved game generator");
+    expect(load({ ...s, score: "100" })).toThrow("Invalid saved game score");
+    expect(load({ ...s, time: null })).toThrow("Invalid saved game time");
+    expect(load({ ...s, canHold: 1 })).toThrow("Invalid saved game canHold");
+    expect(load({ ...s, incoming: [{ lines: 2, hole: 10 }] })).toThrow("Invalid saved game incoming");
+    expect(load({ ...s, lineClear: { rows: [40], board: s.gameBoard } })).toThrow("Invalid saved game lineClear");
+    expect(load({ ...s, config: { ...s.config, MODE: "speedrun" } })).toThrow("Invalid config MODE");
+  });
+
+  it("are rejected by the store they're loaded from", () => {
+    const store = createMemoryStore();
+    store.setItem(SAVE_KEY, JSON.stringify({ version: 1, state: { ...createGame(1), level: Infinity } }));
+    expect(() => loadGame(store)).toThrow("Invalid saved game");
+  });
+});
+
+describe("saved games", () => {
+  it("are absent from an empty store", () => {
+    expect(loadGame(createMemoryStore())).toBeNull();
+  });
+
+  it("are replaced by the latest save", () => {
+    const store = createMemoryStore();
+    saveGame(store, createGame(1));
+    saveGame(store, applyActions(createGame(2), opening));
+    expect(loadGame(store)?.seed).toBe(2);
+    expect(store.getItem(SAVE_KEY)).not.toBeNull();
+  });
+});
+
+describe("replays of paused and resumed games", () => {
+  it("record pauses", () => {
+    expect(encodeAction(new Pause(true))).toEqual({ type: "pause", paused: true });
+    expect(encodeAction(decodeAction({ type: "pause" }))).toEqual({ type: "pause" });
+  });
+
+  it("start from the saved state when the game was resumed", () => {
+    const s = deserializeState(serializeState(applyActions(createGame(7), opening)));
+    const actions = [new Pause(false), ...opening];
+    const replay = actions.reduce((r: Replay, a) => recordAction(r, a), createReplay(s, true));
+    expect(replay.start).toEqual(s);
+    expect(runReplay(replay)).toEqual(applyActions(s, actions));
+  });
+});
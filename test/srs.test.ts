@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { Rotate, State, Tetromino, Tick, applyAction, createGame, getBoard, getPiece } from "../src/engine";
+
+/**
+ * Builds a 10x20 game whose bottom rows are given as strings ("#" is filled)
+ * and whose falling piece is placed at the given position and rotation.
+ */
+const setup = (rows: string[], name: string, x: number, y: number, rotation = 0): State => {
+  const s = createGame(1);
+  const board = getBoard(s).map((row, rowIndex) => {
+    const line = rows[rowIndex - (20 - rows.length)];
+    return line === undefined ? row : [...line].map(c => (c === "#" ? "Z" : null));
+  });
+  const piece = { name, colour: name, x, y, rotation, shapesArray: Tetromino[name][rotation] };
+  return { ...s, gameBoard: board, currentTetromino: piece };
+};
+
+const rotate = (s: State, turns: 1 | -1 | 2) => getPiece(applyAction(s, new Rotate(turns)));
+
+describe("rotation states", () => {
+  it("rotates clockwise, counter-clockwise and 180° in open space", () => {
+    const s = setup([], "T", 4, 5);
+    expect(rotate(s, 1)).toMatchObject({ rotation: 1, x: 4, y: 5 });
+    expect(rotate(s, -1)).toMatchObject({ rotation: 3, x: 4, y: 5 });
+    expect(rotate(s, 2)).toMatchObject({ rotation: 2, x: 4, y: 5 });
+  });
+
+  it("gives every piece four rotation states", () => {
+    Object.values(Tetromino).forEach(states => expect(states).toHaveLength(4));
+  });
+
+  it("never moves the O piece", () => {
+    const s = setup([], "O", 0, 18);
+    expect(rotate(s, 1)).toMatchObject({ rotation: 1, x: 0, y: 18 });
+  });
+});
+
+describe("wall kicks", () => {
+  it("kicks a T off the right wall", () => {
+    // state L hugging the right wall, spawn state would poke out past it
+    const s = setup([], "T", 8, 5, 3);
+    expect(rotate(s, 1)).toMatchObject({ rotation: 0, x: 7, y: 5 });
+  });
+
+  it("kicks an I two columns off the left wall", () => {
+    // state R with its cubes in column 0
+    const s = setup([], "I", -2, 5, 1);
+    expect(rotate(s, 1)).toMatchObject({ rotation: 2, x: 0, y: 5 });
+  });
+
+  it("kicks a piece up off the floor", () => {
+    // T in spawn state lying on the floor, the first kick that fits lifts it
+    const s = setup([], "T", 4, 18, 0);
+    expect(rotate(s, 2)).toMatchObject({ rotation: 2, x: 4, y: 17 });
+  });
+
+  it("leaves the piece alone when every kick is blocked", () => {
+    // vertical I at the bottom of a one-wide well
+    const s = setup(["#.########", "#.########", "#.########", "#.########"], "I", -1, 16, 1);
+    expect(rotate(s, 1)).toEqual(getPiece(s));
+  });
+});
+
+describe("T-spins", () => {
+  const tstSlot = [
+    "....#.....",
+    "..........",
+    "####.#####",
+    "###..#####",
+    "####.#####",
+  ];
+
+  it("uses the fifth kick to drop a T into a T-spin triple slot", () => {
+    // T in spawn state tucked under the overhang, left of the slot
+    const s = setup(tstSlot, "T", 2, 15, 0);
+    expect(rotate(s, -1)).toMatchObject({ rotation: 3, x: 3, y: 17 });
+  });
+
+  it("clears three lines once the spun T locks", () => {
+    const s = applyAction(setup(tstSlot, "T", 2, 15, 0), new Rotate(-1));
+    const locked = getBoard(applyAction(s, new Tick()));
+    // only the overhang is left, shifted down by the three cleared rows
+    expect(locked.flat().filter(cell => cell !== null)).toHaveLength(1);
+    expect(locked[18][4]).not.toBeNull();
+  });
+
+  it("clears two lines from a T-spin double slot", () => {
+    const s = applyAction(setup([
+      "..#.......",
+      "...#######",
+      "#.########",
+    ], "T", 0, 17, 1), new Rotate(1));
+    expect(getPiece(s)).toMatchObject({ rotation: 2, x: 0, y: 17 });
+    const locked = getBoard(applyAction(s, new Tick()));
+    expect(locked.flat().filter(cell => cell !== null)).toHaveLength(1);
+    expect(locked[19][2]).not.toBeNull();
+  });
+});
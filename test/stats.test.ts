@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  Action,
+  HardDrop,
+  Hold,
+  Move,
+  Press,
+  Restart,
+  Rotate,
+  State,
+  Stats,
+  Tetromino,
+  applyAction,
+  clearName,
+  createGame,
+  createStats,
+  finesseInputs,
+  getBoard,
+  recordStats,
+  statsResults,
+  statsSummary,
+} from "../src/engine";
+
+/** Plays actions through a game, keeping its stats alongside. */
+const play = (s: State, actions: ReadonlyArray<Action>, stats: Stats = createStats()): [State, Stats] =>
+  actions.reduce<[State, Stats]>(
+    ([before, counted], action) => {
+      const after = applyAction(before, action);
+      return [after, recordStats(counted, before, after, action)];
+    },
+    [s, stats]
+  );
+
+/** A game with the given piece falling first. */
+const withPiece = (s: State, name: string): State => ({
+  ...s,
+  currentTetromino: { ...s.currentTetromino, name, colour: name, rotation: 0, shapesArray: Tetromino[name][0] },
+});
+
+/** A game with an I piece falling over four rows filled but for their right cell. */
+const tetrisReady = (): State => {
+  const s = withPiece(createGame(1), "I");
+  return { ...s, gameBoard: getBoard(s).map((row, y) => (y < 16 ? row : row.map((_, x) => (x < 9 ? "Z" : null)))) };
+};
+
+const left = new Move({ x: -1, y: 0 });
+const right = new Move({ x: 1, y: 0 });
+
+describe("stats", () => {
+  it("count the pieces placed and the keys pressed for them", () => {
+    const [, stats] = play(createGame(1), [new HardDrop(), new Rotate(1), new HardDrop()]);
+    expect(stats.pieces).toBe(2);
+    expect(stats.inputs).toBe(3);
+    expect(Object.values(stats.pieceCounts).reduce((a, b) => a + b)).toBe(2);
+  });
+
+  it("don't count keys pressed while paused or after the game", () => {
+    const paused = { ...createGame(1), paused: true };
+    expect(play(paused, [left, new HardDrop()])[1].inputs).toBe(0);
+  });
+
+  it("name each kind of clear", () => {
+    expect(clearName({ lines: 4, tSpin: "none", perfectClear: false })).toBe("Tetris");
+    expect(clearName({ lines: 2, tSpin: "full", perfectClear: false })).toBe("T-spin double");
+    expect(clearName({ lines: 0, tSpin: "mini", perfectClear: false })).toBe("T-spin mini");
+    expect(clearName({ lines: 0, tSpin: "none", perfectClear: false })).toBeNull();
+  });
+
+  it("count clears and perfect clears, and the attack they make", () => {
+    const [, stats] = play(tetrisReady(), [new Rotate(1), ...Array(5).fill(right), new HardDrop()]);
+    expect(stats.clears).toEqual({ Tetris: 1, "Perfect clear": 1 });
+    expect(stats.lines).toBe(4);
+    expect(stats.attack).toBe(14);
+  });
+
+  it("find the fewest inputs for a placement", () => {
+    const s = withPiece(createGame(1), "T");
+    const spawn = s.currentTetromino;
+    expect(finesseInputs(spawn, s)).toBe(0);
+    expect(finesseInputs(play(s, [left, left])[0].currentTetromino, s)).toBe(2);
+    expect(finesseInputs(play(s, Array(9).fill(left))[0].currentTetromino, s)).toBe(1); // DAS to the wall
+    expect(finesseInputs(play(s, [new Rotate(1), new Rotate(1)])[0].currentTetromino, s)).toBe(1);
+  });
+
+  it("count finesse faults for inputs beyond the fewest", () => {
+    const [, tapped] = play(createGame(1), [...Array(9).fill(left), new HardDrop()]);
+    expect(tapped.faults).toBeGreaterThan(0);
+    const [, wasted] = play(createGame(1), [left, right, new Rotate(1), new Rotate(-1), new HardDrop()]);
+    expect(wasted.faults).toBe(4);
+    expect(play(createGame(1), [left, left, new HardDrop()])[1].faults).toBe(0);
+  });
+
+  it("don't judge soft dropped or held pieces by what came before", () => {
+    const [, dropped] = play(createGame(1), [left, right, new Press("softDrop"), new HardDrop()]);
+    expect(dropped.faults).toBe(0);
+    const [, held] = play(createGame(1), [left, right, new Hold(), new HardDrop()]);
+    expect(held.faults).toBe(0);
+  });
+
+  it("start over on a restart", () => {
+    const [, stats] = play(createGame(1), [new HardDrop(), new Restart()]);
+    expect(stats).toEqual(createStats());
+  });
+
+  it("work out rates over the time played", () => {
+    const [, played] = play(createGame(1), [new HardDrop(), new HardDrop()]);
+    const stats = { ...played, time: 30000 };
+    const summary = Object.fromEntries(statsSummary(stats).map(({ label, value }) => [label, value]));
+    expect(summary).toEqual({ PPS: "0.07", APM: "0.0", KPP: "1.00", Finesse: "0" });
+    expect(statsResults(stats, createGame(1)).map(({ label }) => label)).toEqual(
+      expect.arrayContaining(["Pieces", "LPM", "Max combo", "J", "L", "T"])
+    );
+  });
+});
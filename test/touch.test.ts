@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { Action, DEFAULT_TOUCH, Gesture, Touch, TouchThresholds, encodeAction, touchGesture } from "../src/engine";
+
+/**
+ * Follows a finger through a gesture, from touching down at the first point
+ * to lifting at the last.
+ *
+ * @param points Where the finger was, in cells, and when, in milliseconds
+ * @returns The actions the gesture made
+ */
+const gesture = (points: Array<[number, number, number]>, thresholds: TouchThresholds = DEFAULT_TOUCH) =>
+  points
+    .map(([x, y, time], i): Touch => ({
+      phase: i === 0 ? "start" : i === points.length - 1 ? "end" : "move",
+      x,
+      y,
+      time,
+    }))
+    .reduce(
+      ([g, actions], touch): [Gesture | null, Action[]] => {
+        const [next, made] = touchGesture(g, touch, thresholds);
+        return [next, [...actions, ...made]];
+      },
+      [null, []] as [Gesture | null, Action[]]
+    )[1]
+    .map(encodeAction);
+
+describe("touch gestures", () => {
+  it("rotate on a tap", () => {
+    expect(gesture([[4, 10, 0], [4.1, 10, 80]])).toEqual([{ type: "rotate", turns: 1 }]);
+  });
+
+  it("don't count a long press as a tap", () => {
+    expect(gesture([[4, 10, 0], [4, 10, 600]])).toEqual([]);
+  });
+
+  it("move a column for every column dragged", () => {
+    expect(gesture([[4.5, 10, 0], [5.6, 10, 50], [7.6, 10.2, 100], [7.7, 10.2, 400]])).toEqual([
+      { type: "move", x: 1, y: 0 },
+      { type: "move", x: 1, y: 0 },
+      { type: "move", x: 1, y: 0 },
+    ]);
+    expect(gesture([[4.5, 10, 0], [3.4, 10, 50], [3.4, 10, 60]])).toEqual([{ type: "move", x: -1, y: 0 }]);
+  });
+
+  it("hard drop on a fast swipe down", () => {
+    expect(gesture([[4, 5, 0], [4, 8, 30], [4, 12, 60]])).toEqual([{ type: "hardDrop" }]);
+  });
+
+  it("soft drop while dragging slowly down", () => {
+    expect(gesture([[4, 5, 0], [4, 6, 200], [4, 7, 400], [4, 9, 800], [4, 9, 900]])).toEqual([
+      { type: "press", control: "softDrop" },
+      { type: "release", control: "softDrop" },
+    ]);
+  });
+
+  it("follow the configured thresholds", () => {
+    const sluggish = { ...DEFAULT_TOUCH, SWIPE_SPEED: 5, TAP_MS: 1000 };
+    expect(gesture([[4, 5, 0], [4, 12, 1000]], sluggish)).toEqual([{ type: "hardDrop" }]);
+    expect(gesture([[4, 10, 0], [4, 10, 600]], sluggish)).toEqual([{ type: "rotate", turns: 1 }]);
+  });
+
+  it("ignore a finger that never touched down", () => {
+    expect(touchGesture(null, { phase: "end", x: 0, y: 0, time: 0 }, DEFAULT_TOUCH)).toEqual([null, []]);
+  });
+});
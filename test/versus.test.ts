@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import {
+  Advance,
+  ClearType,
+  GARBAGE,
+  HardDrop,
+  Restart,
+  State,
+  Tetromino,
+  Versus,
+  applyAction,
+  attackLines,
+  createGame,
+  createVersus,
+  getBoard,
+  getPiece,
+  isGameOver,
+  isVersusOver,
+  pendingLines,
+  reduceVersus,
+} from "../src/engine";
+
+/**
+ * Builds a 10x20 game whose bottom rows are given as strings ("#" is filled)
+ * and whose falling piece is placed at the given position and rotation.
+ */
+const setup = (rows: string[], name: string, x: number, y: number, rotation = 0): State => {
+  const s = createGame(1);
+  const board = getBoard(s).map((row, rowIndex) => {
+    const line = rows[rowIndex - (20 - rows.length)];
+    return line === undefined ? row : [...line].map(c => (c === "#" ? "Z" : null));
+  });
+  const piece = { name, colour: name, x, y, rotation, shapesArray: Tetromino[name][rotation] };
+  return { ...s, gameBoard: board, currentTetromino: piece };
+};
+
+const clear = (lines: number, tSpin: ClearType["tSpin"] = "none", perfectClear = false): ClearType => ({
+  lines,
+  tSpin,
+  perfectClear,
+});
+
+// four rows with the right column open, and an upright I above the gap. The
+// cell on top keeps the tetris from being a perfect clear
+const tetrisReady = setup(["#.........", ...Array(4).fill("#########.")], "I", 7, 0, 1);
+
+// a board stacked to the ceiling everywhere but the left column
+const stacked = (s: State): State => ({
+  ...s,
+  gameBoard: s.gameBoard.map(row => row.map((_, x) => (x === 0 ? null : "Z"))),
+});
+
+const withPlayer = (v: Versus, player: 0 | 1, s: State): Versus => ({
+  ...v,
+  players: player === 0 ? [s, v.players[1]] : [v.players[0], s],
+});
+
+describe("attackLines", () => {
+  it("sends garbage for doubles, triples and tetrises", () => {
+    expect([0, 1, 2, 3, 4].map(n => attackLines(clear(n), false, 0))).toEqual([0, 0, 1, 2, 4]);
+  });
+
+  it("sends more for T-spins", () => {
+    expect([0, 1, 2, 3].map(n => attackLines(clear(n, "full"), false, 0))).toEqual([0, 2, 4, 6]);
+    expect(attackLines(clear(2, "mini"), false, 0)).toBe(1);
+  });
+
+  it("adds back-to-back, combo and perfect clear bonuses", () => {
+    expect(attackLines(clear(4), true, 0)).toBe(5);
+    expect(attackLines(clear(2), true, 0)).toBe(1);
+    expect([1, 2, 3, 4, 5].map(combo => attackLines(clear(1), false, combo))).toEqual([0, 1, 1, 2, 2]);
+    expect(attackLines(clear(1), false, 50)).toBe(5);
+    expect(attackLines(clear(4, "none", true), false, 0)).toBe(14);
+  });
+});
+
+describe("garbage", () => {
+  it("is sent by clearing lines", () => {
+    expect(applyAction(tetrisReady, new HardDrop()).attack).toBe(4);
+  });
+
+  it("is cancelled by clearing lines, oldest first", () => {
+    const cancelled = applyAction({ ...tetrisReady, incoming: [{ lines: 3, hole: 0 }] }, new HardDrop());
+    expect(cancelled.incoming).toEqual([]);
+    expect(cancelled.attack).toBe(1);
+
+    const partly = applyAction(
+      { ...tetrisReady, incoming: [{ lines: 2, hole: 0 }, { lines: 4, hole: 5 }] },
+      new HardDrop()
+    );
+    expect(partly.incoming).toEqual([{ lines: 2, hole: 5 }]);
+    expect(partly.attack).toBe(0);
+  });
+
+  it("rises from the bottom when a piece locks without clearing lines", () => {
+    const s = { ...createGame(1), incoming: [{ lines: 2, hole: 3 }] };
+    const next = applyAction(s, new HardDrop());
+    const board = getBoard(next);
+    expect(next.incoming).toEqual([]);
+    board.slice(-2).forEach(row => expect(row).toEqual(row.map((_, x) => (x === 3 ? null : GARBAGE))));
+    // the piece that just locked is pushed up with the stack
+    expect(board[17].some(cell => cell !== null && cell !== GARBAGE)).toBe(true);
+  });
+
+  it("tops out a player whose stack it pushes off the top", () => {
+    const tall = { ...createGame(1), incoming: [{ lines: 2, hole: 3 }] };
+    const column = getBoard(tall).map((row, y) => row.map((_, x) => (x === 0 && y > 0 ? "Z" : null)));
+    const s = { ...tall, gameBoard: column };
+    const ended = applyAction(s, new HardDrop());
+    expect(isGameOver(ended)).toBe(true);
+    expect(ended.events.map(event => event.type)).toEqual(["hardDrop", "lock", "topOut", "gameOver"]);
+  });
+
+  it("adds up for the incoming meter", () => {
+    expect(pendingLines([{ lines: 2, hole: 0 }, { lines: 3, hole: 1 }])).toBe(5);
+  });
+});
+
+describe("versus", () => {
+  it("deals both players the same pieces", () => {
+    const v = ([0, 1, 0, 1] as const).reduce(
+      (v: Versus, player) => reduceVersus(v, { player, action: new HardDrop() }),
+      createVersus(9)
+    );
+    expect(getPiece(v.players[0]).name).toBe(getPiece(v.players[1]).name);
+    expect(v.players[0].queue).toEqual(v.players[1].queue);
+  });
+
+  it("only moves the player an action is for, or both", () => {
+    const v = createVersus(1);
+    const dropped = reduceVersus(v, { player: 1, action: new HardDrop() });
+    expect(dropped.players[0]).toBe(v.players[0]);
+    expect(dropped.players[1]).not.toBe(v.players[1]);
+
+    const advanced = reduceVersus(v, { player: null, action: new Advance(100) });
+    expect(advanced.players.map(s => s.time)).toEqual([100, 100]);
+  });
+
+  it("delivers garbage to the opponent with one hole", () => {
+    const v = reduceVersus(withPlayer(createVersus(1), 0, tetrisReady), { player: 0, action: new HardDrop() });
+    expect(v.players[0].attack).toBe(0);
+    expect(v.players[1].incoming).toHaveLength(1);
+    expect(v.players[1].incoming[0].lines).toBe(4);
+    expect(v.players[1].incoming[0].hole).toBeGreaterThanOrEqual(0);
+    expect(v.players[1].incoming[0].hole).toBeLessThan(10);
+  });
+
+  it("is lost by the first player to top out", () => {
+    const v = createVersus(1);
+    const ended = reduceVersus(withPlayer(v, 1, stacked(v.players[1])), { player: 1, action: new HardDrop() });
+    expect(ended.winner).toBe(0);
+    expect(isVersusOver(ended)).toBe(true);
+    expect(ended.players[0].goalReached).toBe(true);
+    expect(ended.players[1].goalReached).toBe(false);
+  });
+
+  it("restarts both players with a new seed", () => {
+    const v = reduceVersus(createVersus(1), { player: 0, action: new HardDrop() });
+    const restarted = reduceVersus(v, { player: null, action: new Restart() });
+    expect(restarted.seed).not.toBe(1);
+    expect(restarted.players[0]).toEqual(restarted.players[1]);
+    expect(restarted.winner).toBeNull();
+  });
+});